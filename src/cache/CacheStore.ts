@@ -0,0 +1,130 @@
+import { EventEmitter } from 'events';
+import { createHash } from 'crypto';
+
+export interface CacheConfig {
+  ttl?: number; // Seconds until entries expire, default one day
+  namespace?: string; // Prefix for keys in shared stores
+}
+
+export interface CacheWrapOptions<T> {
+  ttl?: number;
+  shouldCache?: (value: T) => boolean; // Skip caching values such as empty result lists
+}
+
+/**
+ * Build a cache key from the parts that identify a cached value. Object keys
+ * are sorted so that equal options always produce the same key.
+ */
+export function createCacheKey(kind: string, ...parts: unknown[]): string {
+  const digest = createHash('sha256').update(stableStringify(parts)).digest('hex');
+  return `${kind}:${digest}`;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => (value as any)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export abstract class CacheStore extends EventEmitter {
+  protected config: CacheConfig;
+  protected name: string;
+
+  constructor(name: string, config?: CacheConfig) {
+    super();
+    this.name = name;
+    this.config = {
+      ttl: 86400,
+      namespace: 'gpt-research',
+      ...config
+    };
+  }
+
+  /**
+   * Get a value, or undefined when it is missing or expired
+   */
+  abstract get<T>(key: string): Promise<T | undefined>;
+
+  /**
+   * Store a JSON-serializable value, expiring after ttl seconds
+   */
+  abstract set<T>(key: string, value: T, ttl?: number): Promise<void>;
+
+  abstract delete(key: string): Promise<void>;
+
+  /**
+   * Remove every entry in this store's namespace
+   */
+  abstract clear(): Promise<void>;
+
+  getName(): string {
+    return this.name;
+  }
+
+  /**
+   * Return the cached value for key, or compute, store and return it. Cache
+   * failures are reported through the error event and never fail the computation.
+   */
+  async wrap<T>(key: string, compute: () => Promise<T>, options?: CacheWrapOptions<T>): Promise<T> {
+    try {
+      const cached = await this.get<T>(key);
+      if (cached !== undefined) {
+        this.emit('cache_hit', { key });
+        return cached;
+      }
+    } catch (error) {
+      this.emit('cache_error', { key, error });
+    }
+
+    this.emit('cache_miss', { key });
+    const value = await compute();
+
+    if (!options?.shouldCache || options.shouldCache(value)) {
+      try {
+        await this.set(key, value, options?.ttl);
+      } catch (error) {
+        this.emit('cache_error', { key, error });
+      }
+    }
+
+    return value;
+  }
+
+  protected getTtl(ttl?: number): number {
+    return ttl ?? this.config.ttl ?? 86400;
+  }
+
+  protected namespacedKey(key: string): string {
+    return `${this.config.namespace}:${key}`;
+  }
+}
+
+// Factory for creating cache stores
+export class CacheFactory {
+  private static stores: Map<string, typeof CacheStore> = new Map();
+
+  public static register(name: string, store: typeof CacheStore): void {
+    this.stores.set(name.toLowerCase(), store);
+  }
+
+  public static create(name: string, config?: CacheConfig): CacheStore {
+    const Store = this.stores.get(name.toLowerCase());
+    if (!Store) {
+      throw new Error(`Unknown cache backend: ${name}`);
+    }
+
+    return new (Store as any)(name, config);
+  }
+
+  public static getAvailableStores(): string[] {
+    return Array.from(this.stores.keys());
+  }
+}
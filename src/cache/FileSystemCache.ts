@@ -0,0 +1,65 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { CacheConfig, CacheStore } from './CacheStore';
+
+export interface FileSystemCacheConfig extends CacheConfig {
+  directory?: string; // Default ./.cache/gpt-research
+}
+
+interface CacheFile {
+  key: string;
+  value: unknown;
+  expiresAt: number;
+}
+
+export class FileSystemCache extends CacheStore {
+  declare protected config: FileSystemCacheConfig;
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const filePath = this.filePath(key);
+
+    let entry: CacheFile;
+    try {
+      entry = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      await fs.promises.rm(filePath, { force: true });
+      return undefined;
+    }
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttl?: number): Promise<void> {
+    const entry: CacheFile = { key, value, expiresAt: Date.now() + this.getTtl(ttl) * 1000 };
+    const filePath = this.filePath(key);
+
+    // Write to a temporary file first so readers never see a partial entry
+    await fs.promises.mkdir(this.getDirectory(), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(entry), 'utf8');
+    await fs.promises.rename(tempPath, filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.filePath(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    await fs.promises.rm(this.getDirectory(), { recursive: true, force: true });
+  }
+
+  private getDirectory(): string {
+    return path.resolve(this.config.directory || './.cache/gpt-research', this.config.namespace || '');
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.getDirectory(), `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+}
@@ -0,0 +1,50 @@
+import { CacheConfig, CacheStore } from './CacheStore';
+
+export interface MemoryCacheConfig extends CacheConfig {
+  maxEntries?: number; // Least recently used entries are evicted beyond this, default 1000
+}
+
+export class MemoryCache extends CacheStore {
+  declare protected config: MemoryCacheConfig;
+  private entries: Map<string, { value: unknown; expiresAt: number }> = new Map();
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Move to the end so that eviction removes the least recently used entry
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttl?: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.getTtl(ttl) * 1000 });
+
+    const maxEntries = this.config.maxEntries ?? 1000;
+    while (this.entries.size > maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+}
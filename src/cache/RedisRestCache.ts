@@ -0,0 +1,62 @@
+import axios from 'axios';
+import { CacheConfig, CacheStore } from './CacheStore';
+
+export interface RedisRestCacheConfig extends CacheConfig {
+  url?: string; // REST endpoint of an Upstash Redis or Vercel KV database
+  token?: string;
+  timeout?: number;
+}
+
+/**
+ * Redis over the Upstash REST protocol, which Vercel KV also speaks, so the
+ * cache works from serverless functions without a TCP connection
+ */
+export class RedisRestCache extends CacheStore {
+  declare protected config: RedisRestCacheConfig;
+
+  constructor(name: string, config?: RedisRestCacheConfig) {
+    super(name, config);
+
+    if (!this.config.url || !this.config.token) {
+      throw new Error('Redis REST cache requires a URL and token');
+    }
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const value = await this.command<string | null>('GET', this.namespacedKey(key));
+    return value === null || value === undefined ? undefined : JSON.parse(value) as T;
+  }
+
+  async set<T>(key: string, value: T, ttl?: number): Promise<void> {
+    await this.command('SET', this.namespacedKey(key), JSON.stringify(value), 'EX', this.getTtl(ttl));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.command('DEL', this.namespacedKey(key));
+  }
+
+  async clear(): Promise<void> {
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.command<[string, string[]]>(
+        'SCAN', cursor, 'MATCH', `${this.config.namespace}:*`, 'COUNT', 100
+      );
+      if (keys.length > 0) {
+        await this.command('DEL', ...keys);
+      }
+      cursor = next;
+    } while (cursor !== '0');
+  }
+
+  private async command<T = unknown>(...args: Array<string | number>): Promise<T> {
+    const response = await axios.post(this.config.url!, args, {
+      headers: { Authorization: `Bearer ${this.config.token}` },
+      timeout: this.config.timeout || 5000
+    });
+
+    if (response.data?.error) {
+      throw new Error(`Redis ${args[0]} failed: ${response.data.error}`);
+    }
+    return response.data?.result as T;
+  }
+}
@@ -0,0 +1,42 @@
+// Export all cache stores
+export { CacheStore, CacheConfig, CacheWrapOptions, CacheFactory, createCacheKey } from './CacheStore';
+export { MemoryCache, MemoryCacheConfig } from './MemoryCache';
+export { FileSystemCache, FileSystemCacheConfig } from './FileSystemCache';
+export { RedisRestCache, RedisRestCacheConfig } from './RedisRestCache';
+
+// Register cache stores with factory
+import { CacheFactory, CacheStore } from './CacheStore';
+import { MemoryCache } from './MemoryCache';
+import { FileSystemCache } from './FileSystemCache';
+import { RedisRestCache } from './RedisRestCache';
+import { Config } from '../core/Config';
+
+CacheFactory.register('memory', MemoryCache);
+CacheFactory.register('filesystem', FileSystemCache);
+CacheFactory.register('redis', RedisRestCache);
+
+// Stores are shared so that every conductor and browser in the process sees the same entries
+const sharedStores: Map<string, CacheStore> = new Map();
+
+/**
+ * Get the cache store selected by the configuration, or null when caching is disabled
+ */
+export function getCache(config: Config): CacheStore | null {
+  const backend = config.get('cacheBackend') || 'none';
+  if (backend === 'none') {
+    return null;
+  }
+
+  const options = {
+    ttl: config.get('cacheTtl'),
+    directory: config.get('cacheDir'),
+    url: config.get('vercelKvRestApiUrl'),
+    token: config.get('vercelKvRestApiToken')
+  };
+  const key = `${backend}:${options.directory || ''}:${options.url || ''}`;
+
+  if (!sharedStores.has(key)) {
+    sharedStores.set(key, CacheFactory.create(backend, options));
+  }
+  return sharedStores.get(key)!;
+}
@@ -0,0 +1,28 @@
+import { CitationFormatter, MONTH_NAMES } from './CitationFormatter';
+import { SearchResult } from '../types';
+import { formatCitation } from '../utils/citations';
+
+/**
+ * APA 7th edition, e.g. "Vaswani, A., & Shazeer, N. (2017). Attention is all you need. *NeurIPS*. https://doi.org/..."
+ */
+export class APAFormatter extends CitationFormatter {
+  protected formatWork(source: SearchResult): string {
+    return formatCitation(source);
+  }
+
+  protected formatPage(source: SearchResult): string {
+    const { year, month, day } = this.getDate(source);
+    const date = year ? this.join([String(year), month && this.join([MONTH_NAMES[month - 1], day])], ', ') : 'n.d.';
+    const title = `*${this.getTitle(source)}*.`;
+    const site = this.getSite(source);
+
+    // Without an author, the title takes the author's place
+    return this.join([
+      source.author ? `${source.author.replace(/\.$/, '')}.` : title,
+      `(${date}).`,
+      source.author && title,
+      site && `${site}.`,
+      source.url
+    ]);
+  }
+}
@@ -0,0 +1,57 @@
+import { CitationFormatter, MONTH_NAMES, PersonName } from './CitationFormatter';
+import { SearchResult } from '../types';
+
+// Bibliographies list up to ten authors; longer lists give the first seven and "et al."
+const MAX_LISTED_AUTHORS = 10;
+const ABBREVIATED_AUTHORS = 7;
+
+/**
+ * Chicago 17th edition bibliography entries, e.g.
+ * "Vaswani, Ashish, and Noam Shazeer. "Attention Is All You Need." *NeurIPS* (2017). https://doi.org/..."
+ */
+export class ChicagoFormatter extends CitationFormatter {
+  protected formatWork(source: SearchResult): string {
+    const authors = this.formatAuthors(this.getAuthors(source));
+    const publication = source.venue
+      ? `*${source.venue}*${source.year ? ` (${source.year})` : ''}.`
+      : source.year && `${source.year}.`;
+
+    return this.join([
+      authors && `${authors}.`,
+      this.quote(this.getTitle(source), '.'),
+      publication,
+      `${this.getLink(source)}.`
+    ]);
+  }
+
+  protected formatPage(source: SearchResult): string {
+    const { year, month, day } = this.getDate(source);
+    const site = this.getSite(source);
+    const date = month ? this.join([MONTH_NAMES[month - 1], day && `${day},`, year]) : year && String(year);
+
+    return this.join([
+      source.author && `${source.author.replace(/\.$/, '')}.`,
+      this.quote(this.getTitle(source), '.'),
+      site && `${site}.`,
+      date && `${date}.`,
+      `${source.url}.`
+    ]);
+  }
+
+  /**
+   * The first author inverted ("Family, Given"), the others in natural order
+   */
+  private formatAuthors(authors: PersonName[]): string {
+    if (authors.length === 0) return '';
+
+    const names = authors.map((author, index) => index === 0
+      ? this.join([author.family, author.given.join(' ')], ', ')
+      : this.join([...author.given, author.family])
+    );
+
+    if (names.length > MAX_LISTED_AUTHORS) {
+      return `${names.slice(0, ABBREVIATED_AUTHORS).join(', ')}, et al`;
+    }
+    return this.joinNames(names);
+  }
+}
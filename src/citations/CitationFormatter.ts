@@ -0,0 +1,152 @@
+import { CitationStyle, SearchResult } from '../types';
+import { isScholarlySource, parseAuthorName } from '../utils/citations';
+
+export interface PersonName {
+  family: string;
+  given: string[];
+}
+
+// Publication date parts that a source provides
+export interface CitationDate {
+  year?: number;
+  month?: number; // 1-12
+  day?: number;
+}
+
+export const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+// ISO dates that may stop at the year or month, e.g. "2017" or "2017-06"
+const PARTIAL_DATE = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/;
+
+/**
+ * The publication date parts a source gives, or just the year of a scholarly work
+ */
+export function getCitationDate(source: SearchResult): CitationDate {
+  const published = source.publishedDate?.trim() || '';
+  const parts = published.match(PARTIAL_DATE);
+  let date: CitationDate = {};
+
+  if (parts) {
+    date = {
+      year: parseInt(parts[1], 10),
+      month: parts[2] ? parseInt(parts[2], 10) : undefined,
+      day: parts[3] ? parseInt(parts[3], 10) : undefined
+    };
+  } else if (published && !isNaN(new Date(published).getTime())) {
+    const parsed = new Date(published);
+    date = { year: parsed.getUTCFullYear(), month: parsed.getUTCMonth() + 1, day: parsed.getUTCDate() };
+  }
+
+  // The year a scholarly work was published wins over any other date it carries
+  if (!date.year || (source.year && isScholarlySource(source) && date.year !== source.year)) {
+    return { year: source.year };
+  }
+  return date;
+}
+
+export abstract class CitationFormatter {
+  protected style: CitationStyle;
+
+  constructor(style: CitationStyle) {
+    this.style = style;
+  }
+
+  /**
+   * Format a source as a markdown reference list entry
+   */
+  format(source: SearchResult): string {
+    const reference = isScholarlySource(source) ? this.formatWork(source) : this.formatPage(source);
+    return source.sourceType === 'local' ? `${reference} (internal document)` : reference;
+  }
+
+  /**
+   * Format a paper or other scholarly work
+   */
+  protected abstract formatWork(source: SearchResult): string;
+
+  /**
+   * Format a web page or document
+   */
+  protected abstract formatPage(source: SearchResult): string;
+
+  getStyle(): CitationStyle {
+    return this.style;
+  }
+
+  protected getAuthors(source: SearchResult): PersonName[] {
+    return (source.authors || [])
+      .map(parseAuthorName)
+      .filter(name => name.family);
+  }
+
+  protected getDate(source: SearchResult): CitationDate {
+    return getCitationDate(source);
+  }
+
+  /**
+   * The site a web page was published on, e.g. "reuters.com"
+   */
+  protected getSite(source: SearchResult): string {
+    try {
+      return new URL(source.url).hostname.replace(/^www\./, '');
+    } catch (error) {
+      return '';
+    }
+  }
+
+  protected getLink(source: SearchResult): string {
+    return source.doi ? `https://doi.org/${source.doi}` : source.url;
+  }
+
+  protected getTitle(source: SearchResult): string {
+    return source.title.trim().replace(/\.$/, '');
+  }
+
+  /**
+   * Quote a title, placing trailing punctuation inside the quotes unless the title ends in its own
+   */
+  protected quote(title: string, punctuation: string): string {
+    return /[?!]$/.test(title) ? `"${title}"` : `"${title}${punctuation}"`;
+  }
+
+  /**
+   * Join names as "A", "A and B" or "A, B, and C"
+   */
+  protected joinNames(names: string[], conjunction: string = 'and'): string {
+    if (names.length <= 1) return names[0] || '';
+    if (names.length === 2) return `${names[0]} ${conjunction} ${names[1]}`;
+    return `${names.slice(0, -1).join(', ')}, ${conjunction} ${names[names.length - 1]}`;
+  }
+
+  /**
+   * Join the parts of a reference that are present
+   */
+  protected join(parts: Array<string | number | undefined | false>, separator: string = ' '): string {
+    return parts.filter(Boolean).join(separator);
+  }
+}
+
+// Factory for creating citation formatters by style
+export class CitationFormatterFactory {
+  private static formatters: Map<CitationStyle, typeof CitationFormatter> = new Map();
+
+  public static register(style: CitationStyle, formatter: typeof CitationFormatter): void {
+    this.formatters.set(style, formatter);
+  }
+
+  public static create(style: CitationStyle): CitationFormatter {
+    const Formatter = this.formatters.get(style);
+    if (!Formatter) {
+      throw new Error(`Unknown citation style: ${style}`);
+    }
+
+    return new (Formatter as any)(style);
+  }
+
+  public static getAvailableStyles(): CitationStyle[] {
+    return Array.from(this.formatters.keys());
+  }
+}
@@ -0,0 +1,53 @@
+import { CitationFormatter, PersonName } from './CitationFormatter';
+import { SearchResult } from '../types';
+import { formatInitials } from '../utils/citations';
+
+const MONTHS = ['Jan.', 'Feb.', 'Mar.', 'Apr.', 'May', 'Jun.', 'Jul.', 'Aug.', 'Sep.', 'Oct.', 'Nov.', 'Dec.'];
+
+// Longer author lists give the first author and "et al."
+const MAX_LISTED_AUTHORS = 6;
+
+/**
+ * IEEE, e.g. "A. Vaswani and N. Shazeer, "Attention is all you need," *NeurIPS*, 2017, doi: 10...."
+ */
+export class IEEEFormatter extends CitationFormatter {
+  protected formatWork(source: SearchResult): string {
+    const authors = this.formatAuthors(this.getAuthors(source));
+    const details = this.join([
+      source.venue && `*${source.venue}*`,
+      source.year && String(source.year),
+      source.doi && `doi: ${source.doi}`
+    ], ', ');
+
+    const reference = this.join([
+      authors && `${authors},`,
+      this.quote(this.getTitle(source), details ? ',' : '.'),
+      details && `${details}.`
+    ]);
+    return source.doi ? reference : `${reference} [Online]. Available: ${source.url}`;
+  }
+
+  protected formatPage(source: SearchResult): string {
+    const { year, month, day } = this.getDate(source);
+    const date = month ? this.join([MONTHS[month - 1], day && `${day},`, year]) : year && String(year);
+    const details = this.join([this.getSite(source), date], ', ');
+
+    return this.join([
+      source.author && `${source.author.replace(/\.$/, '')},`,
+      this.quote(this.getTitle(source), details ? ',' : '.'),
+      details && `${details}.`,
+      `[Online]. Available: ${source.url}`
+    ]);
+  }
+
+  /**
+   * Initials before family names: "A. Vaswani, N. Shazeer, and N. Parmar"
+   */
+  private formatAuthors(authors: PersonName[]): string {
+    const names = authors.map(author => this.join([formatInitials(author.given), author.family]));
+    if (names.length > MAX_LISTED_AUTHORS) {
+      return `${names[0]} et al.`;
+    }
+    return this.joinNames(names);
+  }
+}
@@ -0,0 +1,50 @@
+import { CitationFormatter, PersonName } from './CitationFormatter';
+import { SearchResult } from '../types';
+
+const MONTHS = ['Jan.', 'Feb.', 'Mar.', 'Apr.', 'May', 'June', 'July', 'Aug.', 'Sept.', 'Oct.', 'Nov.', 'Dec.'];
+
+/**
+ * MLA 9th edition, e.g. "Vaswani, Ashish, et al. "Attention Is All You Need." *NeurIPS*, 2017, https://doi.org/..."
+ */
+export class MLAFormatter extends CitationFormatter {
+  protected formatWork(source: SearchResult): string {
+    const authors = this.formatAuthors(this.getAuthors(source));
+    const container = this.join([
+      source.venue && `*${source.venue}*`,
+      source.year && String(source.year),
+      this.getLink(source)
+    ], ', ');
+
+    return this.join([authors && `${authors}.`, this.quote(this.getTitle(source), '.'), `${container}.`]);
+  }
+
+  protected formatPage(source: SearchResult): string {
+    const { year, month, day } = this.getDate(source);
+    const site = this.getSite(source);
+    const container = this.join([
+      site && `*${site}*`,
+      year && this.join([day, month && MONTHS[month - 1], year]),
+      source.url
+    ], ', ');
+
+    return this.join([
+      source.author && `${source.author.replace(/\.$/, '')}.`,
+      this.quote(this.getTitle(source), '.'),
+      `${container}.`
+    ]);
+  }
+
+  /**
+   * "Family, Given", "Family, Given, and Given Family" or "Family, Given, et al."
+   */
+  private formatAuthors(authors: PersonName[]): string {
+    if (authors.length === 0) return '';
+
+    const first = this.join([authors[0].family, authors[0].given.join(' ')], ', ');
+    if (authors.length === 1) return first;
+    if (authors.length > 2) return `${first}, et al`;
+
+    const second = this.join([...authors[1].given, authors[1].family]);
+    return `${first}, and ${second}`;
+  }
+}
@@ -0,0 +1,145 @@
+import { BibliographyFormat, SearchResult } from '../types';
+import { getCitationDate } from './CitationFormatter';
+import { isScholarlySource, parseAuthorName } from '../utils/citations';
+
+// A bibliography item in Citation Style Language JSON, as read by Zotero, Pandoc and citeproc
+export interface CSLItem {
+  id: string;
+  type: 'article-journal' | 'article' | 'webpage' | 'document';
+  title: string;
+  author?: Array<{ family: string; given?: string } | { literal: string }>;
+  issued?: { 'date-parts': number[][] };
+  'container-title'?: string;
+  DOI?: string;
+  URL?: string;
+  note?: string;
+}
+
+/**
+ * Export sources as a BibTeX or CSL-JSON bibliography
+ */
+export function exportBibliography(sources: SearchResult[], format: BibliographyFormat): string {
+  switch (format) {
+    case 'bibtex':
+      return toBibTeX(sources);
+    case 'csl-json':
+      return JSON.stringify(toCSLJSON(sources), null, 2);
+    default:
+      throw new Error(`Unknown bibliography format: ${format}`);
+  }
+}
+
+/**
+ * Format sources as BibTeX entries: articles for papers with a venue, misc otherwise
+ */
+export function toBibTeX(sources: SearchResult[]): string {
+  const keys = createKeys(sources);
+
+  return sources.map((source, index) => {
+    const authors = isScholarlySource(source)
+      ? (source.authors || []).map(name => {
+          const { family, given } = parseAuthorName(name);
+          return given.length > 0 ? `${family}, ${given.join(' ')}` : family;
+        })
+      // Names of web authors may be organizations, which BibTeX keeps whole in braces
+      : source.author ? [`{${source.author}}`] : [];
+    const { year, month } = getCitationDate(source);
+
+    const fields: Array<[string, string | number | undefined]> = [
+      ['author', authors.length > 0 ? authors.map(escapeBibTeX).join(' and ') : undefined],
+      ['title', `{${escapeBibTeX(source.title)}}`],
+      ['journal', source.venue && isScholarlySource(source) ? escapeBibTeX(source.venue) : undefined],
+      ['year', year],
+      ['month', month],
+      ['doi', source.doi],
+      ['url', source.url],
+      ['note', source.sourceType === 'local' ? 'Internal document' : undefined]
+    ];
+    const type = source.venue && isScholarlySource(source) ? 'article' : 'misc';
+
+    const body = fields
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([name, value]) => `  ${name} = {${value}}`)
+      .join(',\n');
+    return `@${type}{${keys[index]},\n${body}\n}`;
+  }).join('\n\n');
+}
+
+/**
+ * Format sources as CSL-JSON items
+ */
+export function toCSLJSON(sources: SearchResult[]): CSLItem[] {
+  const keys = createKeys(sources);
+
+  return sources.map((source, index) => {
+    const scholarly = isScholarlySource(source);
+    const { year, month, day } = getCitationDate(source);
+
+    const item: CSLItem = {
+      id: keys[index],
+      type: scholarly
+        ? (source.venue ? 'article-journal' : 'article')
+        : source.sourceType === 'local' ? 'document' : 'webpage',
+      title: source.title
+    };
+
+    if (scholarly && source.authors?.length) {
+      item.author = source.authors.map(name => {
+        const { family, given } = parseAuthorName(name);
+        return given.length > 0 ? { family, given: given.join(' ') } : { family };
+      });
+    } else if (source.author) {
+      item.author = [{ literal: source.author }];
+    }
+    if (year) {
+      item.issued = { 'date-parts': [[year, month, day].filter((part): part is number => part !== undefined)] };
+    }
+    if (source.venue) item['container-title'] = source.venue;
+    if (source.doi) item.DOI = source.doi;
+    if (source.url) item.URL = source.url;
+    if (source.sourceType === 'local') item.note = 'Internal document';
+
+    return item;
+  });
+}
+
+/**
+ * Citation keys such as "vaswani2017attention", made unique with a letter suffix
+ */
+function createKeys(sources: SearchResult[]): string[] {
+  const used: Map<string, number> = new Map();
+
+  return sources.map(source => {
+    const author = source.authors?.[0] ? parseAuthorName(source.authors[0]).family : source.author;
+    const word = source.title.toLowerCase().split(/\s+/).find(part => part.replace(/[^a-z0-9]/g, '').length > 3);
+    const base = [
+      slugify(author || hostname(source.url) || 'source'),
+      getCitationDate(source).year || '',
+      slugify(word || '')
+    ].join('') || 'source';
+
+    const count = used.get(base) || 0;
+    used.set(base, count + 1);
+    return count === 0 ? base : `${base}${String.fromCharCode(97 + ((count - 1) % 26))}`;
+  });
+}
+
+function slugify(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+function hostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '').split('.')[0];
+  } catch (error) {
+    return '';
+  }
+}
+
+function escapeBibTeX(text: string): string {
+  return text.replace(/([&%$#_])/g, '\\$1');
+}
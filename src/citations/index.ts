@@ -0,0 +1,21 @@
+// Export all citation formatters
+export { CitationFormatter, CitationFormatterFactory, CitationDate, PersonName } from './CitationFormatter';
+export { APAFormatter } from './APAFormatter';
+export { MLAFormatter } from './MLAFormatter';
+export { ChicagoFormatter } from './ChicagoFormatter';
+export { IEEEFormatter } from './IEEEFormatter';
+export { exportBibliography, toBibTeX, toCSLJSON, CSLItem } from './bibliography';
+
+// Register formatters with factory
+import { CitationFormatterFactory } from './CitationFormatter';
+import { APAFormatter } from './APAFormatter';
+import { MLAFormatter } from './MLAFormatter';
+import { ChicagoFormatter } from './ChicagoFormatter';
+import { IEEEFormatter } from './IEEEFormatter';
+import { CitationStyle } from '../types';
+
+// Register a formatter for every citation style
+CitationFormatterFactory.register(CitationStyle.APA, APAFormatter);
+CitationFormatterFactory.register(CitationStyle.MLA, MLAFormatter);
+CitationFormatterFactory.register(CitationStyle.Chicago, ChicagoFormatter);
+CitationFormatterFactory.register(CitationStyle.IEEE, IEEEFormatter);
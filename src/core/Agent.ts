@@ -1,44 +1,86 @@
 import { EventEmitter } from 'events';
-import { Config, ConfigOptions } from './Config';
+import { Config, ConfigOptions, PROVIDER_DEFAULT_MODELS } from './Config';
 import { Memory } from './Memory';
 import { LLMProvider, LLMProviderFactory } from '../providers/LLMProvider';
+import { LLMRouter, LLM_ROLES } from '../providers/LLMRouter';
+import { FallbackLLMProvider, CircuitBreaker } from '../providers/FallbackLLMProvider';
 import { OpenAIProvider } from '../providers/openai/OpenAIProvider';
+import {
+  OpenAICompatibleProvider,
+  OPENAI_COMPATIBLE_PRESETS
+} from '../providers/openai/OpenAICompatibleProvider';
+import { AnthropicProvider } from '../providers/anthropic/AnthropicProvider';
+import { OllamaProvider } from '../providers/ollama/OllamaProvider';
+import { GoogleProvider } from '../providers/google/GoogleProvider';
+import { GroqProvider } from '../providers/groq/GroqProvider';
+import { CohereProvider } from '../providers/cohere/CohereProvider';
 import { 
   ResearchConfig, 
   ResearchResult, 
   ResearchContext,
+  ReportDocument,
+  ClaimVerification,
+  ExportedReport,
   SearchResult,
   StreamUpdate,
-  ReportType
+  ReportType,
+  ReportSource,
+  LLMRole
 } from '../types';
 import {
   ResearchConductor,
   ReportGenerator,
+  ClaimVerifier,
   ContextManager,
+  ContextSource,
   BrowserManager,
-  SourceCurator
+  SourceCurator,
+  ToolAgent,
+  ToolAgentResult
 } from '../skills';
+import { MCPClient } from '../mcp/MCPClient';
+import { DocumentLoader } from '../loaders';
 import { ConsoleOutput } from '../utils/logger';
 import { CostTracker } from '../utils/cost';
 import { ProgressTracker } from '../utils/stream';
 
 // Register providers
 LLMProviderFactory.register('openai', OpenAIProvider);
+LLMProviderFactory.register('anthropic', AnthropicProvider);
+LLMProviderFactory.register('ollama', OllamaProvider);
+LLMProviderFactory.register('google', GoogleProvider);
+LLMProviderFactory.register('groq', GroqProvider);
+LLMProviderFactory.register('cohere', CohereProvider);
+for (const preset of Object.keys(OPENAI_COMPATIBLE_PRESETS)) {
+  LLMProviderFactory.register(preset, OpenAICompatibleProvider.withPreset(preset));
+}
+
+// Sources gathered for a research run: results for citation, pages for building context
+interface ResearchSources {
+  results: SearchResult[];
+  pages: ContextSource[];
+}
 
 export class GPTResearch extends EventEmitter {
   private config: Config;
   private memory: Memory;
-  private llmProvider: LLMProvider;
+  private llmProviders: Map<string, LLMProvider> = new Map();
+  private llmRouter: LLMRouter;
+  private circuitBreaker: CircuitBreaker = new CircuitBreaker();
   private researchConductor: ResearchConductor;
   private reportGenerator: ReportGenerator;
+  private claimVerifier: ClaimVerifier;
   private contextManager: ContextManager;
   private browserManager: BrowserManager;
   private sourceCurator: SourceCurator;
+  private toolAgent: ToolAgent;
+  private documentLoader: DocumentLoader;
   private costTracker: CostTracker;
   private progressTracker: ProgressTracker;
   // Logger is ConsoleOutput (static class)
   private startTime: Date;
   private totalCost: number = 0;
+  private costsByProvider: Record<string, number> = {};
   private tokensUsed: number = 0;
   
   constructor(config: ResearchConfig) {
@@ -48,25 +90,23 @@ export class GPTResearch extends EventEmitter {
     this.memory = new Memory();
     this.startTime = new Date();
     
-    // Initialize LLM provider
-    const providerName = this.config.get('llmProvider') || 'openai';
-    const apiKey = this.config.getApiKey(providerName);
-    
-    if (!apiKey) {
-      throw new Error(`API key not found for provider: ${providerName}`);
+    // Initialize LLM providers, sharing one instance between roles served by the same provider
+    const roles = {} as Record<LLMRole, LLMProvider>;
+    for (const role of LLM_ROLES) {
+      roles[role] = this.createRoleProvider(role);
     }
-    
-    this.llmProvider = LLMProviderFactory.create(providerName, {
-      apiKey,
-      baseURL: this.config.get('baseURL' as any)
-    });
+    this.llmRouter = new LLMRouter(roles);
     
     // Initialize skills
     this.researchConductor = new ResearchConductor(this.config, this.memory);
     this.reportGenerator = new ReportGenerator(this.config, this.memory);
+    this.claimVerifier = new ClaimVerifier(this.config, this.memory);
     this.contextManager = new ContextManager(this.config, this.memory);
     this.browserManager = new BrowserManager(this.config, this.memory);
     this.sourceCurator = new SourceCurator(this.config, this.memory);
+    this.toolAgent = new ToolAgent(this.config, this.memory);
+    this.toolAgent.registerResearchTools(this.researchConductor, this.browserManager);
+    this.documentLoader = new DocumentLoader();
     
     // Initialize utilities
     this.costTracker = new CostTracker();
@@ -101,53 +141,23 @@ export class GPTResearch extends EventEmitter {
       this.emitProgress('Planning research outline', 10);
       const researchQuestions = await this.researchConductor.planResearchOutline(
         query,
-        this.llmProvider
+        this.llmRouter
       );
       ConsoleOutput.info(`📋 Generated ${researchQuestions.length} research questions`);
       
-      // Step 2: Search for information
-      this.progressTracker.update(20, 'Searching for information...');
-      this.emitProgress('Searching for information', 20);
-      const searchResults = await this.researchConductor.searchInformation(
+      // Steps 2-4: Gather sources from local documents, the web or both
+      const { results: curatedResults, pages: sources } = await this.gatherSources(
+        query,
         researchQuestions
       );
-      ConsoleOutput.info(`🔎 Found ${searchResults.length} search results`);
-      
-      // Step 3: Curate and validate sources
-      this.progressTracker.update(30, 'Validating sources...');
-      this.emitProgress('Validating sources', 30);
-      const curatedResults = await this.sourceCurator.curateSearchResults(
-        searchResults,
-        {
-          minCredibilityScore: 30,
-          requireHttps: false,
-          maxAge: 365 // 1 year
-        }
-      );
-      ConsoleOutput.info(`✅ Validated ${curatedResults.length} credible sources`);
-      
-      // Step 4: Scrape relevant pages
-      this.progressTracker.update(40, 'Scraping web content...');
-      this.emitProgress('Processing sources', 40);
-      const scrapedResults = await this.browserManager.scrapeSearchResults(
-        curatedResults.slice(0, 10), // Limit to top 10 for performance
-        {
-          maxConcurrency: 3,
-          useReadability: true
-        }
-      );
-      ConsoleOutput.info(`🌐 Scraped ${scrapedResults.filter(r => !r.error).length} pages`);
       
       // Step 5: Build context
       this.progressTracker.update(60, 'Building context...');
       this.emitProgress('Building research context', 60);
-      const sources = scrapedResults
-        .filter(r => !r.error)
-        .map(r => ({ url: r.url, content: r.content }));
-      
       const contextData = await this.contextManager.buildContext(
         sources,
-        this.llmProvider
+        this.llmRouter,
+        researchQuestions
       );
       ConsoleOutput.info(`📚 Built context from ${contextData.length} sources`);
       
@@ -165,13 +175,18 @@ export class GPTResearch extends EventEmitter {
       this.emitProgress('Writing report', 80);
       const report = await this.reportGenerator.generateReport(
         researchContext,
-        this.llmProvider
+        this.llmRouter
       );
       ConsoleOutput.success(`📄 Report generated successfully!`);
       
-      // Step 8: Add references
+      // Step 8: Structure the report and add references
       this.emitProgress('Adding references', 90);
-      const finalReport = this.addReferences(report, curatedResults);
+      const { document, verification } = await this.verifyClaims(
+        this.reportGenerator.createDocument(report, researchContext),
+        researchContext
+      );
+      const finalReport = this.reportGenerator.renderMarkdown(document);
+      const exported = await this.exportReport(document);
       
       // Step 9: Complete
       const duration = Date.now() - startTime;
@@ -182,11 +197,18 @@ export class GPTResearch extends EventEmitter {
         report: finalReport,
         sources: curatedResults,
         subtopics: researchQuestions,
-        context: contextData,
+        context: contextData.map(finding => finding.content),
+        findings: contextData,
+        document,
+        verification,
+        exported,
         costs: {
           total: this.totalCost,
           breakdown: {
-            llm: this.totalCost
+            llm: this.totalCost,
+            ...Object.fromEntries(
+              Object.entries(this.costsByProvider).map(([name, cost]) => [`llm:${name}`, cost])
+            )
           }
         },
         metadata: {
@@ -224,7 +246,7 @@ export class GPTResearch extends EventEmitter {
       context = {
         query: this.config.get('query'),
         reportType: this.config.get('reportType'),
-        findings: this.memory.getContext(),
+        findings: this.memory.getFindings(),
         sources: this.memory.getSearchResults(),
         subtopics: this.memory.getSubtopics()
       };
@@ -235,7 +257,7 @@ export class GPTResearch extends EventEmitter {
       
       const report = await this.reportGenerator.generateReport(
         context,
-        this.llmProvider
+        this.llmRouter
       );
       
       this.emit('report_complete', { report });
@@ -275,7 +297,7 @@ export class GPTResearch extends EventEmitter {
       
       const researchQuestions = await this.researchConductor.planResearchOutline(
         query,
-        this.llmProvider
+        this.llmRouter
       );
       
       yield {
@@ -283,52 +305,101 @@ export class GPTResearch extends EventEmitter {
         data: { subtopics: researchQuestions }
       };
       
-      // Step 2: Search
-      yield {
-        type: 'progress',
-        message: 'Searching for information',
-        progress: 20
-      };
-      
-      const searchResults = await this.researchConductor.searchInformation(
-        researchQuestions
-      );
+      // Steps 2-4: Gather sources from local documents, the web or both
+      const gathered: ResearchSources = { results: [], pages: [] };
       
-      yield {
-        type: 'data',
-        data: { sources: searchResults.length }
-      };
+      if (this.usesLocalDocuments()) {
+        yield {
+          type: 'progress',
+          message: 'Loading local documents',
+          progress: 20
+        };
+        
+        const localSources = await this.gatherLocalSources();
+        this.mergeSources(gathered, localSources);
+        
+        yield {
+          type: 'data',
+          data: { documents: localSources.results.length }
+        };
+      }
       
-      // Step 3: Validate sources
-      yield {
-        type: 'progress',
-        message: 'Validating sources',
-        progress: 30
-      };
+      if (this.getSourceUrls().length > 0) {
+        yield {
+          type: 'progress',
+          message: 'Reading source URLs',
+          progress: 20
+        };
+        
+        const urlSources = await this.gatherSourceUrls();
+        this.mergeSources(gathered, urlSources);
+        
+        yield {
+          type: 'data',
+          data: { sources: urlSources.results.length }
+        };
+      }
       
-      const curatedResults = await this.sourceCurator.curateSearchResults(
-        searchResults,
-        {
-          minCredibilityScore: 30,
-          requireHttps: false,
-          maxAge: 365
+      if (this.usesWebSearch()) {
+        // Step 2: Search
+        yield {
+          type: 'progress',
+          message: 'Searching for information',
+          progress: 20
+        };
+        
+        const searchResults = await this.researchConductor.searchInformation(
+          researchQuestions
+        );
+        
+        const toolResearch = await this.runToolAgent(query);
+        if (toolResearch) {
+          this.mergeSearchResults(searchResults, toolResearch.searchResults);
         }
-      );
-      
-      // Step 4: Scrape
-      yield {
-        type: 'progress',
-        message: 'Processing sources',
-        progress: 40
-      };
+        
+        yield {
+          type: 'data',
+          data: { sources: searchResults.length }
+        };
+        
+        // Step 3: Validate sources
+        yield {
+          type: 'progress',
+          message: 'Validating sources',
+          progress: 30
+        };
+        
+        const webResults = await this.sourceCurator.curateSearchResults(
+          searchResults,
+          {
+            minCredibilityScore: 30,
+            requireHttps: false,
+            maxAge: 365
+          }
+        );
+        
+        // Step 4: Scrape
+        yield {
+          type: 'progress',
+          message: 'Processing sources',
+          progress: 40
+        };
+        
+        const scrapedResults = await this.browserManager.scrapeSearchResults(
+          webResults.slice(0, 10),
+          {
+            maxConcurrency: 3,
+            useReadability: true
+          }
+        );
+        
+        this.mergeSources(gathered, {
+          results: webResults,
+          pages: this.collectSources(scrapedResults, toolResearch)
+        });
+      }
       
-      const scrapedResults = await this.browserManager.scrapeSearchResults(
-        curatedResults.slice(0, 10),
-        {
-          maxConcurrency: 3,
-          useReadability: true
-        }
-      );
+      const { results: curatedResults, pages: sources } = gathered;
       
       // Step 5: Build context
       yield {
@@ -337,13 +408,10 @@ export class GPTResearch extends EventEmitter {
         progress: 60
       };
       
-      const sources = scrapedResults
-        .filter(r => !r.error)
-        .map(r => ({ url: r.url, content: r.content }));
-      
       const contextData = await this.contextManager.buildContext(
         sources,
-        this.llmProvider
+        this.llmRouter,
+        researchQuestions
       );
       
       // Step 6: Generate report with streaming
@@ -365,7 +433,7 @@ export class GPTResearch extends EventEmitter {
       let fullReport = '';
       for await (const chunk of this.reportGenerator.generateReportStream(
         researchContext,
-        this.llmProvider
+        this.llmRouter
       )) {
         fullReport += chunk;
         yield {
@@ -381,12 +449,17 @@ export class GPTResearch extends EventEmitter {
         progress: 90
       };
       
-      const finalReport = this.addReferences(fullReport, curatedResults);
+      const { document, verification } = await this.verifyClaims(
+        this.reportGenerator.createDocument(fullReport, researchContext),
+        researchContext
+      );
+      const finalReport = this.reportGenerator.renderMarkdown(document);
+      const exported = await this.exportReport(document);
       
       // Complete
       yield {
         type: 'complete',
-        data: { report: finalReport }
+        data: { report: finalReport, document, verification, exported }
       };
       
     } catch (error: any) {
@@ -400,24 +473,264 @@ export class GPTResearch extends EventEmitter {
     }
   }
   
+  /**
+   * Make the tools of connected MCP servers available to the tool-calling agent
+   */
+  async addMCPTools(client: MCPClient): Promise<number> {
+    return this.toolAgent.registerMCPTools(client);
+  }
+  
   // Private helper methods
   
-  private addReferences(report: string, sources: SearchResult[]): string {
-    if (sources.length === 0) {
-      return report;
+  /**
+   * Gather sources for the configured report source: local documents, the
+   * given source URLs and web search results, or a combination of them
+   */
+  private async gatherSources(
+    query: string,
+    researchQuestions: string[]
+  ): Promise<ResearchSources> {
+    const gathered: ResearchSources = { results: [], pages: [] };
+    
+    if (this.usesLocalDocuments()) {
+      this.mergeSources(gathered, await this.gatherLocalSources());
+    }
+    if (this.getSourceUrls().length > 0) {
+      this.mergeSources(gathered, await this.gatherSourceUrls());
+    }
+    if (this.usesWebSearch()) {
+      this.mergeSources(gathered, await this.gatherWebSources(query, researchQuestions));
     }
     
-    // Check if references already exist
-    if (report.toLowerCase().includes('## references')) {
-      return report;
+    return gathered;
+  }
+  
+  /**
+   * Scrape exactly the URLs given in sourceUrls
+   */
+  private async gatherSourceUrls(): Promise<ResearchSources> {
+    this.progressTracker.update(20, 'Reading source URLs...');
+    this.emitProgress('Reading source URLs', 20);
+    
+    const sourceUrls = this.getSourceUrls();
+    const pages = (await this.browserManager.scrapeUrls(sourceUrls, {
+      maxConcurrency: 3,
+      useReadability: true
+    })).filter(page => !page.error && page.content);
+    if (pages.length === 0) {
+      throw new Error(`None of the source URLs could be scraped: ${sourceUrls.join(', ')}`);
+    }
+    ConsoleOutput.info(`🔗 Scraped ${pages.length} of ${sourceUrls.length} source URLs`);
+    
+    pages.forEach(page => this.memory.addScrapedContent(page.url, page.content));
+    
+    return {
+      results: pages.map(page => ({
+        url: page.url,
+        title: page.title,
+        content: page.content.slice(0, 500)
+      })),
+      pages: this.collectSources(pages)
+    };
+  }
+  
+  /**
+   * Search the web, validate the results and scrape the most relevant pages
+   */
+  private async gatherWebSources(
+    query: string,
+    researchQuestions: string[]
+  ): Promise<ResearchSources> {
+    // Step 2: Search for information
+    this.progressTracker.update(20, 'Searching for information...');
+    this.emitProgress('Searching for information', 20);
+    const searchResults = await this.researchConductor.searchInformation(
+      researchQuestions
+    );
+    ConsoleOutput.info(`🔎 Found ${searchResults.length} search results`);
+    
+    // Let the model run its own searches and read pages when tool calling is enabled
+    const toolResearch = await this.runToolAgent(query);
+    if (toolResearch) {
+      this.mergeSearchResults(searchResults, toolResearch.searchResults);
+      ConsoleOutput.info(`🛠️ Tool agent made ${toolResearch.steps.length} tool calls`);
+    }
+    
+    // Step 3: Curate and validate sources
+    this.progressTracker.update(30, 'Validating sources...');
+    this.emitProgress('Validating sources', 30);
+    const curatedResults = await this.sourceCurator.curateSearchResults(
+      searchResults,
+      {
+        minCredibilityScore: 30,
+        requireHttps: false,
+        maxAge: 365 // 1 year
+      }
+    );
+    ConsoleOutput.info(`✅ Validated ${curatedResults.length} credible sources`);
+    
+    // Step 4: Scrape relevant pages
+    this.progressTracker.update(40, 'Scraping web content...');
+    this.emitProgress('Processing sources', 40);
+    const scrapedResults = await this.browserManager.scrapeSearchResults(
+      curatedResults.slice(0, 10), // Limit to top 10 for performance
+      {
+        maxConcurrency: 3,
+        useReadability: true
+      }
+    );
+    ConsoleOutput.info(`🌐 Scraped ${scrapedResults.filter(r => !r.error).length} pages`);
+    
+    return {
+      results: curatedResults,
+      pages: this.collectSources(scrapedResults, toolResearch)
+    };
+  }
+  
+  /**
+   * Load the documents configured for local research
+   */
+  private async gatherLocalSources(): Promise<ResearchSources> {
+    this.progressTracker.update(20, 'Loading local documents...');
+    this.emitProgress('Loading local documents', 20);
+    
+    const documentSources = this.getDocumentSources();
+    const documents = await this.documentLoader.load(documentSources);
+    if (documents.length === 0) {
+      throw new Error(`No documents could be loaded from: ${documentSources.join(', ')}`);
+    }
+    ConsoleOutput.info(`📁 Loaded ${documents.length} local documents`);
+    
+    return {
+      results: documents.map(document => ({
+        url: document.source,
+        title: document.title,
+        content: document.content.slice(0, 500),
+        sourceType: 'local' as const
+      })),
+      pages: documents.map(document => ({
+        url: document.source,
+        title: document.title,
+        content: document.content,
+        sourceType: 'local' as const
+      }))
+    };
+  }
+  
+  private usesLocalDocuments(): boolean {
+    const reportSource = this.config.get('reportSource');
+    return reportSource === ReportSource.Local || reportSource === ReportSource.Hybrid;
+  }
+  
+  private usesWebResearch(): boolean {
+    return this.config.get('reportSource') !== ReportSource.Local;
+  }
+  
+  /**
+   * Search the web unless research is restricted to the given source URLs
+   */
+  private usesWebSearch(): boolean {
+    return this.usesWebResearch() &&
+      (this.getSourceUrls().length === 0 || !!this.config.get('complementSourceUrls'));
+  }
+  
+  private getSourceUrls(): string[] {
+    return this.usesWebResearch() ? this.config.get('sourceUrls') || [] : [];
+  }
+  
+  /**
+   * Files, directories and URLs to load documents from, defaulting to the document folder
+   */
+  private getDocumentSources(): string[] {
+    const documentUrls: string[] = this.config.get('documentUrls') || [];
+    return documentUrls.length > 0 ? documentUrls : [this.config.get('docPath') || './my-docs'];
+  }
+  
+  /**
+   * Run the tool-calling agent if it is enabled and the smart model can call tools
+   */
+  private async runToolAgent(query: string): Promise<ToolAgentResult | undefined> {
+    if (!this.config.get('enableToolCalling')) {
+      return undefined;
+    }
+    
+    if (!this.llmRouter.forRole('smart').supportsToolCalling()) {
+      ConsoleOutput.warning(`Tool calling is not supported by ${this.config.getProviderForRole('smart')}, skipping tool agent`);
+      return undefined;
+    }
+    
+    try {
+      return await this.toolAgent.run(query, this.llmRouter, {
+        maxSteps: this.config.get('maxToolSteps')
+      });
+    } catch (error: any) {
+      // Tool research supplements the standard pipeline, so carry on without it
+      this.emit('tool_agent_error', { error });
+      ConsoleOutput.warning(`Tool agent failed: ${error.message}`);
+      return undefined;
+    }
+  }
+  
+  private mergeSearchResults(results: SearchResult[], additional: SearchResult[]): void {
+    const seen = new Set(results.map(result => result.url));
+    for (const result of additional) {
+      if (!seen.has(result.url)) {
+        seen.add(result.url);
+        results.push(result);
+      }
+    }
+  }
+  
+  private mergeSources(target: ResearchSources, sources: ResearchSources): void {
+    this.mergeSearchResults(target.results, sources.results);
+    const seen = new Set(target.pages.map(page => page.url));
+    target.pages.push(...sources.pages.filter(page => !seen.has(page.url)));
+  }
+  
+  private collectSources(
+    scrapedResults: { url: string; content: string; error?: string }[],
+    toolResearch?: ToolAgentResult
+  ): ContextSource[] {
+    const sources = new Map<string, string>();
+    for (const page of [...scrapedResults, ...(toolResearch?.scrapedPages || [])]) {
+      if (!page.error && !sources.has(page.url)) {
+        sources.set(page.url, page.content);
+      }
+    }
+    return Array.from(sources, ([url, content]) => ({ url, content, sourceType: 'web' as const }));
+  }
+  
+  /**
+   * Check the report's claims against the findings when verifyClaims is set
+   */
+  private async verifyClaims(
+    document: ReportDocument,
+    context: ResearchContext
+  ): Promise<{ document: ReportDocument; verification?: ClaimVerification[] }> {
+    if (!this.config.get('verifyClaims')) {
+      return { document };
     }
     
-    const references = sources
-      .slice(0, 20) // Limit to 20 references
-      .map((source, index) => `${index + 1}. [${source.title}](${source.url})`)
-      .join('\n');
+    this.emitProgress('Verifying claims', 92);
+    const result = await this.claimVerifier.verifyReport(document, context, this.llmRouter);
+    
+    const failed = result.claims.filter(claim => claim.verdict !== 'supported').length;
+    ConsoleOutput.info(`🔎 Verified ${result.claims.length} claims, ${failed} not supported by the sources`);
     
-    return `${report}\n\n## References\n\n${references}`;
+    return { document: result.document, verification: result.claims };
+  }
+  
+  /**
+   * Export the report in the configured format. A failed export is reported
+   * without failing the research, whose markdown report is still returned
+   */
+  private async exportReport(document: ReportDocument): Promise<ExportedReport | undefined> {
+    try {
+      return await this.reportGenerator.exportReport(document);
+    } catch (error: any) {
+      ConsoleOutput.warning(`Report export failed: ${error.message}`);
+      return undefined;
+    }
   }
   
   private emitProgress(message: string, progress: number): void {
@@ -435,26 +748,79 @@ export class GPTResearch extends EventEmitter {
   }
   
   /**
-   * Setup event handlers for LLM provider
+   * Create the provider for a role, wrapped in a fallback chain when fallback providers are configured
    */
-  private setupEventHandlers(): void {
-    // Listen to provider events
-    this.llmProvider.on('usage', (usage) => {
-      this.tokensUsed += usage.totalTokens || 0;
-      const cost = this.llmProvider.estimateCost(
-        ' '.repeat(usage.inputTokens * 4),
-        ' '.repeat(usage.outputTokens * 4),
-        usage.model
-      );
-      this.totalCost += cost.totalCost;
-      this.costTracker.addCost(cost.totalCost);
+  private createRoleProvider(role: LLMRole): LLMProvider {
+    const providerName = this.config.getProviderForRole(role);
+    const chain = [providerName, ...(this.config.get('fallbackLLMProviders') || [])]
+      .filter((name, index, names) => names.indexOf(name) === index);
+    
+    for (const name of chain) {
+      if (!this.llmProviders.has(name)) {
+        this.llmProviders.set(name, this.createProvider(name));
+      }
+    }
+    
+    if (chain.length === 1) {
+      return this.llmProviders.get(providerName)!;
+    }
+    
+    // Roles share one circuit breaker, so an outage seen by one role is skipped by the others
+    return new FallbackLLMProvider({
+      circuitBreaker: this.circuitBreaker,
+      providers: chain.map(name => ({
+        name,
+        provider: this.llmProviders.get(name)!,
+        // Fallbacks cannot serve the primary provider's model, so use their default for the role
+        model: name === providerName ? undefined : PROVIDER_DEFAULT_MODELS[name]?.[`${role}LLMModel`]
+      }))
     });
+  }
+  
+  private createProvider(providerName: string): LLMProvider {
+    const apiKey = this.config.getApiKey(providerName);
     
-    this.llmProvider.on('error', (error) => {
-      this.emit('error', error);
+    if (!apiKey && this.config.requiresApiKey(providerName)) {
+      throw new Error(`API key not found for provider: ${providerName}`);
+    }
+    
+    // An explicit baseURL targets the main provider, not providers pinned to a single role
+    const isMainProvider = providerName === (this.config.get('llmProvider') || 'openai');
+    
+    return LLMProviderFactory.create(providerName, {
+      apiKey,
+      baseURL: (isMainProvider && this.config.get('baseURL')) || this.config.getBaseUrl(providerName)
     });
   }
   
+  /**
+   * Setup event handlers for LLM providers
+   */
+  private setupEventHandlers(): void {
+    // Listen to provider events, pricing usage with the provider that incurred it
+    for (const [providerName, provider] of this.llmProviders) {
+      provider.on('usage', (usage) => {
+        this.tokensUsed += usage.totalTokens || 0;
+        const cost = provider.calculateCost(usage.inputTokens, usage.outputTokens, usage.model);
+        this.totalCost += cost.totalCost;
+        this.costsByProvider[providerName] = (this.costsByProvider[providerName] || 0) + cost.totalCost;
+        this.costTracker.addCost(cost.totalCost);
+      });
+    }
+    
+    // Errors and failovers surface once per role provider, after any fallback chain has run
+    const roleProviders = new Set(LLM_ROLES.map(role => this.llmRouter.forRole(role)));
+    for (const provider of roleProviders) {
+      provider.on('error', (error) => {
+        this.emit('error', error);
+      });
+      
+      if (provider instanceof FallbackLLMProvider) {
+        provider.on('failover', (data) => this.emit('failover', data));
+      }
+    }
+  }
+  
   /**
    * Setup event forwarding from skills to main agent
    */
@@ -468,18 +834,28 @@ export class GPTResearch extends EventEmitter {
       this.emit('search_start', data));
     this.researchConductor.on('search_complete', (data) => 
       this.emit('search_complete', data));
+    this.researchConductor.on('cache_error', (data) => 
+      this.emit('cache_error', data));
     
     // Forward ReportGenerator events
     this.reportGenerator.on('report_generation_start', (data) => 
       this.emit('report_generation_start', data));
     this.reportGenerator.on('report_generation_complete', (data) => 
       this.emit('report_generation_complete', data));
+    this.reportGenerator.on('report_exported', (data) => 
+      this.emit('report_exported', data));
+    this.reportGenerator.on('report_export_error', (data) => 
+      this.emit('report_export_error', data));
+    this.claimVerifier.on('claim_verification_complete', (data) => 
+      this.emit('claim_verification_complete', data));
     
     // Forward BrowserManager events
     this.browserManager.on('scraping_start', (data) => 
       this.emit('scraping_start', data));
     this.browserManager.on('scraping_complete', (data) => 
       this.emit('scraping_complete', data));
+    this.browserManager.on('cache_error', (data) => 
+      this.emit('cache_error', data));
     
     // Forward SourceCurator events
     this.sourceCurator.on('curation_start', (data) => 
@@ -492,6 +868,20 @@ export class GPTResearch extends EventEmitter {
       this.emit('context_building_start', data));
     this.contextManager.on('context_building_complete', (data) => 
       this.emit('context_building_complete', data));
+    
+    // Forward DocumentLoader events
+    this.documentLoader.on('document_loaded', (data) => 
+      this.emit('document_loaded', data));
+    this.documentLoader.on('document_error', (data) => 
+      this.emit('document_error', data));
+    
+    // Forward ToolAgent events
+    this.toolAgent.on('tool_agent_start', (data) => 
+      this.emit('tool_agent_start', data));
+    this.toolAgent.on('tool_call', (data) => 
+      this.emit('tool_call', data));
+    this.toolAgent.on('tool_agent_complete', (data) => 
+      this.emit('tool_agent_complete', data));
   }
   
   // Public utility methods
@@ -1,5 +1,19 @@
 import * as dotenv from 'dotenv';
-import { ResearchConfig, ReportType, ReportFormat, ReportSource, Tone } from '../types';
+import {
+  ResearchConfig,
+  ReportType,
+  ReportFormat,
+  CitationStyle,
+  ReportSource,
+  Tone,
+  LLMRole,
+  SearchStrategy,
+  UnsupportedClaimAction,
+  CacheBackend,
+  VectorStoreBackend
+} from '../types';
+import { LLM_ROLES } from '../providers/LLMRouter';
+import { RetrieverFactory } from '../retrievers';
 import * as path from 'path';
 import * as fs from 'fs';
 
@@ -17,6 +31,15 @@ export interface ConfigOptions extends ResearchConfig {
   serpapiApiKey?: string;
   googleCx?: string;
   bingApiKey?: string;
+  braveApiKey?: string;
+  semanticScholarApiKey?: string;
+  ncbiApiKey?: string; // PubMed
+  crossrefMailto?: string;
+  
+  // Local LLM servers
+  ollamaBaseUrl?: string;
+  vllmBaseUrl?: string;
+  lmstudioBaseUrl?: string;
   
   // Vercel KV
   vercelKvUrl?: string;
@@ -34,6 +57,60 @@ export interface ConfigOptions extends ResearchConfig {
   defaultScraper?: string;
 }
 
+// Default fast/smart/strategic models for each LLM provider
+export const PROVIDER_DEFAULT_MODELS: Record<string, {
+  fastLLMModel: string;
+  smartLLMModel: string;
+  strategicLLMModel: string;
+}> = {
+  openai: {
+    fastLLMModel: 'gpt-3.5-turbo',
+    smartLLMModel: 'gpt-4-turbo',
+    strategicLLMModel: 'o1-preview'
+  },
+  anthropic: {
+    fastLLMModel: 'claude-3-haiku-20240307',
+    smartLLMModel: 'claude-3-5-sonnet-20240620',
+    strategicLLMModel: 'claude-3-opus-20240229'
+  },
+  google: {
+    fastLLMModel: 'gemini-1.5-flash',
+    smartLLMModel: 'gemini-1.5-pro',
+    strategicLLMModel: 'gemini-1.5-pro'
+  },
+  groq: {
+    fastLLMModel: 'llama-3.1-8b-instant',
+    smartLLMModel: 'llama-3.1-70b-versatile',
+    strategicLLMModel: 'llama-3.1-70b-versatile'
+  },
+  cohere: {
+    fastLLMModel: 'command-r',
+    smartLLMModel: 'command-r-plus',
+    strategicLLMModel: 'command-r-plus'
+  },
+  together: {
+    fastLLMModel: 'meta-llama/Meta-Llama-3.1-8B-Instruct-Turbo',
+    smartLLMModel: 'meta-llama/Meta-Llama-3.1-70B-Instruct-Turbo',
+    strategicLLMModel: 'meta-llama/Meta-Llama-3.1-405B-Instruct-Turbo'
+  },
+  perplexity: {
+    fastLLMModel: 'llama-3.1-sonar-small-128k-online',
+    smartLLMModel: 'llama-3.1-sonar-large-128k-online',
+    strategicLLMModel: 'llama-3.1-sonar-huge-128k-online'
+  },
+  ollama: {
+    fastLLMModel: 'llama3.1',
+    smartLLMModel: 'llama3.1',
+    strategicLLMModel: 'llama3.1'
+  }
+};
+
+// vLLM and LM Studio serve whichever model was loaded, so they have no defaults
+// and validation fails until FAST_LLM_MODEL / SMART_LLM_MODEL / STRATEGIC_LLM_MODEL are set
+
+// LLM providers that run against a local server and need no API key
+export const KEYLESS_LLM_PROVIDERS = ['ollama', 'vllm', 'lmstudio'];
+
 export class Config {
   private static instance: Config;
   private config: ConfigOptions;
@@ -52,6 +129,7 @@ export class Config {
       reportType: ReportType.ResearchReport,
       reportFormat: ReportFormat.Markdown,
       reportSource: ReportSource.Web,
+      docPath: './my-docs',
       tone: Tone.Objective,
       maxSubtopics: 5,
       maxSearchResults: 10,
@@ -64,7 +142,17 @@ export class Config {
       strategicLLMModel: 'o1-preview',
       defaultRetriever: 'tavily',
       defaultScraper: 'cheerio',
-      complementSourceUrls: false
+      searchStrategy: 'failover',
+      cacheBackend: 'none',
+      cacheTtl: 86400,
+      cacheDir: './.cache/gpt-research',
+      vectorStore: 'memory',
+      vectorStorePath: './.cache/gpt-research/vectors.db',
+      complementSourceUrls: false,
+      verifyClaims: false,
+      unsupportedClaims: 'keep',
+      enableToolCalling: false,
+      maxToolSteps: 6
     };
   }
   
@@ -86,12 +174,24 @@ export class Config {
     this.config.togetherApiKey = process.env.TOGETHER_API_KEY || this.config.togetherApiKey;
     this.config.cohereApiKey = process.env.COHERE_API_KEY || this.config.cohereApiKey;
     
+    // Local LLM servers
+    this.config.ollamaBaseUrl = process.env.OLLAMA_BASE_URL || this.config.ollamaBaseUrl;
+    this.config.vllmBaseUrl = process.env.VLLM_BASE_URL || this.config.vllmBaseUrl;
+    this.config.lmstudioBaseUrl = process.env.LMSTUDIO_BASE_URL || this.config.lmstudioBaseUrl;
+    this.config.baseURL = process.env.LLM_BASE_URL || this.config.baseURL;
+    
     // Search services
     this.config.tavilyApiKey = process.env.TAVILY_API_KEY || this.config.tavilyApiKey;
     this.config.serperApiKey = process.env.SERPER_API_KEY || this.config.serperApiKey;
     this.config.serpapiApiKey = process.env.SERPAPI_API_KEY || this.config.serpapiApiKey;
     this.config.googleCx = process.env.GOOGLE_CX || this.config.googleCx;
     this.config.bingApiKey = process.env.BING_API_KEY || this.config.bingApiKey;
+    this.config.braveApiKey = process.env.BRAVE_API_KEY || this.config.braveApiKey;
+    
+    // Scholarly search services, all usable without keys
+    this.config.semanticScholarApiKey = process.env.SEMANTIC_SCHOLAR_API_KEY || this.config.semanticScholarApiKey;
+    this.config.ncbiApiKey = process.env.NCBI_API_KEY || this.config.ncbiApiKey;
+    this.config.crossrefMailto = process.env.CROSSREF_MAILTO || this.config.crossrefMailto;
     
     // Vercel KV
     this.config.vercelKvUrl = process.env.VERCEL_KV_URL || this.config.vercelKvUrl;
@@ -109,17 +209,80 @@ export class Config {
     if (process.env.STRATEGIC_LLM_MODEL) {
       this.config.strategicLLMModel = process.env.STRATEGIC_LLM_MODEL;
     }
+    if (process.env.EMBEDDING_MODEL) {
+      this.config.embeddingModel = process.env.EMBEDDING_MODEL;
+    }
+    
+    // Per-role LLM providers
+    const roleProviders: Partial<ConfigOptions> = {
+      fastLLMProvider: process.env.FAST_LLM_PROVIDER,
+      smartLLMProvider: process.env.SMART_LLM_PROVIDER,
+      strategicLLMProvider: process.env.STRATEGIC_LLM_PROVIDER
+    };
+    for (const [key, value] of Object.entries(roleProviders)) {
+      if (value) {
+        (this.config as any)[key] = value;
+      }
+    }
+    this.applyProviderModelDefaults(roleProviders);
+    
+    if (process.env.FALLBACK_LLM_PROVIDERS) {
+      this.config.fallbackLLMProviders = process.env.FALLBACK_LLM_PROVIDERS
+        .split(',')
+        .map(name => name.trim())
+        .filter(Boolean);
+    }
+    
+    // Local documents
+    this.config.docPath = process.env.DOC_PATH || this.config.docPath;
+    if (process.env.REPORT_SOURCE) {
+      this.config.reportSource = process.env.REPORT_SOURCE as ReportSource;
+    }
+    
+    // Tool calling
+    if (process.env.ENABLE_TOOL_CALLING) {
+      this.config.enableToolCalling = process.env.ENABLE_TOOL_CALLING === 'true';
+    }
+    if (process.env.MAX_TOOL_STEPS) {
+      this.config.maxToolSteps = parseInt(process.env.MAX_TOOL_STEPS, 10);
+    }
     
     // Default settings
     if (process.env.DEFAULT_RETRIEVER) {
       this.config.defaultRetriever = process.env.DEFAULT_RETRIEVER;
     }
+    if (process.env.SEARCH_STRATEGY) {
+      this.config.searchStrategy = process.env.SEARCH_STRATEGY as SearchStrategy;
+    }
+    if (process.env.CACHE_BACKEND) {
+      this.config.cacheBackend = process.env.CACHE_BACKEND as CacheBackend;
+    }
+    if (process.env.CACHE_TTL) {
+      this.config.cacheTtl = parseInt(process.env.CACHE_TTL, 10);
+    }
+    this.config.cacheDir = process.env.CACHE_DIR || this.config.cacheDir;
+    if (process.env.VECTOR_STORE) {
+      this.config.vectorStore = process.env.VECTOR_STORE as VectorStoreBackend;
+    }
+    this.config.vectorStorePath = process.env.VECTOR_STORE_PATH || this.config.vectorStorePath;
     if (process.env.DEFAULT_SCRAPER) {
       this.config.defaultScraper = process.env.DEFAULT_SCRAPER;
     }
     if (process.env.REPORT_TYPE) {
       this.config.reportType = process.env.REPORT_TYPE as ReportType;
     }
+    if (process.env.REPORT_FORMAT) {
+      this.config.reportFormat = process.env.REPORT_FORMAT as ReportFormat;
+    }
+    if (process.env.CITATION_STYLE) {
+      this.config.citationStyle = process.env.CITATION_STYLE as CitationStyle;
+    }
+    if (process.env.VERIFY_CLAIMS) {
+      this.config.verifyClaims = process.env.VERIFY_CLAIMS === 'true';
+    }
+    if (process.env.UNSUPPORTED_CLAIMS) {
+      this.config.unsupportedClaims = process.env.UNSUPPORTED_CLAIMS as UnsupportedClaimAction;
+    }
     if (process.env.MAX_SEARCH_RESULTS) {
       this.config.maxSearchResults = parseInt(process.env.MAX_SEARCH_RESULTS, 10);
     }
@@ -136,6 +299,30 @@ export class Config {
   
   private applyOverrides(overrides: Partial<ConfigOptions>): void {
     this.config = { ...this.config, ...overrides };
+    this.applyProviderModelDefaults(overrides);
+  }
+  
+  /**
+   * Switch a role's model to its provider's default when the provider serving that
+   * role changes, unless the model was set explicitly through overrides or environment variables
+   */
+  private applyProviderModelDefaults(changes: Partial<ConfigOptions>): void {
+    for (const role of LLM_ROLES) {
+      const providerKey = `${role}LLMProvider` as const;
+      const modelKey = `${role}LLMModel` as const;
+      
+      // A role pinned to its own provider is unaffected by changes to llmProvider
+      const providerChanged = changes[providerKey] || (changes.llmProvider && !this.config[providerKey]);
+      if (!providerChanged) {
+        continue;
+      }
+      
+      const defaults = PROVIDER_DEFAULT_MODELS[this.getProviderForRole(role).toLowerCase()];
+      if (!changes[modelKey] && !process.env[`${role.toUpperCase()}_LLM_MODEL`]) {
+        // Without defaults, the previous provider's model would reach a server that cannot serve it
+        this.config[modelKey] = defaults?.[modelKey];
+      }
+    }
   }
   
   public get(key: keyof ConfigOptions): any {
@@ -166,13 +353,76 @@ export class Config {
       tavily: 'tavilyApiKey',
       serper: 'serperApiKey',
       serpapi: 'serpapiApiKey',
-      bing: 'bingApiKey'
+      bing: 'bingApiKey',
+      brave: 'braveApiKey',
+      semanticscholar: 'semanticScholarApiKey',
+      pubmed: 'ncbiApiKey'
     };
     
     const configKey = keyMap[provider.toLowerCase()];
     return configKey ? this.config[configKey] as string : undefined;
   }
   
+  /**
+   * Retrievers research may search, in order of preference
+   */
+  public getSearchRetrievers(): string[] {
+    const retrievers: string[] = [];
+    const defaultRetriever = this.config.defaultRetriever || 'tavily';
+    
+    // Academic reports search the scholarly literature first, keeping web search as a fallback
+    if (this.config.reportType === ReportType.AcademicReport) {
+      retrievers.push(...RetrieverFactory.getAvailableRetrievers('academic'));
+    }
+    
+    // Add default retriever next
+    if (!retrievers.includes(defaultRetriever)) {
+      retrievers.push(defaultRetriever);
+    }
+    
+    // Add other web retrievers that have API keys, then keyless ones such as DuckDuckGo as a last resort
+    const potentialRetrievers = RetrieverFactory.getAvailableRetrievers('web')
+      .filter(retriever => !retrievers.includes(retriever));
+    retrievers.push(
+      ...potentialRetrievers.filter(retriever => this.getApiKey(retriever)),
+      ...potentialRetrievers.filter(retriever =>
+        !this.getApiKey(retriever) && !RetrieverFactory.requiresApiKey(retriever)
+      )
+    );
+    
+    return retrievers;
+  }
+  
+  /**
+   * Whether a retriever can search: it has an API key or needs none
+   */
+  public canUseRetriever(name: string): boolean {
+    return !!this.getApiKey(name) || !RetrieverFactory.requiresApiKey(name);
+  }
+  
+  public getBaseUrl(provider: string): string | undefined {
+    const urlMap: Record<string, keyof ConfigOptions> = {
+      ollama: 'ollamaBaseUrl',
+      vllm: 'vllmBaseUrl',
+      lmstudio: 'lmstudioBaseUrl'
+    };
+    
+    const configKey = urlMap[provider.toLowerCase()];
+    return configKey ? this.config[configKey] as string : undefined;
+  }
+  
+  public getProviderForRole(role: LLMRole): string {
+    return this.config[`${role}LLMProvider`] || this.config.llmProvider || 'openai';
+  }
+  
+  public getModelForRole(role: LLMRole): string | undefined {
+    return this.config[`${role}LLMModel`];
+  }
+  
+  public requiresApiKey(provider: string): boolean {
+    return !KEYLESS_LLM_PROVIDERS.includes(provider.toLowerCase());
+  }
+  
   public static getInstance(overrides?: Partial<ConfigOptions>): Config {
     if (!Config.instance) {
       Config.instance = new Config(overrides);
@@ -185,34 +435,34 @@ export class Config {
   public validateRequired(): void {
     const errors: string[] = [];
     
-    // Check for at least one LLM provider
-    const llmProviders = [
-      'openaiApiKey',
-      'anthropicApiKey',
-      'googleApiKey',
-      'groqApiKey',
-      'perplexityApiKey',
-      'togetherApiKey',
-      'cohereApiKey'
-    ];
-    
-    const hasLLMProvider = llmProviders.some(key => this.config[key as keyof ConfigOptions]);
-    if (!hasLLMProvider) {
-      errors.push('At least one LLM provider API key is required');
-    }
-    
-    // Check for at least one search provider
-    const searchProviders = [
-      'tavilyApiKey',
-      'serperApiKey',
-      'serpapiApiKey',
-      'googleCx',
-      'bingApiKey'
-    ];
-    
-    const hasSearchProvider = searchProviders.some(key => this.config[key as keyof ConfigOptions]);
+    // Check the key of every LLM provider a role or a failover may call
+    const llmProviders = new Set([
+      ...LLM_ROLES.map(role => this.getProviderForRole(role)),
+      ...(this.config.fallbackLLMProviders || [])
+    ]);
+    for (const provider of llmProviders) {
+      if (this.requiresApiKey(provider) && !this.getApiKey(provider)) {
+        errors.push(`An API key is required for the ${provider} LLM provider`);
+      }
+    }
+    
+    // Providers without default models serve only the model they are told to
+    for (const role of LLM_ROLES) {
+      const provider = this.getProviderForRole(role);
+      if (!PROVIDER_DEFAULT_MODELS[provider.toLowerCase()] && !this.getModelForRole(role)) {
+        errors.push(`${role.toUpperCase()}_LLM_MODEL must be set, as the ${provider} provider has no default model`);
+      }
+    }
+    
+    // Check that research can search at least one retriever
+    // Local research reads documents only and a fixed reading list is scraped
+    // directly, so neither needs a search provider
+    const readsSourceUrlsOnly = !!this.config.sourceUrls?.length && !this.config.complementSourceUrls;
+    const hasSearchProvider = this.getSearchRetrievers().some(name => this.canUseRetriever(name)) ||
+                             this.config.reportSource === ReportSource.Local ||
+                             readsSourceUrlsOnly;
     if (!hasSearchProvider) {
-      errors.push('At least one search provider API key is required');
+      errors.push('At least one search provider API key is required, or a keyless retriever such as duckduckgo');
     }
     
     if (errors.length > 0) {
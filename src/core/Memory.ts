@@ -3,7 +3,7 @@
  * Stores research context, sources, and reports
  */
 
-import { SearchResult, ResearchResult } from '../types';
+import { SearchResult, ResearchResult, Finding } from '../types';
 
 interface MemoryEntry {
   id: string;
@@ -21,6 +21,7 @@ export class Memory {
   private visitedUrls: Set<string> = new Set();
   private reports: Map<string, string> = new Map();
   private context: string[] = [];
+  private findings: Finding[] = [];
   private subtopics: Set<string> = new Set();
   private researchResults: ResearchResult[] = [];
   private nextId: number = 1;
@@ -109,8 +110,21 @@ export class Memory {
     return this.context;
   }
   
+  /**
+   * Store a finding with its provenance; its content is also added to the context
+   */
+  addFinding(finding: Finding): void {
+    this.findings.push(finding);
+    this.context.push(finding.content);
+  }
+  
+  getFindings(): Finding[] {
+    return this.findings;
+  }
+  
   clearContext(): void {
     this.context = [];
+    this.findings = [];
   }
   
   addSubtopic(subtopic: string): void {
@@ -141,6 +155,7 @@ export class Memory {
     this.visitedUrls.clear();
     this.reports.clear();
     this.context = [];
+    this.findings = [];
     this.subtopics.clear();
     this.researchResults = [];
     this.nextId = 1;
@@ -178,6 +193,7 @@ export class Memory {
       visitedUrls: Array.from(this.visitedUrls),
       reports: Array.from(this.reports.entries()),
       context: this.context,
+      findings: this.findings,
       subtopics: Array.from(this.subtopics),
       researchResults: this.researchResults,
       nextId: this.nextId
@@ -219,6 +235,9 @@ export class Memory {
     if (parsedData.context) {
       this.context = parsedData.context;
     }
+    if (parsedData.findings) {
+      this.findings = parsedData.findings;
+    }
     if (parsedData.subtopics) {
       this.subtopics = new Set(parsedData.subtopics);
     }
@@ -0,0 +1,66 @@
+import { ExportedReport, ReportDocument, ReportFormat } from '../types';
+
+export interface ExportOptions {
+  title?: string; // Defaults to the report's first heading
+  query?: string;
+  document?: ReportDocument; // The tree the markdown was rendered from
+}
+
+export abstract class BaseExporter {
+  protected format: ReportFormat;
+
+  constructor(format: ReportFormat) {
+    this.format = format;
+  }
+
+  /**
+   * Render a markdown report
+   */
+  abstract export(report: string, options?: ExportOptions): Promise<ExportedReport>;
+
+  abstract getMimeType(): string;
+
+  getFormat(): ReportFormat {
+    return this.format;
+  }
+
+  /**
+   * Wrap rendered content with its format, MIME type and a file name based on the title
+   */
+  protected createExport(content: Buffer | string, title: string): ExportedReport {
+    const slug = title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 80);
+
+    return {
+      format: this.format,
+      content,
+      mimeType: this.getMimeType(),
+      filename: `${slug || 'report'}.${this.format === ReportFormat.Markdown ? 'md' : this.format}`
+    };
+  }
+}
+
+// Factory for creating exporters by report format
+export class ExporterFactory {
+  private static exporters: Map<ReportFormat, typeof BaseExporter> = new Map();
+
+  public static register(format: ReportFormat, exporter: typeof BaseExporter): void {
+    this.exporters.set(format, exporter);
+  }
+
+  public static create(format: ReportFormat): BaseExporter {
+    const Exporter = this.exporters.get(format);
+    if (!Exporter) {
+      throw new Error(`No exporter for report format: ${format}`);
+    }
+
+    return new (Exporter as any)(format);
+  }
+
+  public static getAvailableFormats(): ReportFormat[] {
+    return Array.from(this.exporters.keys());
+  }
+}
@@ -0,0 +1,159 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  LevelFormat,
+  Packer,
+  Paragraph,
+  ParagraphChild,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType
+} from 'docx';
+import { Token, Tokens } from 'marked';
+import { BaseExporter, ExportOptions } from './BaseExporter';
+import { InlineRun, getReportTitle, parseMarkdown, toInlineRuns } from './markdown';
+import { ExportedReport } from '../types';
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6
+];
+
+const ORDERED_LIST = 'ordered-list';
+
+/**
+ * Renders a Word document with native headings, lists, tables and hyperlinks
+ */
+export class DOCXExporter extends BaseExporter {
+  // Each ordered list restarts its numbering with a new instance
+  private listInstance = 0;
+
+  async export(report: string, options?: ExportOptions): Promise<ExportedReport> {
+    const tokens = parseMarkdown(report);
+    const title = options?.title || getReportTitle(tokens) || 'Research Report';
+    this.listInstance = 0;
+
+    const document = new Document({
+      title,
+      description: options?.query,
+      creator: 'GPT Research',
+      numbering: {
+        config: [{
+          reference: ORDERED_LIST,
+          levels: [0, 1, 2, 3].map(level => ({
+            level,
+            format: LevelFormat.DECIMAL,
+            text: `%${level + 1}.`,
+            alignment: AlignmentType.START,
+            style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } }
+          }))
+        }]
+      },
+      sections: [{ children: this.renderBlocks(tokens) }]
+    });
+
+    return this.createExport(await Packer.toBuffer(document), title);
+  }
+
+  getMimeType(): string {
+    return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+  }
+
+  private renderBlocks(tokens: Token[], indent = 0): Array<Paragraph | Table> {
+    return tokens.flatMap((token): Array<Paragraph | Table> => {
+      switch (token.type) {
+        case 'heading':
+          return [new Paragraph({
+            heading: HEADING_LEVELS[token.depth - 1],
+            children: this.renderRuns(toInlineRuns(token.tokens))
+          })];
+        case 'paragraph':
+        case 'text':
+          return [new Paragraph({
+            indent: indent ? { left: indent } : undefined,
+            children: this.renderRuns(toInlineRuns((token as Tokens.Paragraph).tokens || [token]))
+          })];
+        case 'list':
+          return this.renderList(token as Tokens.List, 0);
+        case 'table':
+          return [this.renderTable(token as Tokens.Table)];
+        case 'code':
+          return [new Paragraph({
+            shading: { type: ShadingType.CLEAR, fill: 'F6F8FA', color: 'auto' },
+            children: token.text.split('\n').map((line: string, index: number) =>
+              new TextRun({ text: line, font: 'Courier New', size: 18, break: index > 0 ? 1 : undefined })
+            )
+          })];
+        case 'blockquote':
+          return this.renderBlocks(token.tokens || [], indent + 720);
+        case 'hr':
+          return [new Paragraph({
+            border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'auto', space: 1 } }
+          })];
+        default:
+          return [];
+      }
+    });
+  }
+
+  private renderList(list: Tokens.List, level: number): Paragraph[] {
+    const instance = ++this.listInstance;
+
+    return list.items.flatMap(item => {
+      const [first, ...rest] = item.tokens;
+      const runs = first && first.type !== 'list' ? toInlineRuns((first as Tokens.Text).tokens || [first]) : [];
+      const paragraph = new Paragraph({
+        children: this.renderRuns(runs),
+        ...(list.ordered
+          ? { numbering: { reference: ORDERED_LIST, level, instance } }
+          : { bullet: { level } })
+      });
+
+      const nested = (runs.length > 0 ? rest : item.tokens).flatMap(token =>
+        token.type === 'list'
+          ? this.renderList(token as Tokens.List, Math.min(level + 1, 3))
+          : this.renderBlocks([token], 720 * (level + 1)) as Paragraph[]
+      );
+
+      return [paragraph, ...nested];
+    });
+  }
+
+  private renderTable(table: Tokens.Table): Table {
+    const row = (cells: Tokens.TableCell[], header: boolean) => new TableRow({
+      tableHeader: header || undefined,
+      children: cells.map(cell => new TableCell({
+        shading: header ? { type: ShadingType.CLEAR, fill: 'F6F8FA', color: 'auto' } : undefined,
+        children: [new Paragraph({ children: this.renderRuns(toInlineRuns(cell.tokens), header) })]
+      }))
+    });
+
+    return new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: [row(table.header, true), ...table.rows.map(cells => row(cells, false))]
+    });
+  }
+
+  private renderRuns(runs: InlineRun[], bold = false): ParagraphChild[] {
+    return runs.map(run => {
+      const text = new TextRun({
+        text: run.text,
+        bold: bold || run.bold,
+        italics: run.italic,
+        font: run.code ? 'Courier New' : undefined,
+        style: run.link ? 'Hyperlink' : undefined
+      });
+      return run.link ? new ExternalHyperlink({ link: run.link, children: [text] }) : text;
+    });
+  }
+}
@@ -0,0 +1,82 @@
+import { marked, Renderer } from 'marked';
+import { BaseExporter, ExportOptions } from './BaseExporter';
+import { getReportTitle, parseMarkdown } from './markdown';
+import { ExportedReport } from '../types';
+
+const STYLES = `
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; line-height: 1.6; color: #1f2328; max-width: 860px; margin: 2rem auto; padding: 0 1rem; }
+  h1, h2, h3 { line-height: 1.25; }
+  h1 { border-bottom: 1px solid #d0d7de; padding-bottom: .3em; }
+  table { border-collapse: collapse; margin: 1rem 0; }
+  th, td { border: 1px solid #d0d7de; padding: 6px 13px; text-align: left; }
+  th { background: #f6f8fa; }
+  code { background: #f6f8fa; padding: .2em .4em; border-radius: 4px; }
+  pre code { display: block; padding: 1rem; overflow-x: auto; }
+  blockquote { color: #57606a; border-left: 4px solid #d0d7de; margin: 0; padding: 0 1rem; }
+  a { color: #0969da; }
+`;
+
+// URL schemes that links and images may use; relative URLs have none
+const SAFE_PROTOCOLS = ['http', 'https', 'mailto'];
+
+/**
+ * Shows raw HTML from the report as text and drops links with unsafe protocols,
+ * such as javascript:, keeping their text
+ */
+class SafeRenderer extends Renderer {
+  html(html: string): string {
+    return escapeHtml(html);
+  }
+
+  link(href: string, title: string | null | undefined, text: string): string {
+    return isSafeUrl(href) ? super.link(href, title, text) : text;
+  }
+
+  image(href: string, title: string | null, text: string): string {
+    return isSafeUrl(href) ? super.image(href, title, text) : text;
+  }
+}
+
+/**
+ * Renders a standalone HTML page
+ */
+export class HTMLExporter extends BaseExporter {
+  async export(report: string, options?: ExportOptions): Promise<ExportedReport> {
+    const title = options?.title || getReportTitle(parseMarkdown(report)) || 'Research Report';
+    const body = await marked.parse(report, { gfm: true, renderer: new SafeRenderer() });
+
+    const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+    return this.createExport(html, title);
+  }
+
+  getMimeType(): string {
+    return 'text/html; charset=utf-8';
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function isSafeUrl(href: string): boolean {
+  // Browsers ignore whitespace within a scheme
+  const scheme = href.replace(/\s/g, '').match(/^([a-z][a-z0-9+.-]*):/i);
+  return !scheme || SAFE_PROTOCOLS.includes(scheme[1].toLowerCase());
+}
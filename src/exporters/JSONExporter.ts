@@ -0,0 +1,19 @@
+import { BaseExporter, ExportOptions } from './BaseExporter';
+import { buildReportDocument } from './document';
+import { ExportedReport } from '../types';
+
+/**
+ * Serializes the report document tree for other programs to render or compare
+ */
+export class JSONExporter extends BaseExporter {
+  async export(report: string, options?: ExportOptions): Promise<ExportedReport> {
+    const document = options?.document || buildReportDocument(report, { query: options?.query });
+    const title = options?.title || document.title;
+
+    return this.createExport(JSON.stringify(document, null, 2), title);
+  }
+
+  getMimeType(): string {
+    return 'application/json';
+  }
+}
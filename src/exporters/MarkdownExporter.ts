@@ -0,0 +1,13 @@
+import { BaseExporter, ExportOptions } from './BaseExporter';
+import { getReportTitle, parseMarkdown } from './markdown';
+import { ExportedReport } from '../types';
+
+export class MarkdownExporter extends BaseExporter {
+  async export(report: string, options?: ExportOptions): Promise<ExportedReport> {
+    return this.createExport(report, options?.title || getReportTitle(parseMarkdown(report)) || 'report');
+  }
+
+  getMimeType(): string {
+    return 'text/markdown; charset=utf-8';
+  }
+}
@@ -0,0 +1,202 @@
+import PDFDocument from 'pdfkit';
+import { Token, Tokens } from 'marked';
+import { BaseExporter, ExportOptions } from './BaseExporter';
+import { InlineRun, getReportTitle, parseMarkdown, toInlineRuns, toPlainText } from './markdown';
+import { ExportedReport } from '../types';
+
+const HEADING_SIZES = [22, 18, 15, 13, 12, 11];
+const BODY_SIZE = 11;
+const LINK_COLOR = '#0969da';
+const TEXT_COLOR = '#1f2328';
+const MUTED_COLOR = '#57606a';
+const BORDER_COLOR = '#d0d7de';
+const INDENT = 18;
+
+/**
+ * Renders a paginated PDF with the standard PDF fonts
+ */
+export class PDFExporter extends BaseExporter {
+  // Quotes are drawn in a muted color
+  private textColor = TEXT_COLOR;
+
+  async export(report: string, options?: ExportOptions): Promise<ExportedReport> {
+    const tokens = parseMarkdown(report);
+    const title = options?.title || getReportTitle(tokens) || 'Research Report';
+
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: 56,
+      info: { Title: title, Subject: options?.query || '', Creator: 'GPT Research' }
+    });
+
+    const chunks: Buffer[] = [];
+    const finished = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    this.textColor = TEXT_COLOR;
+    this.renderBlocks(doc, tokens, 0);
+    doc.end();
+
+    return this.createExport(await finished, title);
+  }
+
+  getMimeType(): string {
+    return 'application/pdf';
+  }
+
+  private renderBlocks(doc: PDFKit.PDFDocument, tokens: Token[], indent: number): void {
+    for (const token of tokens) {
+      switch (token.type) {
+        case 'heading':
+          doc.moveDown(0.6);
+          this.renderRuns(doc, toInlineRuns(token.tokens), indent, {
+            size: HEADING_SIZES[token.depth - 1],
+            bold: true
+          });
+          doc.moveDown(0.3);
+          break;
+        case 'paragraph':
+        case 'text':
+          this.renderRuns(doc, toInlineRuns((token as Tokens.Paragraph).tokens || [token]), indent);
+          doc.moveDown(0.5);
+          break;
+        case 'list':
+          this.renderList(doc, token as Tokens.List, indent);
+          doc.moveDown(0.5);
+          break;
+        case 'table':
+          this.renderTable(doc, token as Tokens.Table, indent);
+          doc.moveDown(0.5);
+          break;
+        case 'code':
+          doc.font('Courier').fontSize(9).fillColor(this.textColor)
+            .text(token.text, this.left(doc) + indent, doc.y, { width: this.width(doc) - indent });
+          doc.moveDown(0.5);
+          break;
+        case 'blockquote': {
+          const color = this.textColor;
+          this.textColor = MUTED_COLOR;
+          this.renderBlocks(doc, token.tokens || [], indent + INDENT);
+          this.textColor = color;
+          break;
+        }
+        case 'hr': {
+          const y = doc.y + 4;
+          doc.moveTo(this.left(doc), y).lineTo(this.left(doc) + this.width(doc), y)
+            .strokeColor(BORDER_COLOR).stroke();
+          doc.y = y + 8;
+          break;
+        }
+      }
+    }
+  }
+
+  private renderList(doc: PDFKit.PDFDocument, list: Tokens.List, indent: number): void {
+    const start = typeof list.start === 'number' ? list.start : 1;
+
+    list.items.forEach((item, index) => {
+      const marker = list.ordered ? `${start + index}. ` : '• ';
+      const [first, ...rest] = item.tokens;
+      const runs = first && first.type !== 'list' ? toInlineRuns((first as Tokens.Text).tokens || [first]) : [];
+
+      this.renderRuns(doc, [{ text: marker }, ...runs], indent + INDENT);
+      for (const token of runs.length > 0 ? rest : item.tokens) {
+        if (token.type === 'list') {
+          this.renderList(doc, token as Tokens.List, indent + INDENT);
+        } else {
+          this.renderBlocks(doc, [token], indent + INDENT * 2);
+        }
+      }
+    });
+  }
+
+  /**
+   * Draw a bordered grid with equal columns, breaking pages between rows
+   */
+  private renderTable(doc: PDFKit.PDFDocument, table: Tokens.Table, indent: number): void {
+    const left = this.left(doc) + indent;
+    const columnWidth = (this.width(doc) - indent) / Math.max(table.header.length, 1);
+    const padding = 4;
+    const bottom = doc.page.height - doc.page.margins.bottom;
+
+    const drawRow = (cells: Tokens.TableCell[], header: boolean) => {
+      doc.font(header ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+      const texts = cells.map(cell => toPlainText(cell.tokens));
+      const height = Math.max(
+        ...texts.map(text => doc.heightOfString(text, { width: columnWidth - padding * 2 }))
+      ) + padding * 2;
+
+      if (doc.y + height > bottom) {
+        doc.addPage();
+      }
+
+      const top = doc.y;
+      cells.forEach((cell, column) => {
+        const x = left + column * columnWidth;
+        // A cell that holds a link keeps it, so reference tables stay clickable
+        const link = toInlineRuns(cell.tokens).find(run => run.link)?.link;
+        doc.rect(x, top, columnWidth, height).strokeColor(BORDER_COLOR).stroke();
+        doc.fillColor(link ? LINK_COLOR : TEXT_COLOR)
+          .text(texts[column], x + padding, top + padding, { width: columnWidth - padding * 2, link });
+      });
+      doc.fillColor(TEXT_COLOR);
+      doc.x = this.left(doc);
+      doc.y = top + height;
+    };
+
+    drawRow(table.header, true);
+    table.rows.forEach(cells => drawRow(cells, false));
+  }
+
+  /**
+   * Write styled runs as one flowing paragraph
+   */
+  private renderRuns(
+    doc: PDFKit.PDFDocument,
+    runs: InlineRun[],
+    indent: number,
+    base: { size?: number; bold?: boolean } = {}
+  ): void {
+    const visible = runs.filter(run => run.text.length > 0);
+    if (visible.length === 0) {
+      return;
+    }
+
+    doc.x = this.left(doc) + indent;
+    doc.fontSize(base.size || BODY_SIZE);
+
+    visible.forEach((run, index) => {
+      doc.font(this.fontFor(run, base.bold)).fillColor(run.link ? LINK_COLOR : this.textColor);
+      doc.text(run.text, {
+        width: this.width(doc) - indent,
+        continued: index < visible.length - 1,
+        link: run.link || null,
+        underline: !!run.link
+      });
+    });
+
+    doc.x = this.left(doc);
+  }
+
+  private fontFor(run: InlineRun, bold?: boolean): string {
+    if (run.code) {
+      return 'Courier';
+    }
+    const isBold = bold || run.bold;
+    if (isBold && run.italic) return 'Helvetica-BoldOblique';
+    if (isBold) return 'Helvetica-Bold';
+    if (run.italic) return 'Helvetica-Oblique';
+    return 'Helvetica';
+  }
+
+  private left(doc: PDFKit.PDFDocument): number {
+    return doc.page.margins.left;
+  }
+
+  private width(doc: PDFKit.PDFDocument): number {
+    return doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  }
+}
@@ -0,0 +1,579 @@
+import { Lexer, Token, Tokens } from 'marked';
+import { parseMarkdown, toPlainText } from './markdown';
+import {
+  CitationStyle,
+  ReportBlock,
+  ReportClaim,
+  ReportDocument,
+  ReportDocumentSection,
+  ReportList,
+  ReportListItem,
+  ReportReference,
+  ReportType,
+  SearchResult
+} from '../types';
+import { CitationFormatterFactory } from '../citations';
+import { formatReference } from '../utils/citations';
+import { normalizeUrl } from '../utils/domains';
+
+export interface ReportDocumentOptions {
+  query?: string;
+  reportType?: ReportType;
+  sources?: SearchResult[]; // Sources the report cites as [n], numbered from 1; replace a references section in the markdown
+  citationStyle?: CitationStyle; // Style of the references built from sources; links by default
+}
+
+// A source the report may cite, before it is numbered as a reference
+type CitableSource = Omit<ReportReference, 'id' | 'number'>;
+
+// Maps a cited number to the number to print in its place, or undefined to drop it
+export type Renumber = (number: number) => number | undefined;
+
+// Markdown and the ids of the references it cites
+interface CitedText {
+  text: string;
+  citations: Set<string>;
+}
+
+// Headings of the section that lists the report's references
+const REFERENCES_HEADING = /^(references|sources|bibliography|works cited)$/i;
+
+// Whitespace before what may start a new sentence
+const SENTENCE_START = /\s+(?=["'“([*_]?[A-Z0-9])/g;
+
+// Text that ends a sentence, once its trailing citations are removed
+const SENTENCE_END = /[.!?]["'”’)*_]*$/;
+
+// Citation links, optionally parenthesized, such as "([Reuters](...))"
+const CITATION_LINK = /\(?\[[^\]]*\]\([^)]*\)\)?/g;
+
+// Numbered citation markers such as [3] or [1, 4], with the whitespace before them
+const CITATION_MARKER = /(\s*)\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g;
+
+/**
+ * Parse a markdown report into a document tree. Headings nest into sections,
+ * paragraphs are split into claims, and each claim cites the sources it links to
+ * or marks with [n]. Only cited sources become references, numbered in the order
+ * they are first cited; markers are renumbered to match and dangling ones removed
+ */
+export function buildReportDocument(markdown: string, options: ReportDocumentOptions = {}): ReportDocument {
+  return new ReportDocumentBuilder(options).build(markdown);
+}
+
+/**
+ * Render a document tree as markdown
+ */
+export function renderMarkdown(document: ReportDocument): string {
+  const parts: string[] = document.blocks.map(renderBlock);
+
+  const renderSection = (section: ReportDocumentSection) => {
+    parts.push(`${'#'.repeat(section.level)} ${section.title}`);
+    parts.push(...section.blocks.map(renderBlock));
+    section.sections.forEach(renderSection);
+  };
+  document.sections.forEach(renderSection);
+
+  if (document.references.length > 0) {
+    parts.push('## References');
+    parts.push(document.references.map(reference => `${reference.number}. ${reference.citation}`).join('\n'));
+  }
+
+  return `${parts.filter(Boolean).join('\n\n')}\n`;
+}
+
+function renderBlock(block: ReportBlock): string {
+  switch (block.type) {
+    case 'paragraph':
+      return renderClaims(block.claims);
+    case 'list':
+      return renderList(block);
+    case 'table': {
+      const row = (cells: string[]) => `| ${cells.join(' | ')} |`;
+      return [
+        row(block.headers),
+        row(block.headers.map(() => '---')),
+        ...block.rows.map(row)
+      ].join('\n');
+    }
+    case 'figure':
+      return `![${block.alt}](${block.url}${block.caption ? ` "${block.caption.replace(/"/g, '\\"')}"` : ''})`;
+    case 'code':
+      return `\`\`\`${block.language || ''}\n${block.code}\n\`\`\``;
+    case 'quote':
+      return block.blocks
+        .map(renderBlock)
+        .join('\n\n')
+        .split('\n')
+        .map(line => (line ? `> ${line}` : '>'))
+        .join('\n');
+    case 'raw':
+      return block.markdown;
+  }
+}
+
+function renderList(list: ReportList): string {
+  const start = list.start ?? 1;
+
+  return list.items.map((item, index) => {
+    const marker = list.ordered ? `${start + index}. ` : '- ';
+    const indent = (text: string) =>
+      text.split('\n').map(line => (line ? `${' '.repeat(marker.length)}${line}` : ''));
+    const lines = [`${marker}${renderClaims(item.claims)}`];
+    if (item.list) {
+      // Nested lists and other content are indented to the text of their parent item
+      lines.push(...indent(renderList(item.list)));
+    }
+    for (const block of item.blocks || []) {
+      lines.push('', ...indent(renderBlock(block)));
+    }
+    return lines.join('\n');
+  }).join('\n');
+}
+
+function renderClaims(claims: ReportClaim[]): string {
+  return claims.map(claim => claim.text).join(' ');
+}
+
+/**
+ * Renumber the [n] markers of inline markdown, leaving code spans and link text
+ * as written. Markers left without a number are removed
+ */
+export function renumberCitations(markdown: string, renumber: Renumber): string {
+  return renumberInline(Lexer.lexInline(markdown), renumber);
+}
+
+/**
+ * Drop references that nothing cites any more, such as after sentences were
+ * rewritten, and renumber the rest in order along with their markers
+ */
+export function pruneReferences(document: ReportDocument): ReportDocument {
+  const byNumber = new Map(document.references.map(reference => [reference.number, reference]));
+  const cited: Set<string> = new Set();
+
+  mapContent(document, claim => {
+    claim.citations.forEach(id => cited.add(id));
+    return claim;
+  }, cell => renumberCitations(cell, number => {
+    const reference = byNumber.get(number);
+    if (reference) cited.add(reference.id);
+    return number;
+  }));
+
+  const kept = document.references.filter(reference => cited.has(reference.id));
+  if (kept.length === document.references.length) {
+    return document;
+  }
+
+  const numbers = new Map(kept.map((reference, index) => [reference.number, index + 1]));
+  const ids = new Map(kept.map((reference, index) => [reference.id, `ref-${index + 1}`]));
+  return {
+    ...mapContent(document, claim => ({
+      ...claim,
+      text: renumberCitations(claim.text, number => numbers.get(number)),
+      citations: claim.citations.map(id => ids.get(id)).filter((id): id is string => !!id)
+    }), cell => renumberCitations(cell, number => numbers.get(number))),
+    references: kept.map((reference, index) => ({ ...reference, id: `ref-${index + 1}`, number: index + 1 }))
+  };
+}
+
+/**
+ * Copy a document with each claim and table cell mapped
+ */
+function mapContent(
+  document: ReportDocument,
+  mapClaim: (claim: ReportClaim) => ReportClaim,
+  mapCell: (cell: string) => string
+): ReportDocument {
+  const mapList = (list: ReportList): ReportList => ({
+    ...list,
+    items: list.items.map(item => ({
+      ...item,
+      claims: item.claims.map(mapClaim),
+      ...(item.list ? { list: mapList(item.list) } : {}),
+      ...(item.blocks ? { blocks: item.blocks.map(mapBlock) } : {})
+    }))
+  });
+  const mapBlock = (block: ReportBlock): ReportBlock => {
+    switch (block.type) {
+      case 'paragraph':
+        return { ...block, claims: block.claims.map(mapClaim) };
+      case 'list':
+        return mapList(block);
+      case 'table':
+        return { ...block, headers: block.headers.map(mapCell), rows: block.rows.map(row => row.map(mapCell)) };
+      case 'quote':
+        return { ...block, blocks: block.blocks.map(mapBlock) };
+      default:
+        return block;
+    }
+  };
+  const mapSection = (section: ReportDocumentSection): ReportDocumentSection => ({
+    ...section,
+    blocks: section.blocks.map(mapBlock),
+    sections: section.sections.map(mapSection)
+  });
+
+  return {
+    ...document,
+    blocks: document.blocks.map(mapBlock),
+    sections: document.sections.map(mapSection)
+  };
+}
+
+function renumberInline(tokens: Token[], renumber: Renumber): string {
+  return tokens.map(token => {
+    const children = (token as Tokens.Generic).tokens;
+    if (token.type === 'text' && !children) {
+      return renumberMarkers(token.raw, renumber);
+    }
+
+    // Emphasis keeps its delimiters around its renumbered content
+    if (['text', 'strong', 'em', 'del'].includes(token.type) && children) {
+      const content = children.map(child => child.raw).join('');
+      const start = token.raw.indexOf(content);
+      if (start >= 0) {
+        return token.raw.slice(0, start) +
+          renumberInline(children, renumber) +
+          token.raw.slice(start + content.length);
+      }
+    }
+    return token.raw;
+  }).join('');
+}
+
+function renumberMarkers(text: string, renumber: Renumber): string {
+  return text.replace(CITATION_MARKER, (_marker, space: string, numbers: string) => {
+    const renumbered = new Set(numbers
+      .split(',')
+      .map(number => renumber(parseInt(number, 10)))
+      .filter((value): value is number => value !== undefined));
+
+    return renumbered.size > 0 ? `${space}[${Array.from(renumbered).join(', ')}]` : '';
+  });
+}
+
+class ReportDocumentBuilder {
+  private options: ReportDocumentOptions;
+  private sources: Map<number, CitableSource> = new Map();
+  private sourcesByUrl: Map<string, number> = new Map();
+  private references: ReportReference[] = [];
+  private referencesBySource: Map<number, ReportReference> = new Map();
+  private sectionIds: Set<string> = new Set();
+  private claimCounts: Map<string, number> = new Map();
+
+  constructor(options: ReportDocumentOptions) {
+    this.options = options;
+  }
+
+  build(markdown: string): ReportDocument {
+    const tokens = parseMarkdown(markdown);
+    const referencesSection = this.findReferencesSection(tokens);
+    this.setSources(referencesSection?.tokens || []);
+
+    const document: ReportDocument = {
+      title: '',
+      query: this.options.query || '',
+      reportType: this.options.reportType || ReportType.ResearchReport,
+      generatedAt: new Date().toISOString(),
+      blocks: [],
+      sections: [],
+      references: this.references
+    };
+
+    // Sections still open, from the outermost heading to the innermost
+    const open: ReportDocumentSection[] = [];
+
+    tokens.forEach((token, index) => {
+      if (referencesSection && index >= referencesSection.start && index < referencesSection.end) {
+        return;
+      }
+
+      if (token.type === 'heading') {
+        const heading = token as Tokens.Heading;
+        const title = toPlainText(heading.tokens).trim();
+        const section: ReportDocumentSection = {
+          id: this.createSectionId(title),
+          title,
+          level: heading.depth,
+          blocks: [],
+          sections: []
+        };
+
+        while (open.length > 0 && open[open.length - 1].level >= section.level) {
+          open.pop();
+        }
+        (open.length > 0 ? open[open.length - 1].sections : document.sections).push(section);
+        open.push(section);
+        return;
+      }
+
+      const scope = open.length > 0 ? open[open.length - 1].id : 'intro';
+      const block = this.toBlock(token, scope);
+      if (block) {
+        (open.length > 0 ? open[open.length - 1].blocks : document.blocks).push(block);
+      }
+    });
+
+    document.title = document.sections[0]?.title || document.query || 'Research Report';
+    return document;
+  }
+
+  /**
+   * Locate the references section, which is kept as document references rather than content
+   */
+  private findReferencesSection(tokens: Token[]): { start: number; end: number; tokens: Token[] } | undefined {
+    const start = tokens.findIndex(token =>
+      token.type === 'heading' && REFERENCES_HEADING.test(toPlainText((token as Tokens.Heading).tokens).trim())
+    );
+    if (start < 0) {
+      return undefined;
+    }
+
+    const depth = (tokens[start] as Tokens.Heading).depth;
+    let end = start + 1;
+    while (end < tokens.length && !(tokens[end].type === 'heading' && (tokens[end] as Tokens.Heading).depth <= depth)) {
+      end++;
+    }
+
+    return { start, end, tokens: tokens.slice(start + 1, end) };
+  }
+
+  /**
+   * Number the sources that may be cited, reading the references section when there are none
+   */
+  private setSources(sectionTokens: Token[]): void {
+    const sources = this.options.sources || [];
+
+    if (sources.length > 0) {
+      const style = this.options.citationStyle;
+      const formatter = style ? CitationFormatterFactory.create(style) : undefined;
+
+      sources.forEach((source, index) => this.addSource(index + 1, {
+        title: source.title,
+        url: source.url,
+        sourceType: source.sourceType || 'web',
+        citation: formatter ? formatter.format(source) : formatReference(source)
+      }));
+      return;
+    }
+
+    const list = sectionTokens.find((token): token is Tokens.List => token.type === 'list');
+    list?.items.forEach((item, index) => {
+      const link = this.findLinks(item.tokens)[0];
+      this.addSource((typeof list.start === 'number' ? list.start : 1) + index, {
+        title: link?.text || toPlainText(item.tokens).trim(),
+        url: link?.href || '',
+        sourceType: /\(internal document\)/.test(item.text) ? 'local' : 'web',
+        citation: item.text.trim()
+      });
+    });
+  }
+
+  private addSource(number: number, source: CitableSource): void {
+    this.sources.set(number, source);
+    if (source.url && !this.sourcesByUrl.has(normalizeUrl(source.url))) {
+      this.sourcesByUrl.set(normalizeUrl(source.url), number);
+    }
+  }
+
+  /**
+   * The reference for a source, numbering it when it is first cited
+   */
+  private cite(sourceNumber: number): ReportReference | undefined {
+    const source = this.sources.get(sourceNumber);
+    if (!source) {
+      return undefined;
+    }
+
+    let reference = this.referencesBySource.get(sourceNumber);
+    if (!reference) {
+      const number = this.references.length + 1;
+      reference = { id: `ref-${number}`, number, ...source };
+      this.references.push(reference);
+      this.referencesBySource.set(sourceNumber, reference);
+    }
+    return reference;
+  }
+
+  private toBlock(token: Token, scope: string): ReportBlock | undefined {
+    switch (token.type) {
+      case 'paragraph': {
+        const inline = (token as Tokens.Paragraph).tokens.filter(child => child.raw.trim());
+        if (inline.length === 1 && inline[0].type === 'image') {
+          const image = inline[0] as Tokens.Image;
+          return { type: 'figure', url: image.href, alt: image.text, caption: image.title || undefined };
+        }
+        return { type: 'paragraph', claims: this.toClaims((token as Tokens.Paragraph).tokens, scope) };
+      }
+      case 'list':
+        return this.toList(token as Tokens.List, scope);
+      case 'table': {
+        const table = token as Tokens.Table;
+        return {
+          type: 'table',
+          headers: table.header.map(cell => this.citeInline(cell.tokens).trim()),
+          rows: table.rows.map(row => row.map(cell => this.citeInline(cell.tokens).trim()))
+        };
+      }
+      case 'code': {
+        const code = token as Tokens.Code;
+        return { type: 'code', language: code.lang || undefined, code: code.text };
+      }
+      case 'blockquote':
+        return {
+          type: 'quote',
+          blocks: ((token as Tokens.Blockquote).tokens)
+            .map(child => this.toBlock(child, scope))
+            .filter((block): block is ReportBlock => !!block)
+        };
+      default:
+        // Keep what is not modeled, such as rules and HTML, as written
+        return token.raw.trim() ? { type: 'raw', markdown: token.raw.trim() } : undefined;
+    }
+  }
+
+  private toList(list: Tokens.List, scope: string): ReportList {
+    const items: ReportListItem[] = list.items.map(item => {
+      const nested = item.tokens.find((token): token is Tokens.List => token.type === 'list');
+      const isText = (token: Token) => token.type === 'text' || token.type === 'paragraph';
+      const content = item.tokens
+        .filter(isText)
+        .flatMap(token => (token as Tokens.Paragraph).tokens || [token]);
+      const blocks = item.tokens
+        .filter(token => !isText(token) && token !== nested)
+        .map(token => this.toBlock(token, scope))
+        .filter((block): block is ReportBlock => !!block);
+
+      return {
+        claims: this.toClaims(content, scope),
+        ...(nested ? { list: this.toList(nested, scope) } : {}),
+        ...(blocks.length > 0 ? { blocks } : {})
+      };
+    });
+
+    return {
+      type: 'list',
+      ordered: list.ordered,
+      ...(list.ordered && typeof list.start === 'number' && list.start !== 1 ? { start: list.start } : {}),
+      items
+    };
+  }
+
+  /**
+   * Split inline markdown into sentences. Citations trailing a sentence, such as
+   * "... grew 12%. ([Reuters](...))", stay with the sentence they follow
+   */
+  private toClaims(tokens: Token[], scope: string): ReportClaim[] {
+    const sentences: CitedText[] = [{ text: '', citations: new Set() }];
+
+    for (const token of tokens) {
+      const current = sentences[sentences.length - 1];
+      if (token.type !== 'text') {
+        current.text += this.citeInline([token], current.citations);
+        for (const link of this.findLinks([token])) {
+          const reference = this.cite(this.sourcesByUrl.get(normalizeUrl(link.href)) ?? 0);
+          if (reference) current.citations.add(reference.id);
+        }
+        continue;
+      }
+
+      let position = 0;
+      for (const match of token.raw.matchAll(SENTENCE_START)) {
+        const sentence = sentences[sentences.length - 1];
+        const text = token.raw.slice(position, match.index);
+        if (this.endsSentence(sentence.text + text)) {
+          sentence.text += this.citeMarkers(text, sentence.citations);
+          sentences.push({ text: '', citations: new Set() });
+          position = match.index! + match[0].length;
+        }
+      }
+      const sentence = sentences[sentences.length - 1];
+      sentence.text += this.citeMarkers(token.raw.slice(position), sentence.citations);
+    }
+
+    const merged: CitedText[] = [];
+    for (const sentence of sentences) {
+      const text = sentence.text.trim();
+      if (!text) {
+        continue;
+      }
+      const previous = merged[merged.length - 1];
+      if (previous && this.isCitationOnly(text)) {
+        previous.text += ` ${text}`;
+        sentence.citations.forEach(citation => previous.citations.add(citation));
+      } else {
+        merged.push({ text, citations: sentence.citations });
+      }
+    }
+
+    return merged.map(({ text, citations }) => ({
+      id: this.createClaimId(scope),
+      text,
+      citations: Array.from(citations)
+    }));
+  }
+
+  /**
+   * Renumber [n] markers in the text of inline markdown to the references they cite
+   */
+  private citeInline(tokens: Token[], citations?: Set<string>): string {
+    return renumberInline(tokens, this.citing(citations));
+  }
+
+  private citeMarkers(text: string, citations?: Set<string>): string {
+    return renumberMarkers(text, this.citing(citations));
+  }
+
+  /**
+   * Number cited sources as references, collecting the reference ids and dropping
+   * numbers of unknown sources
+   */
+  private citing(citations?: Set<string>): Renumber {
+    return sourceNumber => {
+      const reference = this.cite(sourceNumber);
+      if (reference) citations?.add(reference.id);
+      return reference?.number;
+    };
+  }
+
+  private endsSentence(text: string): boolean {
+    return SENTENCE_END.test(text.replace(CITATION_LINK, '').replace(CITATION_MARKER, '').trimEnd());
+  }
+
+  private isCitationOnly(text: string): boolean {
+    return text
+      .replace(CITATION_LINK, '')
+      .replace(CITATION_MARKER, '')
+      .replace(/[\s().,;:]/g, '') === '';
+  }
+
+  private findLinks(tokens: Token[] = []): Tokens.Link[] {
+    return tokens.flatMap(token => {
+      if (token.type === 'link') {
+        return [token as Tokens.Link];
+      }
+      const children = (token as Tokens.Generic).tokens || (token as Tokens.List).items || [];
+      return this.findLinks(children);
+    });
+  }
+
+  private createSectionId(title: string): string {
+    const base = title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'section';
+
+    let id = base;
+    for (let suffix = 2; this.sectionIds.has(id); suffix++) {
+      id = `${base}-${suffix}`;
+    }
+    this.sectionIds.add(id);
+    return id;
+  }
+
+  private createClaimId(scope: string): string {
+    const count = (this.claimCounts.get(scope) || 0) + 1;
+    this.claimCounts.set(scope, count);
+    return `${scope}-${count}`;
+  }
+}
@@ -0,0 +1,31 @@
+// Export all exporters
+export { BaseExporter, ExportOptions, ExporterFactory } from './BaseExporter';
+export { MarkdownExporter } from './MarkdownExporter';
+export { HTMLExporter } from './HTMLExporter';
+export { JSONExporter } from './JSONExporter';
+export { PDFExporter } from './PDFExporter';
+export { DOCXExporter } from './DOCXExporter';
+export {
+  buildReportDocument,
+  renderMarkdown,
+  renumberCitations,
+  pruneReferences,
+  Renumber,
+  ReportDocumentOptions
+} from './document';
+
+// Register exporters with factory
+import { ExporterFactory } from './BaseExporter';
+import { MarkdownExporter } from './MarkdownExporter';
+import { HTMLExporter } from './HTMLExporter';
+import { JSONExporter } from './JSONExporter';
+import { PDFExporter } from './PDFExporter';
+import { DOCXExporter } from './DOCXExporter';
+import { ReportFormat } from '../types';
+
+// Register an exporter for every report format
+ExporterFactory.register(ReportFormat.Markdown, MarkdownExporter);
+ExporterFactory.register(ReportFormat.HTML, HTMLExporter);
+ExporterFactory.register(ReportFormat.JSON, JSONExporter);
+ExporterFactory.register(ReportFormat.PDF, PDFExporter);
+ExporterFactory.register(ReportFormat.Word, DOCXExporter);
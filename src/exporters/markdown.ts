@@ -0,0 +1,74 @@
+import { marked, Token, Tokens } from 'marked';
+
+// A run of text with one style, the unit that the PDF and DOCX renderers write
+export interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  link?: string;
+}
+
+/**
+ * Parse a markdown report into block tokens
+ */
+export function parseMarkdown(report: string): Token[] {
+  return marked.lexer(report);
+}
+
+/**
+ * The text of the report's first heading
+ */
+export function getReportTitle(tokens: Token[]): string | undefined {
+  const heading = tokens.find((token): token is Tokens.Heading => token.type === 'heading');
+  return heading ? toPlainText(heading.tokens) : undefined;
+}
+
+/**
+ * Flatten inline tokens into styled runs, keeping link targets
+ */
+export function toInlineRuns(tokens: Token[] = [], style: Omit<InlineRun, 'text'> = {}): InlineRun[] {
+  return tokens.flatMap((token): InlineRun[] => {
+    switch (token.type) {
+      case 'strong':
+        return toInlineRuns(token.tokens, { ...style, bold: true });
+      case 'em':
+        return toInlineRuns(token.tokens, { ...style, italic: true });
+      case 'del':
+        return toInlineRuns(token.tokens, style);
+      case 'link':
+        return toInlineRuns(token.tokens, { ...style, link: token.href });
+      case 'codespan':
+        return [{ ...style, text: decodeEntities(token.text), code: true }];
+      case 'br':
+        return [{ ...style, text: '\n' }];
+      case 'text': {
+        const text = token as Tokens.Text;
+        return text.tokens ? toInlineRuns(text.tokens, style) : [{ ...style, text: decodeEntities(text.text) }];
+      }
+      case 'escape':
+        return [{ ...style, text: decodeEntities(token.text) }];
+      case 'image':
+        return [{ ...style, text: token.text, link: token.href }];
+      default:
+        return 'text' in token && typeof token.text === 'string' ? [{ ...style, text: decodeEntities(token.text) }] : [];
+    }
+  });
+}
+
+/**
+ * The text of inline tokens without styling
+ */
+export function toPlainText(tokens: Token[] = []): string {
+  return toInlineRuns(tokens).map(run => run.text).join('');
+}
+
+// marked escapes text for HTML output; the other renderers need it back
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -11,23 +11,74 @@ export {
   ResearchResult,
   ResearchContext,
   ResearchSection,
+  Finding,
+  SourceType,
   ReportType,
   ReportFormat,
+  CitationStyle,
+  BibliographyFormat,
   ReportSource,
   Tone,
   ChatMessage,
   ChatOptions,
+  StructuredCompletionOptions,
+  ToolDefinition,
+  ToolCall,
+  ToolCompletion,
   EmbeddingOptions,
   SearchOptions,
   SearchResult,
+  SearchStrategy,
+  ExportedReport,
+  ReportDocument,
+  ReportDocumentSection,
+  ReportBlock,
+  ReportParagraph,
+  ReportClaim,
+  ReportList,
+  ReportListItem,
+  ReportTable,
+  ReportFigure,
+  ReportCode,
+  ReportQuote,
+  ReportRaw,
+  ReportReference,
+  ClaimVerdict,
+  ClaimVerification,
+  UnsupportedClaimAction,
+  CacheBackend,
+  VectorStoreBackend,
   ScrapedContent,
+  LoadedDocument,
   LLMCosts,
+  LLMRole,
   StreamUpdate
 } from './types';
 
 // Providers
 export { LLMProvider, LLMProviderConfig, LLMProviderFactory } from './providers/LLMProvider';
+export {
+  LLMRouter,
+  LLMProviderSource,
+  LLM_ROLES,
+  resolveProvider
+} from './providers/LLMRouter';
+export {
+  FallbackLLMProvider,
+  FallbackLLMProviderConfig,
+  FallbackProviderEntry,
+  CircuitBreaker
+} from './providers/FallbackLLMProvider';
 export { OpenAIProvider } from './providers/openai/OpenAIProvider';
+export {
+  OpenAICompatibleProvider,
+  OPENAI_COMPATIBLE_PRESETS
+} from './providers/openai/OpenAICompatibleProvider';
+export { AnthropicProvider } from './providers/anthropic/AnthropicProvider';
+export { OllamaProvider } from './providers/ollama/OllamaProvider';
+export { GoogleProvider } from './providers/google/GoogleProvider';
+export { GroqProvider } from './providers/groq/GroqProvider';
+export { CohereProvider } from './providers/cohere/CohereProvider';
 
 // Retrievers
 export {
@@ -37,6 +88,21 @@ export {
   TavilyRetriever,
   SerperRetriever,
   GoogleRetriever,
+  DuckDuckGoRetriever,
+  DuckDuckGoConfig,
+  BingRetriever,
+  BingConfig,
+  SerpAPIRetriever,
+  SerpAPIConfig,
+  BraveRetriever,
+  BraveConfig,
+  ArxivRetriever,
+  SemanticScholarRetriever,
+  PubMedRetriever,
+  CrossrefRetriever,
+  CrossrefConfig,
+  RetrieverCategory,
+  ScholarlyWork,
   createRetriever
 } from './retrievers';
 
@@ -51,20 +117,100 @@ export {
   getBestScraper
 } from './scrapers';
 
+// Caches
+export {
+  CacheStore,
+  CacheConfig,
+  CacheFactory,
+  MemoryCache,
+  FileSystemCache,
+  RedisRestCache,
+  createCacheKey,
+  getCache
+} from './cache';
+
+// Report exporters
+export {
+  BaseExporter,
+  ExportOptions,
+  ExporterFactory,
+  MarkdownExporter,
+  HTMLExporter,
+  JSONExporter,
+  PDFExporter,
+  DOCXExporter,
+  buildReportDocument,
+  renderMarkdown,
+  ReportDocumentOptions
+} from './exporters';
+
+// Citation styles and bibliographies
+export {
+  CitationFormatter,
+  CitationFormatterFactory,
+  CitationDate,
+  PersonName,
+  APAFormatter,
+  MLAFormatter,
+  ChicagoFormatter,
+  IEEEFormatter,
+  exportBibliography,
+  toBibTeX,
+  toCSLJSON,
+  CSLItem
+} from './citations';
+
+// Vector stores
+export {
+  VectorStore,
+  VectorStoreConfig,
+  VectorStoreFactory,
+  VectorRecord,
+  VectorMatch,
+  VectorMetadata,
+  VectorQueryOptions,
+  MemoryVectorStore,
+  SQLiteVectorStore,
+  createVectorStore
+} from './vectorstores';
+
+// Document loaders
+export {
+  BaseLoader,
+  LoaderConfig,
+  LoaderFactory,
+  DocumentLoader,
+  DocumentLoaderOptions,
+  TextLoader,
+  MarkdownLoader,
+  HTMLLoader,
+  CSVLoader,
+  PDFLoader,
+  DocxLoader
+} from './loaders';
+
 // Skills
 export {
   ResearchConductor,
   ReportGenerator,
   ReportSection,
   ReportTemplate,
+  ClaimVerifier,
+  ClaimVerificationResult,
   ContextManager,
   ContextChunk,
+  ContextSource,
   BrowserManager,
   ScrapingOptions,
   ScrapingResult,
   SourceCurator,
   SourceValidation,
-  CurationCriteria
+  CurationCriteria,
+  ToolAgent,
+  AgentTool,
+  ToolAgentStep,
+  ToolAgentOptions,
+  ToolAgentResult
 } from './skills';
 
 // Utilities
@@ -75,6 +221,24 @@ export {
   estimateTokens,
   formatCost,
   CostTracker,
+  Tokenizer,
+  TiktokenTokenizer,
+  getTokenizer,
+  registerTokenizer,
+  countTokens,
+  truncateToTokens,
+  MODEL_CONTEXT_WINDOWS,
+  getContextWindow,
+  registerContextWindow,
+  formatCitation,
+  formatAuthorName,
+  parseAuthorName,
+  formatInitials,
+  isScholarlySource,
+  formatReference,
+  collectCitableSources,
+  reciprocalRankFusion,
+  RankedResults,
   WorkerPool,
   BatchProcessor,
   StreamProcessor,
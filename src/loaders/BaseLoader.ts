@@ -0,0 +1,120 @@
+import * as path from 'path';
+import { LoadedDocument } from '../types';
+
+export interface LoaderConfig {
+  encoding?: BufferEncoding; // For text formats, default utf8
+  maxContentLength?: number; // Longer documents are truncated
+}
+
+/**
+ * The path part of a source, which is either a file path or a URL
+ */
+export function sourcePath(source: string): string {
+  return /^https?:\/\//i.test(source) ? decodeURIComponent(new URL(source).pathname) : source;
+}
+
+export abstract class BaseLoader {
+  protected config: LoaderConfig;
+  protected name: string;
+
+  constructor(name: string, config?: LoaderConfig) {
+    this.name = name;
+    this.config = {
+      encoding: 'utf8',
+      maxContentLength: 500000,
+      ...config
+    };
+  }
+
+  /**
+   * Parse the raw bytes of a document read from source
+   */
+  abstract parse(data: Buffer, source: string): Promise<LoadedDocument>;
+
+  /**
+   * Get the name of the loader
+   */
+  getName(): string {
+    return this.name;
+  }
+
+  /**
+   * Build a document, truncating content beyond the configured limit
+   */
+  protected createDocument(
+    source: string,
+    content: string,
+    title?: string,
+    metadata?: Record<string, any>
+  ): LoadedDocument {
+    const maxLength = this.config.maxContentLength;
+
+    return {
+      source,
+      title: title?.trim() || this.titleFromSource(source),
+      content: maxLength && content.length > maxLength ? content.slice(0, maxLength) : content,
+      type: this.name,
+      metadata
+    };
+  }
+
+  /**
+   * Use the file name without its extension as a fallback title
+   */
+  protected titleFromSource(source: string): string {
+    const pathname = sourcePath(source);
+    return path.basename(pathname, path.extname(pathname)) || source;
+  }
+
+  /**
+   * Normalize whitespace while keeping paragraph breaks
+   */
+  protected cleanText(text: string): string {
+    return text
+      .replace(/\r\n?/g, '\n')
+      .replace(/[ \t]+/g, ' ')
+      .replace(/ *\n */g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+}
+
+// Factory mapping file extensions to loaders
+export class LoaderFactory {
+  private static loaders: Map<string, { name: string; loader: typeof BaseLoader }> = new Map();
+
+  public static register(name: string, loader: typeof BaseLoader, extensions: string[]): void {
+    for (const extension of extensions) {
+      this.loaders.set(LoaderFactory.normalizeExtension(extension), { name, loader });
+    }
+  }
+
+  public static create(extension: string, config?: LoaderConfig): BaseLoader {
+    const entry = this.loaders.get(LoaderFactory.normalizeExtension(extension));
+    if (!entry) {
+      throw new Error(`No document loader for extension: ${extension}`);
+    }
+
+    return new (entry.loader as any)(entry.name, config);
+  }
+
+  /**
+   * Create the loader for a file path or URL based on its extension
+   */
+  public static createForSource(source: string, config?: LoaderConfig): BaseLoader {
+    return this.create(path.extname(sourcePath(source)), config);
+  }
+
+  public static isSupported(source: string): boolean {
+    return this.loaders.has(LoaderFactory.normalizeExtension(path.extname(sourcePath(source))));
+  }
+
+  public static getSupportedExtensions(): string[] {
+    return Array.from(this.loaders.keys());
+  }
+
+  private static normalizeExtension(extension: string): string {
+    const lower = extension.toLowerCase();
+    return lower.startsWith('.') ? lower : `.${lower}`;
+  }
+}
@@ -0,0 +1,90 @@
+import { BaseLoader, LoaderConfig } from './BaseLoader';
+import { LoadedDocument } from '../types';
+
+export interface CSVLoaderConfig extends LoaderConfig {
+  delimiter?: string; // Detected from the header row when omitted
+}
+
+export class CSVLoader extends BaseLoader {
+  declare protected config: CSVLoaderConfig;
+
+  /**
+   * Render each row as "column: value" pairs, so every value keeps its column
+   * name once the document is split into context chunks
+   */
+  async parse(data: Buffer, source: string): Promise<LoadedDocument> {
+    // Strip the byte order mark Excel writes at the start of UTF-8 exports
+    const text = data.toString(this.config.encoding).replace(/^\uFEFF/, '');
+    const delimiter = this.config.delimiter || this.detectDelimiter(text);
+    const [header = [], ...rows] = this.parseRows(text, delimiter);
+
+    const content = rows
+      .filter(row => row.some(value => value.trim().length > 0))
+      .map(row =>
+        row
+          .map((value, index) => `${header[index]?.trim() || `column ${index + 1}`}: ${value.trim()}`)
+          .join('; ')
+      )
+      .join('\n');
+
+    return this.createDocument(source, content, undefined, {
+      columns: header.map(column => column.trim()),
+      rows: rows.length
+    });
+  }
+
+  private detectDelimiter(text: string): string {
+    const firstLine = text.split('\n', 1)[0];
+    const candidates = [',', ';', '\t', '|'];
+    return candidates.reduce((best, candidate) =>
+      firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+    );
+  }
+
+  /**
+   * RFC 4180 parsing: quoted fields may contain delimiters, newlines and doubled quotes
+   */
+  private parseRows(text: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return rows;
+  }
+}
@@ -0,0 +1,169 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import axios from 'axios';
+import { LoadedDocument } from '../types';
+import { LoaderConfig, LoaderFactory } from './BaseLoader';
+
+export interface DocumentLoaderOptions extends LoaderConfig {
+  recursive?: boolean; // Descend into subdirectories, default true
+  maxFileSize?: number; // Bytes, larger files are skipped
+  concurrency?: number;
+  timeout?: number; // For documents fetched over HTTP
+}
+
+// Extensions for documents served without one in their URL
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'application/pdf': '.pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+  'text/html': '.html',
+  'text/markdown': '.md',
+  'text/csv': '.csv',
+  'text/plain': '.txt'
+};
+
+/**
+ * Loads documents from files, directories and URLs, choosing a loader by file type
+ */
+export class DocumentLoader extends EventEmitter {
+  private options: DocumentLoaderOptions;
+
+  constructor(options?: DocumentLoaderOptions) {
+    super();
+    this.options = {
+      recursive: true,
+      maxFileSize: 20 * 1024 * 1024,
+      concurrency: 4,
+      timeout: 30000,
+      ...options
+    };
+  }
+
+  /**
+   * Load every supported document found in the given files, directories and URLs.
+   * Documents that fail to load are reported through 'document_error' and skipped
+   */
+  async load(sources: string[]): Promise<LoadedDocument[]> {
+    const expanded = await this.expandSources(sources);
+    this.emit('loading_start', { sources: expanded.length });
+
+    const documents: LoadedDocument[] = [];
+    let failed = 0;
+
+    for (let i = 0; i < expanded.length; i += this.options.concurrency!) {
+      const batch = expanded.slice(i, i + this.options.concurrency!);
+      const results = await Promise.allSettled(batch.map(source => this.loadDocument(source)));
+
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled' && result.value.content.trim()) {
+          documents.push(result.value);
+          this.emit('document_loaded', {
+            source: result.value.source,
+            type: result.value.type,
+            contentLength: result.value.content.length
+          });
+        } else {
+          failed++;
+          this.emit('document_error', {
+            source: batch[index],
+            error: result.status === 'rejected' ? result.reason : new Error('Document has no text content')
+          });
+        }
+      });
+    }
+
+    this.emit('loading_complete', { documents: documents.length, failed });
+    return documents;
+  }
+
+  /**
+   * Load a single file or URL
+   */
+  async loadDocument(source: string): Promise<LoadedDocument> {
+    if (/^https?:\/\//i.test(source)) {
+      return this.loadUrl(source);
+    }
+
+    const filePath = this.toFilePath(source);
+    const stats = await fs.promises.stat(filePath);
+    if (stats.size > this.options.maxFileSize!) {
+      throw new Error(`${filePath} is larger than ${this.options.maxFileSize} bytes`);
+    }
+
+    const loader = LoaderFactory.createForSource(filePath, this.options);
+    const document = await loader.parse(await fs.promises.readFile(filePath), filePath);
+    return {
+      ...document,
+      metadata: { ...document.metadata, modifiedAt: stats.mtime.toISOString() }
+    };
+  }
+
+  private async loadUrl(url: string): Promise<LoadedDocument> {
+    const response = await axios.get<ArrayBuffer>(url, {
+      responseType: 'arraybuffer',
+      timeout: this.options.timeout,
+      maxContentLength: this.options.maxFileSize
+    });
+
+    const contentType = String(response.headers['content-type'] || '').split(';')[0].trim();
+    const loader = LoaderFactory.isSupported(url)
+      ? LoaderFactory.createForSource(url, this.options)
+      : LoaderFactory.create(CONTENT_TYPE_EXTENSIONS[contentType] || '.txt', this.options);
+
+    return loader.parse(Buffer.from(response.data), url);
+  }
+
+  /**
+   * Replace directories with the supported files inside them
+   */
+  private async expandSources(sources: string[]): Promise<string[]> {
+    const expanded: string[] = [];
+
+    for (const source of sources) {
+      if (/^https?:\/\//i.test(source)) {
+        expanded.push(source);
+        continue;
+      }
+
+      const filePath = this.toFilePath(source);
+      const stats = await fs.promises.stat(filePath).catch(() => undefined);
+
+      if (stats?.isDirectory()) {
+        expanded.push(...await this.listDirectory(filePath));
+      } else {
+        // Missing and unsupported files are reported when loading them
+        expanded.push(filePath);
+      }
+    }
+
+    return Array.from(new Set(expanded));
+  }
+
+  private async listDirectory(directory: string): Promise<string[]> {
+    const files: string[] = [];
+    const entries = await fs.promises.readdir(directory, { withFileTypes: true });
+
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      // Skip hidden files and folders such as .git
+      if (entry.name.startsWith('.')) {
+        continue;
+      }
+
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        if (this.options.recursive) {
+          files.push(...await this.listDirectory(entryPath));
+        }
+      } else if (LoaderFactory.isSupported(entryPath)) {
+        files.push(entryPath);
+      }
+    }
+
+    return files;
+  }
+
+  private toFilePath(source: string): string {
+    return path.resolve(source.startsWith('file://') ? fileURLToPath(source) : source);
+  }
+}
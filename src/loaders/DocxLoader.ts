@@ -0,0 +1,19 @@
+import * as mammoth from 'mammoth';
+import { BaseLoader } from './BaseLoader';
+import { LoadedDocument } from '../types';
+
+export class DocxLoader extends BaseLoader {
+  async parse(data: Buffer, source: string): Promise<LoadedDocument> {
+    const result = await mammoth.extractRawText({ buffer: data });
+
+    // The first non-empty paragraph of a Word document is usually its title
+    const text = this.cleanText(result.value);
+    const firstLine = text.split('\n').find(line => line.trim().length > 0);
+
+    return this.createDocument(
+      source,
+      text,
+      firstLine && firstLine.length <= 200 ? firstLine : undefined
+    );
+  }
+}
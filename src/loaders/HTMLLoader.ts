@@ -0,0 +1,24 @@
+import * as cheerio from 'cheerio';
+import { BaseLoader } from './BaseLoader';
+import { LoadedDocument } from '../types';
+
+export class HTMLLoader extends BaseLoader {
+  async parse(data: Buffer, source: string): Promise<LoadedDocument> {
+    const $ = cheerio.load(data.toString(this.config.encoding));
+
+    $('script, style, noscript, nav, header, footer, svg').remove();
+
+    // Put block elements on their own lines so paragraphs survive text extraction
+    $('p, div, li, tr, br, h1, h2, h3, h4, h5, h6, section, article').after('\n');
+
+    const title = $('title').first().text() || $('h1').first().text();
+    const description = $('meta[name="description"]').attr('content');
+
+    return this.createDocument(
+      source,
+      this.cleanText($('body').length ? $('body').text() : $.root().text()),
+      title,
+      description ? { description } : undefined
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { BaseLoader } from './BaseLoader';
+import { LoadedDocument } from '../types';
+
+export class MarkdownLoader extends BaseLoader {
+  async parse(data: Buffer, source: string): Promise<LoadedDocument> {
+    let text = data.toString(this.config.encoding).replace(/\r\n?/g, '\n');
+    let metadata: Record<string, any> | undefined;
+
+    // Front matter carries metadata rather than content
+    const frontMatter = text.match(/^---\n([\s\S]*?)\n---\n/);
+    if (frontMatter) {
+      metadata = this.parseFrontMatter(frontMatter[1]);
+      text = text.slice(frontMatter[0].length);
+    }
+
+    // Markdown is kept as is, since models read it well
+    const heading = text.match(/^#\s+(.+)$/m);
+    return this.createDocument(
+      source,
+      text.replace(/\n{3,}/g, '\n\n').trim(),
+      metadata?.title || heading?.[1],
+      metadata
+    );
+  }
+
+  private parseFrontMatter(block: string): Record<string, any> {
+    const metadata: Record<string, any> = {};
+
+    for (const line of block.split('\n')) {
+      const match = line.match(/^([\w-]+):\s*(.*)$/);
+      if (match) {
+        metadata[match[1]] = match[2].replace(/^["']|["']$/g, '');
+      }
+    }
+
+    return metadata;
+  }
+}
@@ -0,0 +1,18 @@
+import { BaseLoader } from './BaseLoader';
+import { LoadedDocument } from '../types';
+
+export class PDFLoader extends BaseLoader {
+  async parse(data: Buffer, source: string): Promise<LoadedDocument> {
+    // pdf.js is large, so only load it once a PDF needs parsing. The package index
+    // parses a test file from the working directory when imported, so skip it.
+    const { default: pdfParse } = await import('pdf-parse/lib/pdf-parse.js');
+    // pdf.js clones a Buffer into Node's shared pool and then ignores its offset
+    const pdf = await pdfParse(new Uint8Array(data));
+
+    return this.createDocument(source, this.cleanText(pdf.text), pdf.info?.Title, {
+      pages: pdf.numpages,
+      author: pdf.info?.Author,
+      createdAt: pdf.info?.CreationDate
+    });
+  }
+}
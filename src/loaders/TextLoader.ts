@@ -0,0 +1,8 @@
+import { BaseLoader } from './BaseLoader';
+import { LoadedDocument } from '../types';
+
+export class TextLoader extends BaseLoader {
+  async parse(data: Buffer, source: string): Promise<LoadedDocument> {
+    return this.createDocument(source, this.cleanText(data.toString(this.config.encoding)));
+  }
+}
@@ -0,0 +1,26 @@
+// Export all document loaders
+export { BaseLoader, LoaderConfig, LoaderFactory, sourcePath } from './BaseLoader';
+export { TextLoader } from './TextLoader';
+export { MarkdownLoader } from './MarkdownLoader';
+export { HTMLLoader } from './HTMLLoader';
+export { CSVLoader, CSVLoaderConfig } from './CSVLoader';
+export { PDFLoader } from './PDFLoader';
+export { DocxLoader } from './DocxLoader';
+export { DocumentLoader, DocumentLoaderOptions } from './DocumentLoader';
+
+// Register loaders with factory
+import { LoaderFactory } from './BaseLoader';
+import { TextLoader } from './TextLoader';
+import { MarkdownLoader } from './MarkdownLoader';
+import { HTMLLoader } from './HTMLLoader';
+import { CSVLoader } from './CSVLoader';
+import { PDFLoader } from './PDFLoader';
+import { DocxLoader } from './DocxLoader';
+
+// Register all loaders by file extension
+LoaderFactory.register('text', TextLoader, ['.txt', '.text', '.log']);
+LoaderFactory.register('markdown', MarkdownLoader, ['.md', '.markdown', '.mdx']);
+LoaderFactory.register('html', HTMLLoader, ['.html', '.htm']);
+LoaderFactory.register('csv', CSVLoader, ['.csv', '.tsv']);
+LoaderFactory.register('pdf', PDFLoader, ['.pdf']);
+LoaderFactory.register('docx', DocxLoader, ['.docx']);
@@ -9,6 +9,12 @@ import { MCPTool } from './types';
 import { LLMProvider } from '../providers/LLMProvider';
 import { ChatMessage } from '../types';
 import { ConsoleOutput } from '../utils/logger';
+import { z } from 'zod';
+
+// JSON modes only produce objects, so the tool list is wrapped in one
+const TOOL_SELECTION_SCHEMA = z.object({
+  tools: z.array(z.string())
+});
 
 export interface ToolSelectionOptions {
   maxTools?: number;
@@ -91,7 +97,7 @@ export class MCPToolSelector {
         role: 'system',
         content: `You are an expert at selecting the most relevant tools for research queries.
 Your task is to analyze the available tools and select the ones that would be most helpful for answering the given query.
-Respond with a JSON array of tool names only.`
+Respond with a JSON object whose "tools" key lists the selected tool names.`
       },
       {
         role: 'user',
@@ -100,12 +106,12 @@ Respond with a JSON array of tool names only.`
     ];
     
     try {
-      const response = await this.llmProvider.createChatCompletion(messages, {
+      const response = await this.llmProvider.createStructuredCompletion(messages, TOOL_SELECTION_SCHEMA, {
         temperature: 0.3,
         maxTokens: 200
       });
       
-      return this.parseSelectedTools(response, tools);
+      return this.resolveSelectedTools(response.tools, tools);
       
     } catch (error) {
       ConsoleOutput.error(`LLM tool selection failed: ${error}`);
@@ -147,40 +153,25 @@ Constraints:
 ${constraints}
 
 Select the most relevant tools for this research query.
-Respond with a JSON array containing only the tool names.
+Respond with a JSON object containing only the tool names.
 
-Example response: ["tool1", "tool2", "tool3"]`;
+Example response: {"tools": ["tool1", "tool2", "tool3"]}`;
   }
 
   /**
-   * Parse LLM response to extract selected tool names
+   * Map tool names chosen by the LLM to the available tools
    */
-  private parseSelectedTools(response: string, availableTools: MCPTool[]): MCPTool[] {
-    try {
-      // Try to extract JSON array from response
-      const jsonMatch = response.match(/\[.*?\]/s);
-      
-      if (!jsonMatch) {
-        throw new Error('No JSON array found in response');
-      }
-      
-      const selectedNames: string[] = JSON.parse(jsonMatch[0]);
-      
-      // Map names to tool objects
-      const selectedTools = selectedNames
-        .map(name => availableTools.find(t => t.name === name))
-        .filter((tool): tool is MCPTool => tool !== undefined);
-      
-      if (selectedTools.length === 0) {
-        throw new Error('No valid tools found in LLM response');
-      }
-      
-      return selectedTools;
-      
-    } catch (error) {
-      ConsoleOutput.error(`Failed to parse LLM tool selection: ${error}`);
-      throw error;
+  private resolveSelectedTools(selectedNames: string[], availableTools: MCPTool[]): MCPTool[] {
+    const selectedTools = selectedNames
+      .map(name => availableTools.find(t => t.name === name))
+      .filter((tool): tool is MCPTool => tool !== undefined);
+    
+    if (selectedTools.length === 0) {
+      ConsoleOutput.error('Failed to parse LLM tool selection: no valid tools found in LLM response');
+      throw new Error('No valid tools found in LLM response');
     }
+    
+    return selectedTools;
   }
 
   /**
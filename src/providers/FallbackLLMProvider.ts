@@ -0,0 +1,283 @@
+import { ChatMessage, ChatOptions, EmbeddingOptions, LLMCosts, ToolCompletion } from '../types';
+import { LLMProvider, LLMProviderConfig } from './LLMProvider';
+
+export interface FallbackProviderEntry {
+  name: string;
+  provider: LLMProvider;
+  model?: string; // Replaces the caller's model for this provider; passed through when omitted
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number; // Consecutive failures before a provider's circuit opens
+  resetTimeout?: number; // Milliseconds before an open circuit lets a trial request through
+}
+
+export interface FallbackLLMProviderConfig extends LLMProviderConfig, CircuitBreakerOptions {
+  providers: FallbackProviderEntry[];
+  circuitBreaker?: CircuitBreaker; // Share breaker state between several fallback chains
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Tracks consecutive failures per provider name and stops sending requests to a
+ * provider for a while once it keeps failing
+ */
+export class CircuitBreaker {
+  private circuits: Map<string, { failures: number; openedAt?: number }> = new Map();
+  private failureThreshold: number;
+  private resetTimeout: number;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 3;
+    this.resetTimeout = options.resetTimeout ?? 60000;
+  }
+
+  getState(name: string): CircuitState {
+    const circuit = this.circuits.get(name);
+    if (circuit?.openedAt === undefined) {
+      return 'closed';
+    }
+    return Date.now() - circuit.openedAt >= this.resetTimeout ? 'half-open' : 'open';
+  }
+
+  recordSuccess(name: string): void {
+    this.circuits.delete(name);
+  }
+
+  /**
+   * Count a failure, returning the time the provider may be retried if its circuit opened
+   */
+  recordFailure(name: string): Date | undefined {
+    const wasHalfOpen = this.getState(name) === 'half-open';
+    const circuit = this.circuits.get(name) || { failures: 0 };
+    circuit.failures++;
+    this.circuits.set(name, circuit);
+
+    // A failed trial request re-opens the circuit straight away
+    if (wasHalfOpen || circuit.failures >= this.failureThreshold) {
+      circuit.openedAt = Date.now();
+      return new Date(circuit.openedAt + this.resetTimeout);
+    }
+    return undefined;
+  }
+
+  getFailures(name: string): number {
+    return this.circuits.get(name)?.failures || 0;
+  }
+}
+
+/**
+ * Composite provider that tries an ordered list of providers, failing over on
+ * rate limits, server errors and timeouts, with a circuit breaker per provider
+ */
+export class FallbackLLMProvider extends LLMProvider {
+  private entries: FallbackProviderEntry[];
+  private circuitBreaker: CircuitBreaker;
+
+  constructor(config: FallbackLLMProviderConfig) {
+    super(config);
+
+    if (config.providers.length === 0) {
+      throw new Error('FallbackLLMProvider needs at least one provider');
+    }
+
+    this.entries = config.providers;
+    this.circuitBreaker = config.circuitBreaker || new CircuitBreaker(config);
+
+    for (const { provider } of this.entries) {
+      provider.on('usage', usage => this.emit('usage', usage));
+      // Errors from individual providers are handled by failing over
+      provider.on('error', () => undefined);
+    }
+  }
+
+  protected initializeModelCosts(): void {
+    // Costs come from the wrapped providers, see calculateCost
+  }
+
+  public calculateCost(inputTokens: number, outputTokens: number, model: string): LLMCosts {
+    for (const { provider } of this.entries) {
+      const cost = provider.calculateCost(inputTokens, outputTokens, model);
+      if (cost.totalCost > 0) {
+        return cost;
+      }
+    }
+    return super.calculateCost(inputTokens, outputTokens, model);
+  }
+
+  async createChatCompletion(
+    messages: ChatMessage[],
+    options?: ChatOptions
+  ): Promise<string> {
+    return this.withFailover(entry =>
+      entry.provider.createChatCompletion(messages, this.optionsFor(entry, options))
+    );
+  }
+
+  /**
+   * Tool completions only go to providers that support tool calling
+   */
+  async createToolCompletion(
+    messages: ChatMessage[],
+    options?: ChatOptions
+  ): Promise<ToolCompletion> {
+    if (!this.supportsToolCalling()) {
+      return super.createToolCompletion(messages, options);
+    }
+    return this.withFailover(
+      entry => entry.provider.createToolCompletion(messages, this.optionsFor(entry, options)),
+      entry => entry.provider.supportsToolCalling()
+    );
+  }
+
+  public supportsToolCalling(): boolean {
+    return this.entries.some(({ provider }) => provider.supportsToolCalling());
+  }
+
+  async *createChatCompletionStream(
+    messages: ChatMessage[],
+    options?: ChatOptions
+  ): AsyncGenerator<string> {
+    const candidates = this.getAvailableEntries();
+    let lastError: any;
+
+    for (let i = 0; i < candidates.length; i++) {
+      const entry = candidates[i];
+      let started = false;
+
+      try {
+        for await (const chunk of entry.provider.createChatCompletionStream(messages, this.optionsFor(entry, options))) {
+          started = true;
+          yield chunk;
+        }
+        this.recordSuccess(entry);
+        return;
+      } catch (error) {
+        // Once output has been streamed another provider cannot take over seamlessly
+        if (started || !this.isFailoverError(error)) {
+          this.handleError(error);
+        }
+        this.recordFailure(entry, error, candidates[i + 1]);
+        lastError = error;
+      }
+    }
+
+    this.handleError(this.exhaustedError(lastError));
+  }
+
+  /**
+   * Embeddings fail over like completions, but vectors from different providers are
+   * not comparable, so callers mixing them should re-embed their corpus
+   */
+  async createEmbedding(
+    text: string | string[],
+    options?: EmbeddingOptions
+  ): Promise<number[] | number[][]> {
+    if (!this.supportsEmbeddings()) {
+      return this.handleError(new Error('Embeddings are not supported by any fallback provider'));
+    }
+    return this.withFailover(
+      entry => entry.provider.createEmbedding(text, options),
+      entry => entry.provider.supportsEmbeddings()
+    );
+  }
+
+  public supportsEmbeddings(): boolean {
+    return this.entries.some(({ provider }) => provider.supportsEmbeddings());
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    const models = await Promise.all(
+      this.entries.map(({ provider }) => provider.getAvailableModels().catch(() => [] as string[]))
+    );
+    return Array.from(new Set(models.flat())).sort();
+  }
+
+  /**
+   * Report whether each provider's circuit is closed, open or letting a trial request through
+   */
+  public getCircuitStates(): Record<string, CircuitState> {
+    const states: Record<string, CircuitState> = {};
+    for (const { name } of this.entries) {
+      states[name] = this.circuitBreaker.getState(name);
+    }
+    return states;
+  }
+
+  private async withFailover<T>(
+    fn: (entry: FallbackProviderEntry) => Promise<T>,
+    accepts: (entry: FallbackProviderEntry) => boolean = () => true
+  ): Promise<T> {
+    const candidates = this.getAvailableEntries().filter(accepts);
+    let lastError: any;
+
+    for (let i = 0; i < candidates.length; i++) {
+      const entry = candidates[i];
+
+      try {
+        const result = await fn(entry);
+        this.recordSuccess(entry);
+        return result;
+      } catch (error) {
+        if (!this.isFailoverError(error)) {
+          return this.handleError(error);
+        }
+        this.recordFailure(entry, error, candidates[i + 1]);
+        lastError = error;
+      }
+    }
+
+    return this.handleError(this.exhaustedError(lastError));
+  }
+
+  private getAvailableEntries(): FallbackProviderEntry[] {
+    return this.entries.filter(({ name }) => this.circuitBreaker.getState(name) !== 'open');
+  }
+
+  private recordSuccess(entry: FallbackProviderEntry): void {
+    this.circuitBreaker.recordSuccess(entry.name);
+  }
+
+  private recordFailure(entry: FallbackProviderEntry, error: any, next?: FallbackProviderEntry): void {
+    const retryAt = this.circuitBreaker.recordFailure(entry.name);
+    if (retryAt) {
+      this.emit('circuit_open', {
+        provider: entry.name,
+        failures: this.circuitBreaker.getFailures(entry.name),
+        retryAt
+      });
+    }
+
+    if (next) {
+      this.emit('failover', {
+        from: entry.name,
+        to: next.name,
+        statusCode: this.getStatusCode(error),
+        error: error?.message
+      });
+    }
+  }
+
+  private isFailoverError(error: any): boolean {
+    const statusCode = this.getStatusCode(error);
+    if (statusCode === 408 || statusCode === 429 || (statusCode !== undefined && statusCode >= 500)) {
+      return true;
+    }
+    return /timed? ?out|ETIMEDOUT|ECONNRESET|ECONNREFUSED/i.test(`${error?.code || ''} ${error?.message || ''}`);
+  }
+
+  private exhaustedError(lastError: any): any {
+    const error = new Error(
+      lastError
+        ? `All LLM providers failed, last error: ${lastError.message}`
+        : 'All LLM providers are unavailable (circuits open)'
+    ) as any;
+    error.statusCode = this.getStatusCode(lastError) || 503;
+    return error;
+  }
+
+  private optionsFor(entry: FallbackProviderEntry, options?: ChatOptions): ChatOptions | undefined {
+    return entry.model ? { ...options, model: entry.model } : options;
+  }
+}
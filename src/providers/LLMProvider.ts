@@ -1,12 +1,23 @@
-import { ChatMessage, ChatOptions, EmbeddingOptions, LLMCosts } from '../types';
+import {
+  ChatMessage,
+  ChatOptions,
+  EmbeddingOptions,
+  LLMCosts,
+  StructuredCompletionOptions,
+  ToolCompletion
+} from '../types';
 import { EventEmitter } from 'events';
+import { z } from 'zod';
+import { countTokens, truncateToTokens } from '../utils/tokenizer';
+import { parseJsonLoose } from '../utils/json';
 
 export interface LLMProviderConfig {
-  apiKey: string;
+  apiKey?: string; // Optional for local providers such as Ollama
   baseURL?: string;
   organization?: string;
   timeout?: number;
   maxRetries?: number;
+  fetch?: typeof fetch; // Custom HTTP transport (proxies, tests)
 }
 
 export abstract class LLMProvider extends EventEmitter {
@@ -41,17 +52,115 @@ export abstract class LLMProvider extends EventEmitter {
   // Common methods with default implementations
   protected abstract initializeModelCosts(): void;
   
+  /**
+   * Get a completion that may request calls to the tools passed in options.tools.
+   * Providers with native tool calling override this
+   */
+  public async createToolCompletion(
+    _messages: ChatMessage[],
+    _options?: ChatOptions
+  ): Promise<ToolCompletion> {
+    return this.handleError(new Error(`Tool calling is not supported by ${this.constructor.name}`));
+  }
+  
+  /** Whether createToolCompletion is implemented */
+  public supportsToolCalling(): boolean {
+    return false;
+  }
+  
+  /** Whether createEmbedding is implemented */
+  public supportsEmbeddings(): boolean {
+    return true;
+  }
+  
+  /**
+   * Get a completion parsed and validated against a zod schema. Invalid output is
+   * repaired where possible, otherwise the model is re-prompted with the problems found
+   */
+  public async createStructuredCompletion<T>(
+    messages: ChatMessage[],
+    schema: z.ZodType<T, z.ZodTypeDef, any>,
+    options?: StructuredCompletionOptions
+  ): Promise<T> {
+    const { maxRepairAttempts = 2, ...chatOptions } = options || {};
+    const conversation: ChatMessage[] = [...messages];
+    
+    // Native JSON modes insist that the prompt asks for JSON
+    if (!messages.some(message => /json/i.test(message.content))) {
+      conversation.unshift({ role: 'system', content: 'Respond with valid JSON only.' });
+    }
+    
+    let problems = '';
+    for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+      const response = await this.createChatCompletion(conversation, {
+        ...chatOptions,
+        responseFormat: 'json'
+      });
+      
+      const result = this.parseStructuredResponse(response, schema);
+      if (result.success) {
+        return result.data;
+      }
+      
+      problems = result.problems;
+      conversation.push(
+        { role: 'assistant', content: response },
+        {
+          role: 'user',
+          content: `Your response was not valid: ${problems}\nRespond again with only the corrected JSON.`
+        }
+      );
+    }
+    
+    const error = new Error(`Structured output did not match the schema: ${problems}`) as any;
+    error.statusCode = 422;
+    return this.handleError(error);
+  }
+  
+  protected parseStructuredResponse<T>(
+    response: string,
+    schema: z.ZodType<T, z.ZodTypeDef, any>
+  ): { success: true; data: T } | { success: false; problems: string } {
+    let value: unknown;
+    try {
+      value = parseJsonLoose(response);
+    } catch (error: any) {
+      return { success: false, problems: `invalid JSON (${error.message})` };
+    }
+    
+    const parsed = schema.safeParse(value);
+    if (parsed.success) {
+      return { success: true, data: parsed.data };
+    }
+    
+    return {
+      success: false,
+      problems: parsed.error.issues
+        .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ')
+    };
+  }
+  
   public estimateCost(
     input: string,
     output: string,
     model: string
+  ): LLMCosts {
+    return this.calculateCost(
+      this.countTokens(input, model),
+      this.countTokens(output, model),
+      model
+    );
+  }
+  
+  /** Price token counts, such as those reported in usage events */
+  public calculateCost(
+    inputTokens: number,
+    outputTokens: number,
+    model: string
   ): LLMCosts {
     const costs = this.modelCosts.get(model) || { input: 0, output: 0 };
     
-    // Rough token estimation (1 token ≈ 4 characters)
-    const inputTokens = Math.ceil(input.length / 4);
-    const outputTokens = Math.ceil(output.length / 4);
-    
     const inputCost = (inputTokens / 1000) * costs.input;
     const outputCost = (outputTokens / 1000) * costs.output;
     
@@ -77,7 +186,7 @@ export abstract class LLMProvider extends EventEmitter {
                         error?.message || 
                         'Unknown error occurred';
     
-    const statusCode = error?.response?.status || 500;
+    const statusCode = this.getStatusCode(error) || 500;
     
     const customError = new Error(errorMessage) as any;
     customError.statusCode = statusCode;
@@ -87,6 +196,14 @@ export abstract class LLMProvider extends EventEmitter {
     throw customError;
   }
   
+  protected getStatusCode(error: any): number | undefined {
+    // SDKs expose the HTTP status under different property names
+    return error?.response?.status ||
+           error?.status ||
+           error?.statusCode ||
+           error?.status_code;
+  }
+  
   protected async retry<T>(
     fn: () => Promise<T>,
     retries: number = 3,
@@ -95,7 +212,7 @@ export abstract class LLMProvider extends EventEmitter {
     try {
       return await fn();
     } catch (error: any) {
-      if (retries === 0 || error?.statusCode === 401) {
+      if (retries === 0 || this.getStatusCode(error) === 401) {
         throw error;
       }
       
@@ -105,21 +222,12 @@ export abstract class LLMProvider extends EventEmitter {
   }
   
   // Token counting utilities
-  protected countTokens(text: string): number {
-    // This is a rough approximation
-    // For accurate counting, use tiktoken or the provider's tokenizer
-    return Math.ceil(text.length / 4);
+  protected countTokens(text: string, model?: string): number {
+    return countTokens(text, model);
   }
   
-  protected truncateToTokenLimit(text: string, maxTokens: number): string {
-    const estimatedTokens = this.countTokens(text);
-    if (estimatedTokens <= maxTokens) {
-      return text;
-    }
-    
-    // Rough truncation based on character count
-    const maxChars = maxTokens * 4;
-    return text.substring(0, maxChars);
+  protected truncateToTokenLimit(text: string, maxTokens: number, model?: string): string {
+    return truncateToTokens(text, maxTokens, model);
   }
 }
 
@@ -0,0 +1,27 @@
+import { LLMRole } from '../types';
+import { LLMProvider } from './LLMProvider';
+
+export const LLM_ROLES: LLMRole[] = ['fast', 'smart', 'strategic'];
+
+// Skills accept either a single provider for every role or a router
+export type LLMProviderSource = LLMProvider | LLMRouter;
+
+/**
+ * Binds each model role (fast/smart/strategic) to the provider that serves it
+ */
+export class LLMRouter {
+  private roles: Map<LLMRole, LLMProvider>;
+
+  constructor(roles: Record<LLMRole, LLMProvider>) {
+    this.roles = new Map(LLM_ROLES.map(role => [role, roles[role]]));
+  }
+
+  /** Get the provider bound to a role */
+  forRole(role: LLMRole): LLMProvider {
+    return this.roles.get(role)!;
+  }
+}
+
+export function resolveProvider(source: LLMProviderSource, role: LLMRole): LLMProvider {
+  return source instanceof LLMRouter ? source.forRole(role) : source;
+}
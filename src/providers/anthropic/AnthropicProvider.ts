@@ -0,0 +1,271 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { ChatMessage, ChatOptions, EmbeddingOptions, ToolCall, ToolCompletion } from '../../types';
+import { LLMProvider, LLMProviderConfig } from '../LLMProvider';
+
+export class AnthropicProvider extends LLMProvider {
+  private client: Anthropic;
+
+  constructor(config: LLMProviderConfig) {
+    super(config);
+
+    this.client = new Anthropic({
+      apiKey: config.apiKey,
+      baseURL: config.baseURL,
+      timeout: config.timeout || 60000,
+      maxRetries: config.maxRetries || 3,
+      fetch: config.fetch as any
+    });
+  }
+
+  protected initializeModelCosts(): void {
+    // Costs in $ per 1000 tokens (as of 2024)
+    this.modelCosts.set('claude-3-5-sonnet-20240620', { input: 0.003, output: 0.015 });
+    this.modelCosts.set('claude-3-opus-20240229', { input: 0.015, output: 0.075 });
+    this.modelCosts.set('claude-3-sonnet-20240229', { input: 0.003, output: 0.015 });
+    this.modelCosts.set('claude-3-haiku-20240307', { input: 0.00025, output: 0.00125 });
+    this.modelCosts.set('claude-2.1', { input: 0.008, output: 0.024 });
+    this.modelCosts.set('claude-instant-1.2', { input: 0.0008, output: 0.0024 });
+  }
+
+  async createChatCompletion(
+    messages: ChatMessage[],
+    options?: ChatOptions
+  ): Promise<string> {
+    try {
+      const model = options?.model || 'claude-3-5-sonnet-20240620';
+      const { system, messages: anthropicMessages } = this.convertMessages(messages);
+
+      const response = await this.retry(() =>
+        this.client.messages.create({
+          model,
+          system,
+          messages: anthropicMessages,
+          max_tokens: options?.maxTokens || 4096,
+          temperature: options?.temperature ?? 0.7,
+          top_p: options?.topP,
+          stop_sequences: options?.stop
+        })
+      );
+
+      const content = response.content
+        .map(block => (block.type === 'text' ? block.text : ''))
+        .join('');
+      if (!content) {
+        throw new Error('No response content from Anthropic');
+      }
+
+      // Emit token usage for cost tracking
+      this.emit('usage', {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+        totalTokens: response.usage.input_tokens + response.usage.output_tokens,
+        model
+      });
+
+      return content;
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  async *createChatCompletionStream(
+    messages: ChatMessage[],
+    options?: ChatOptions
+  ): AsyncGenerator<string> {
+    try {
+      const model = options?.model || 'claude-3-5-sonnet-20240620';
+      const { system, messages: anthropicMessages } = this.convertMessages(messages);
+
+      const stream = await this.client.messages.create({
+        model,
+        system,
+        messages: anthropicMessages,
+        max_tokens: options?.maxTokens || 4096,
+        temperature: options?.temperature ?? 0.7,
+        top_p: options?.topP,
+        stop_sequences: options?.stop,
+        stream: true
+      });
+
+      let inputTokens = 0;
+      let outputTokens = 0;
+
+      for await (const event of stream) {
+        if (event.type === 'message_start') {
+          inputTokens = event.message.usage.input_tokens;
+        } else if (event.type === 'message_delta') {
+          outputTokens = event.usage.output_tokens;
+        } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          yield event.delta.text;
+        }
+      }
+
+      // Usage is only known once the stream has finished
+      this.emit('usage', {
+        inputTokens,
+        outputTokens,
+        totalTokens: inputTokens + outputTokens,
+        model
+      });
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  public supportsToolCalling(): boolean {
+    return true;
+  }
+
+  async createToolCompletion(
+    messages: ChatMessage[],
+    options?: ChatOptions
+  ): Promise<ToolCompletion> {
+    try {
+      const model = options?.model || 'claude-3-5-sonnet-20240620';
+      const { system, messages: anthropicMessages } = this.convertMessages(messages);
+      // The Messages API has no 'none' choice, so leave the tools out instead
+      const tools = options?.toolChoice === 'none' ? [] : options?.tools || [];
+
+      const response = await this.retry(() =>
+        this.client.messages.create({
+          model,
+          system,
+          messages: anthropicMessages,
+          max_tokens: options?.maxTokens || 4096,
+          temperature: options?.temperature ?? 0.7,
+          top_p: options?.topP,
+          stop_sequences: options?.stop,
+          ...(tools.length > 0
+            ? {
+              tools: tools.map(tool => ({
+                name: tool.name,
+                description: tool.description,
+                input_schema: tool.parameters
+              })),
+              tool_choice: { type: options?.toolChoice === 'required' ? 'any' as const : 'auto' as const }
+            }
+            : {})
+        })
+      );
+
+      this.emit('usage', {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+        totalTokens: response.usage.input_tokens + response.usage.output_tokens,
+        model
+      });
+
+      const toolCalls: ToolCall[] = [];
+      let content = '';
+      for (const block of response.content) {
+        if (block.type === 'text') {
+          content += block.text;
+        } else if (block.type === 'tool_use') {
+          toolCalls.push({
+            id: block.id,
+            name: block.name,
+            arguments: (block.input as Record<string, any>) || {}
+          });
+        }
+      }
+
+      return { content, toolCalls };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  public supportsEmbeddings(): boolean {
+    return false;
+  }
+
+  async createEmbedding(
+    _text: string | string[],
+    _options?: EmbeddingOptions
+  ): Promise<number[] | number[][]> {
+    // Anthropic does not offer an embeddings endpoint
+    return this.handleError(new Error('Embeddings are not supported by the Anthropic provider'));
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    // The Messages API has no model listing endpoint, so report the models we know about
+    return Array.from(this.modelCosts.keys()).sort();
+  }
+
+  /**
+   * Map our chat messages onto the Messages API format.
+   * System prompts are passed separately, and consecutive messages with the
+   * same role are merged because the API expects user/assistant turns to alternate.
+   * Tool calls become tool_use blocks and tool results tool_result blocks in a user turn.
+   */
+  private convertMessages(messages: ChatMessage[]): {
+    system?: string;
+    messages: Anthropic.MessageParam[];
+  } {
+    const systemPrompts: string[] = [];
+    const converted: Anthropic.MessageParam[] = [];
+
+    for (const message of messages) {
+      if (message.role === 'system') {
+        systemPrompts.push(message.content);
+        continue;
+      }
+
+      // Function and tool results are fed back to the model as user turns
+      const role = message.role === 'assistant' ? 'assistant' : 'user';
+      const content = this.convertContent(message);
+
+      const previous = converted[converted.length - 1];
+      if (previous && previous.role === role) {
+        previous.content = this.mergeContent(previous.content, content);
+      } else {
+        converted.push({ role, content });
+      }
+    }
+
+    // The conversation must open with a user turn
+    if (converted.length === 0 || converted[0].role !== 'user') {
+      converted.unshift({ role: 'user', content: 'Continue.' });
+    }
+
+    return {
+      system: systemPrompts.length > 0 ? systemPrompts.join('\n\n') : undefined,
+      messages: converted
+    };
+  }
+
+  private convertContent(message: ChatMessage): Anthropic.MessageParam['content'] {
+    if (message.role === 'tool') {
+      return [{ type: 'tool_result', tool_use_id: message.toolCallId || '', content: message.content }];
+    }
+
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      return [
+        ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+        ...message.toolCalls.map(call => ({
+          type: 'tool_use' as const,
+          id: call.id,
+          name: call.name,
+          input: call.arguments
+        }))
+      ];
+    }
+
+    return message.role === 'function'
+      ? `Result of ${message.name || 'function'}:\n${message.content}`
+      : message.content;
+  }
+
+  private mergeContent(
+    previous: Anthropic.MessageParam['content'],
+    next: Anthropic.MessageParam['content']
+  ): Anthropic.MessageParam['content'] {
+    if (typeof previous === 'string' && typeof next === 'string') {
+      return `${previous}\n\n${next}`;
+    }
+
+    const toBlocks = (content: Anthropic.MessageParam['content']) =>
+      typeof content === 'string' ? [{ type: 'text' as const, text: content }] : content;
+    return [...toBlocks(previous), ...toBlocks(next)];
+  }
+}
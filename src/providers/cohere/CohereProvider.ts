@@ -0,0 +1,171 @@
+import { CohereClient, Cohere } from 'cohere-ai';
+import { ChatMessage, ChatOptions, EmbeddingOptions } from '../../types';
+import { LLMProvider, LLMProviderConfig } from '../LLMProvider';
+
+export class CohereProvider extends LLMProvider {
+  private client: CohereClient;
+
+  constructor(config: LLMProviderConfig) {
+    super(config);
+
+    this.client = new CohereClient({
+      token: config.apiKey,
+      environment: config.baseURL
+    });
+  }
+
+  protected initializeModelCosts(): void {
+    // Costs in $ per 1000 tokens (as of 2024)
+    this.modelCosts.set('command-r-plus', { input: 0.0025, output: 0.01 });
+    this.modelCosts.set('command-r', { input: 0.00015, output: 0.0006 });
+    this.modelCosts.set('command', { input: 0.001, output: 0.002 });
+    this.modelCosts.set('command-light', { input: 0.0003, output: 0.0006 });
+    this.modelCosts.set('embed-english-v3.0', { input: 0.0001, output: 0 });
+    this.modelCosts.set('embed-multilingual-v3.0', { input: 0.0001, output: 0 });
+  }
+
+  async createChatCompletion(
+    messages: ChatMessage[],
+    options?: ChatOptions
+  ): Promise<string> {
+    try {
+      const model = options?.model || 'command-r';
+
+      const response = await this.retry(() =>
+        this.client.chat(this.buildRequest(messages, model, options), this.requestOptions())
+      );
+
+      if (!response.text) {
+        throw new Error('No response content from Cohere');
+      }
+
+      this.emitUsage(response.meta, model);
+
+      return response.text;
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  async *createChatCompletionStream(
+    messages: ChatMessage[],
+    options?: ChatOptions
+  ): AsyncGenerator<string> {
+    try {
+      const model = options?.model || 'command-r';
+
+      const stream = await this.client.chatStream(
+        this.buildRequest(messages, model, options),
+        this.requestOptions()
+      );
+
+      for await (const event of stream) {
+        if (event.eventType === 'text-generation') {
+          yield event.text;
+        } else if (event.eventType === 'stream-end') {
+          this.emitUsage(event.response.meta, model);
+        }
+      }
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async createEmbedding(
+    text: string | string[],
+    options?: EmbeddingOptions
+  ): Promise<number[] | number[][]> {
+    try {
+      const model = options?.model || 'embed-english-v3.0';
+      const input = Array.isArray(text) ? text : [text];
+
+      const response = await this.retry(() =>
+        this.client.embed(
+          {
+            texts: input,
+            model,
+            inputType: 'search_document'
+          },
+          this.requestOptions()
+        )
+      );
+
+      const embeddings = response.responseType === 'embeddings_floats'
+        ? response.embeddings
+        : response.embeddings.float || [];
+
+      this.emitUsage(response.meta, model);
+
+      return Array.isArray(text) ? embeddings : embeddings[0];
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    try {
+      const response = await this.client.models.list();
+      return response.models.map(model => model.name || '').filter(Boolean).sort();
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Cohere's chat endpoint takes the latest user message separately from the
+   * history, and system prompts as a preamble
+   */
+  private buildRequest(
+    messages: ChatMessage[],
+    model: string,
+    options?: ChatOptions
+  ): Cohere.ChatRequest {
+    const systemPrompts = messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content);
+    const conversation = messages.filter(message => message.role !== 'system');
+    const lastMessage = conversation.pop();
+
+    const chatHistory: Cohere.Message[] = conversation.map(message =>
+      message.role === 'assistant'
+        ? { role: 'CHATBOT', message: message.content }
+        : { role: 'USER', message: message.content }
+    );
+
+    return {
+      model,
+      message: lastMessage?.content || '',
+      preamble: systemPrompts.length > 0 ? systemPrompts.join('\n\n') : undefined,
+      chatHistory: chatHistory.length > 0 ? chatHistory : undefined,
+      temperature: options?.temperature ?? 0.7,
+      maxTokens: options?.maxTokens,
+      p: options?.topP,
+      frequencyPenalty: options?.frequencyPenalty,
+      presencePenalty: options?.presencePenalty,
+      stopSequences: options?.stop,
+      responseFormat: options?.responseFormat === 'json' ? { type: 'json_object' } : undefined
+    };
+  }
+
+  private requestOptions(): { timeoutInSeconds: number; maxRetries: number } {
+    return {
+      timeoutInSeconds: (this.config.timeout || 60000) / 1000,
+      maxRetries: this.config.maxRetries ?? 3
+    };
+  }
+
+  private emitUsage(meta: Cohere.ApiMeta | undefined, model: string): void {
+    const billed = meta?.billedUnits;
+    if (!billed) {
+      return;
+    }
+
+    // Emit token usage for cost tracking
+    this.emit('usage', {
+      inputTokens: billed.inputTokens || 0,
+      outputTokens: billed.outputTokens || 0,
+      totalTokens: (billed.inputTokens || 0) + (billed.outputTokens || 0),
+      model
+    });
+  }
+}
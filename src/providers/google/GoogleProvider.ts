@@ -0,0 +1,173 @@
+import { GoogleGenerativeAI, Content, GenerationConfig } from '@google/generative-ai';
+import { ChatMessage, ChatOptions, EmbeddingOptions } from '../../types';
+import { LLMProvider, LLMProviderConfig } from '../LLMProvider';
+
+export class GoogleProvider extends LLMProvider {
+  private client: GoogleGenerativeAI;
+
+  constructor(config: LLMProviderConfig) {
+    super(config);
+
+    if (!config.apiKey) {
+      throw new Error('Google API key is required');
+    }
+
+    this.client = new GoogleGenerativeAI(config.apiKey);
+  }
+
+  protected initializeModelCosts(): void {
+    // Costs in $ per 1000 tokens (as of 2024, prompts up to 128k tokens)
+    this.modelCosts.set('gemini-1.5-pro', { input: 0.00125, output: 0.005 });
+    this.modelCosts.set('gemini-1.5-flash', { input: 0.000075, output: 0.0003 });
+    this.modelCosts.set('gemini-1.0-pro', { input: 0.0005, output: 0.0015 });
+    this.modelCosts.set('gemini-pro', { input: 0.0005, output: 0.0015 });
+    this.modelCosts.set('text-embedding-004', { input: 0, output: 0 });
+  }
+
+  async createChatCompletion(
+    messages: ChatMessage[],
+    options?: ChatOptions
+  ): Promise<string> {
+    try {
+      const modelName = options?.model || 'gemini-1.5-flash';
+      const { systemInstruction, contents } = this.convertMessages(messages);
+      const model = this.getModel(modelName, systemInstruction, options);
+
+      const result = await this.retry(() => model.generateContent({ contents }));
+
+      const content = result.response.text();
+      if (!content) {
+        throw new Error('No response content from Google');
+      }
+
+      // Emit token usage for cost tracking
+      const usage = result.response.usageMetadata;
+      if (usage) {
+        this.emit('usage', {
+          inputTokens: usage.promptTokenCount,
+          outputTokens: usage.candidatesTokenCount,
+          totalTokens: usage.totalTokenCount,
+          model: modelName
+        });
+      }
+
+      return content;
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  async *createChatCompletionStream(
+    messages: ChatMessage[],
+    options?: ChatOptions
+  ): AsyncGenerator<string> {
+    try {
+      const modelName = options?.model || 'gemini-1.5-flash';
+      const { systemInstruction, contents } = this.convertMessages(messages);
+      const model = this.getModel(modelName, systemInstruction, options);
+
+      const result = await model.generateContentStream({ contents });
+
+      for await (const chunk of result.stream) {
+        const content = chunk.text();
+        if (content) {
+          yield content;
+        }
+      }
+
+      // The aggregated response carries usage for the whole stream
+      const usage = (await result.response).usageMetadata;
+      if (usage) {
+        this.emit('usage', {
+          inputTokens: usage.promptTokenCount,
+          outputTokens: usage.candidatesTokenCount,
+          totalTokens: usage.totalTokenCount,
+          model: modelName
+        });
+      }
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async createEmbedding(
+    text: string | string[],
+    options?: EmbeddingOptions
+  ): Promise<number[] | number[][]> {
+    try {
+      const modelName = options?.model || 'text-embedding-004';
+      const model = this.client.getGenerativeModel({ model: modelName });
+      const input = Array.isArray(text) ? text : [text];
+
+      const response = await this.retry(() =>
+        model.batchEmbedContents({
+          requests: input.map(item => ({
+            content: { role: 'user', parts: [{ text: item }] }
+          }))
+        })
+      );
+
+      const embeddings = response.embeddings.map(embedding => embedding.values);
+
+      return Array.isArray(text) ? embeddings : embeddings[0];
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    // The SDK has no model listing call, so report the models we know about
+    return Array.from(this.modelCosts.keys()).sort();
+  }
+
+  private getModel(modelName: string, systemInstruction?: string, options?: ChatOptions) {
+    const generationConfig: GenerationConfig = {
+      temperature: options?.temperature ?? 0.7,
+      maxOutputTokens: options?.maxTokens,
+      topP: options?.topP,
+      stopSequences: options?.stop,
+      responseMimeType: options?.responseFormat === 'json' ? 'application/json' : undefined
+    };
+
+    return this.client.getGenerativeModel(
+      {
+        model: modelName,
+        systemInstruction,
+        generationConfig
+      },
+      {
+        baseUrl: this.config.baseURL,
+        timeout: this.config.timeout || 60000
+      }
+    );
+  }
+
+  /**
+   * Gemini takes the system prompt as a separate instruction and
+   * calls the assistant role "model"
+   */
+  private convertMessages(messages: ChatMessage[]): {
+    systemInstruction?: string;
+    contents: Content[];
+  } {
+    const systemPrompts: string[] = [];
+    const contents: Content[] = [];
+
+    for (const message of messages) {
+      if (message.role === 'system') {
+        systemPrompts.push(message.content);
+        continue;
+      }
+
+      contents.push({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }]
+      });
+    }
+
+    return {
+      systemInstruction: systemPrompts.length > 0 ? systemPrompts.join('\n\n') : undefined,
+      contents
+    };
+  }
+}
@@ -0,0 +1,148 @@
+import Groq from 'groq-sdk';
+import { ChatMessage, ChatOptions, EmbeddingOptions } from '../../types';
+import { LLMProvider, LLMProviderConfig } from '../LLMProvider';
+
+export class GroqProvider extends LLMProvider {
+  private client: Groq;
+
+  constructor(config: LLMProviderConfig) {
+    super(config);
+
+    this.client = new Groq({
+      apiKey: config.apiKey,
+      baseURL: config.baseURL,
+      timeout: config.timeout || 60000,
+      maxRetries: config.maxRetries || 3,
+      fetch: config.fetch as any
+    });
+  }
+
+  protected initializeModelCosts(): void {
+    // Costs in $ per 1000 tokens (as of 2024)
+    this.modelCosts.set('llama-3.1-70b-versatile', { input: 0.00059, output: 0.00079 });
+    this.modelCosts.set('llama-3.1-8b-instant', { input: 0.00005, output: 0.00008 });
+    this.modelCosts.set('llama3-70b-8192', { input: 0.00059, output: 0.00079 });
+    this.modelCosts.set('llama3-8b-8192', { input: 0.00005, output: 0.00008 });
+    this.modelCosts.set('mixtral-8x7b-32768', { input: 0.00024, output: 0.00024 });
+    this.modelCosts.set('gemma2-9b-it', { input: 0.0002, output: 0.0002 });
+  }
+
+  async createChatCompletion(
+    messages: ChatMessage[],
+    options?: ChatOptions
+  ): Promise<string> {
+    try {
+      const model = options?.model || 'llama-3.1-8b-instant';
+
+      const response = await this.retry(() =>
+        this.client.chat.completions.create({
+          model,
+          messages: this.convertMessages(messages),
+          stream: false,
+          temperature: options?.temperature ?? 0.7,
+          max_tokens: options?.maxTokens,
+          top_p: options?.topP,
+          frequency_penalty: options?.frequencyPenalty,
+          presence_penalty: options?.presencePenalty,
+          stop: options?.stop,
+          response_format: options?.responseFormat === 'json' ? { type: 'json_object' } : undefined
+        })
+      );
+
+      const content = response.choices[0]?.message?.content;
+      if (!content) {
+        throw new Error('No response content from Groq');
+      }
+
+      // Emit token usage for cost tracking
+      if (response.usage) {
+        this.emit('usage', {
+          inputTokens: response.usage.prompt_tokens || 0,
+          outputTokens: response.usage.completion_tokens || 0,
+          totalTokens: response.usage.total_tokens || 0,
+          model
+        });
+      }
+
+      return content;
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  async *createChatCompletionStream(
+    messages: ChatMessage[],
+    options?: ChatOptions
+  ): AsyncGenerator<string> {
+    try {
+      const model = options?.model || 'llama-3.1-8b-instant';
+
+      const stream = await this.client.chat.completions.create({
+        model,
+        messages: this.convertMessages(messages),
+        stream: true,
+        temperature: options?.temperature ?? 0.7,
+        max_tokens: options?.maxTokens,
+        top_p: options?.topP,
+        frequency_penalty: options?.frequencyPenalty,
+        presence_penalty: options?.presencePenalty,
+        stop: options?.stop,
+        response_format: options?.responseFormat === 'json' ? { type: 'json_object' } : undefined
+      });
+
+      for await (const chunk of stream) {
+        const content = chunk.choices[0]?.delta?.content;
+        if (content) {
+          yield content;
+        }
+
+        // Groq reports usage on the final chunk under x_groq
+        const usage = chunk.x_groq?.usage;
+        if (usage) {
+          this.emit('usage', {
+            inputTokens: usage.prompt_tokens || 0,
+            outputTokens: usage.completion_tokens || 0,
+            totalTokens: usage.total_tokens || 0,
+            model
+          });
+        }
+      }
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  public supportsEmbeddings(): boolean {
+    return false;
+  }
+
+  async createEmbedding(
+    _text: string | string[],
+    _options?: EmbeddingOptions
+  ): Promise<number[] | number[][]> {
+    // Groq does not offer an embeddings endpoint
+    return this.handleError(new Error('Embeddings are not supported by the Groq provider'));
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    try {
+      const response = await this.client.models.list();
+      return (response.data || [])
+        .map(model => model.id)
+        .filter((id): id is string => Boolean(id))
+        .sort();
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  private convertMessages(messages: ChatMessage[]): { role: string; content: string; name?: string }[] {
+    return messages.map(message => ({
+      // Groq follows the OpenAI format but has no legacy function role, and tool
+      // results cannot be sent without the tool calls they answer
+      role: message.role === 'function' || message.role === 'tool' ? 'user' : message.role,
+      content: message.content,
+      name: message.name
+    }));
+  }
+}
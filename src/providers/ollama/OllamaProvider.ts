@@ -0,0 +1,157 @@
+import { Ollama } from 'ollama';
+import { ChatMessage, ChatOptions, EmbeddingOptions } from '../../types';
+import { LLMProvider, LLMProviderConfig } from '../LLMProvider';
+
+export class OllamaProvider extends LLMProvider {
+  private client: Ollama;
+
+  constructor(config: LLMProviderConfig) {
+    super(config);
+
+    this.client = new Ollama({
+      host: config.baseURL || 'http://127.0.0.1:11434',
+      fetch: config.fetch
+    });
+  }
+
+  protected initializeModelCosts(): void {
+    // Models run on a local server, so there is no per-token cost to track
+  }
+
+  async createChatCompletion(
+    messages: ChatMessage[],
+    options?: ChatOptions
+  ): Promise<string> {
+    try {
+      const model = options?.model || 'llama3.1';
+
+      const response = await this.retry(() =>
+        this.client.chat({
+          model,
+          messages: this.convertMessages(messages),
+          stream: false,
+          format: options?.responseFormat === 'json' ? 'json' : undefined,
+          options: this.buildOptions(options)
+        })
+      );
+
+      const content = response.message?.content;
+      if (!content) {
+        throw new Error('No response content from Ollama');
+      }
+
+      // Emit token usage for cost tracking
+      this.emit('usage', {
+        inputTokens: response.prompt_eval_count || 0,
+        outputTokens: response.eval_count || 0,
+        totalTokens: (response.prompt_eval_count || 0) + (response.eval_count || 0),
+        model
+      });
+
+      return content;
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  async *createChatCompletionStream(
+    messages: ChatMessage[],
+    options?: ChatOptions
+  ): AsyncGenerator<string> {
+    try {
+      const model = options?.model || 'llama3.1';
+
+      const stream = await this.client.chat({
+        model,
+        messages: this.convertMessages(messages),
+        stream: true,
+        format: options?.responseFormat === 'json' ? 'json' : undefined,
+        options: this.buildOptions(options)
+      });
+
+      for await (const part of stream) {
+        if (part.message?.content) {
+          yield part.message.content;
+        }
+
+        // The final chunk carries the token counts for the whole response
+        if (part.done) {
+          this.emit('usage', {
+            inputTokens: part.prompt_eval_count || 0,
+            outputTokens: part.eval_count || 0,
+            totalTokens: (part.prompt_eval_count || 0) + (part.eval_count || 0),
+            model
+          });
+        }
+      }
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async createEmbedding(
+    text: string | string[],
+    options?: EmbeddingOptions
+  ): Promise<number[] | number[][]> {
+    try {
+      const model = options?.model || 'nomic-embed-text';
+
+      const response = await this.retry(() =>
+        this.client.embed({
+          model,
+          input: text
+        })
+      );
+
+      this.emit('usage', {
+        inputTokens: response.prompt_eval_count || 0,
+        outputTokens: 0,
+        totalTokens: response.prompt_eval_count || 0,
+        model
+      });
+
+      return Array.isArray(text) ? response.embeddings : response.embeddings[0];
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    try {
+      const response = await this.client.list();
+      return response.models.map(model => model.name).sort();
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Pull a model onto the local server so it can be used offline afterwards
+   */
+  async pullModel(model: string): Promise<void> {
+    try {
+      await this.client.pull({ model, stream: false });
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  private convertMessages(messages: ChatMessage[]): { role: string; content: string }[] {
+    return messages.map(message => ({
+      // Ollama has no function role, so function and tool results are passed back as user turns
+      role: message.role === 'function' || message.role === 'tool' ? 'user' : message.role,
+      content: message.content
+    }));
+  }
+
+  private buildOptions(options?: ChatOptions): Record<string, any> {
+    return {
+      temperature: options?.temperature ?? 0.7,
+      num_predict: options?.maxTokens,
+      top_p: options?.topP,
+      frequency_penalty: options?.frequencyPenalty,
+      presence_penalty: options?.presencePenalty,
+      stop: options?.stop
+    };
+  }
+}
@@ -0,0 +1,198 @@
+import { ChatMessage, ChatOptions, EmbeddingOptions, ToolCompletion } from '../../types';
+import { LLMProviderConfig } from '../LLMProvider';
+import { OpenAIProvider } from './OpenAIProvider';
+
+export interface OpenAICompatiblePreset {
+  baseURL: string;
+  requiresApiKey: boolean;
+  defaultModel?: string; // Self-hosted servers serve whatever model was loaded
+  defaultEmbeddingModel?: string;
+  supportsEmbeddings: boolean;
+  supportsJsonMode: boolean;
+  supportsStreamUsage: boolean;
+  supportsToolCalling: boolean; // vLLM also needs --enable-auto-tool-choice on the server
+  // Costs in $ per 1000 tokens
+  modelCosts: Record<string, { input: number; output: number }>;
+}
+
+export interface OpenAICompatibleConfig extends LLMProviderConfig {
+  preset?: string;
+}
+
+// Vendors that expose an OpenAI-compatible chat completions API
+export const OPENAI_COMPATIBLE_PRESETS: Record<string, OpenAICompatiblePreset> = {
+  together: {
+    baseURL: 'https://api.together.xyz/v1',
+    requiresApiKey: true,
+    defaultModel: 'meta-llama/Meta-Llama-3.1-8B-Instruct-Turbo',
+    defaultEmbeddingModel: 'togethercomputer/m2-bert-80M-8k-retrieval',
+    supportsEmbeddings: true,
+    supportsJsonMode: true,
+    supportsStreamUsage: false,
+    supportsToolCalling: true,
+    modelCosts: {
+      'meta-llama/Meta-Llama-3.1-8B-Instruct-Turbo': { input: 0.00018, output: 0.00018 },
+      'meta-llama/Meta-Llama-3.1-70B-Instruct-Turbo': { input: 0.00088, output: 0.00088 },
+      'meta-llama/Meta-Llama-3.1-405B-Instruct-Turbo': { input: 0.0035, output: 0.0035 },
+      'mistralai/Mixtral-8x7B-Instruct-v0.1': { input: 0.0006, output: 0.0006 },
+      'Qwen/Qwen2-72B-Instruct': { input: 0.0009, output: 0.0009 },
+      'togethercomputer/m2-bert-80M-8k-retrieval': { input: 0.000008, output: 0 }
+    }
+  },
+  perplexity: {
+    baseURL: 'https://api.perplexity.ai',
+    requiresApiKey: true,
+    defaultModel: 'llama-3.1-sonar-small-128k-online',
+    supportsEmbeddings: false,
+    supportsJsonMode: false,
+    supportsStreamUsage: false,
+    supportsToolCalling: false,
+    modelCosts: {
+      'llama-3.1-sonar-small-128k-online': { input: 0.0002, output: 0.0002 },
+      'llama-3.1-sonar-large-128k-online': { input: 0.001, output: 0.001 },
+      'llama-3.1-sonar-huge-128k-online': { input: 0.005, output: 0.005 },
+      'llama-3.1-sonar-small-128k-chat': { input: 0.0002, output: 0.0002 },
+      'llama-3.1-sonar-large-128k-chat': { input: 0.001, output: 0.001 }
+    }
+  },
+  vllm: {
+    baseURL: 'http://127.0.0.1:8000/v1',
+    requiresApiKey: false,
+    supportsEmbeddings: true,
+    supportsJsonMode: true,
+    supportsStreamUsage: true,
+    supportsToolCalling: true,
+    modelCosts: {}
+  },
+  lmstudio: {
+    baseURL: 'http://127.0.0.1:1234/v1',
+    requiresApiKey: false,
+    supportsEmbeddings: true,
+    supportsJsonMode: false,
+    supportsStreamUsage: false,
+    supportsToolCalling: true,
+    modelCosts: {}
+  }
+};
+
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  declare protected config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    const preset = OpenAICompatibleProvider.resolvePreset(config.preset);
+    const baseURL = config.baseURL || preset?.baseURL;
+
+    if (!baseURL) {
+      throw new Error('A baseURL is required for OpenAI-compatible providers');
+    }
+
+    super({
+      ...config,
+      baseURL,
+      // The OpenAI client refuses to start without a key, but local servers ignore it
+      apiKey: config.apiKey || (preset && !preset.requiresApiKey ? 'not-needed' : config.apiKey)
+    });
+  }
+
+  /**
+   * Create a provider class bound to a named preset, for registration with LLMProviderFactory
+   */
+  static withPreset(name: string): typeof OpenAICompatibleProvider {
+    OpenAICompatibleProvider.resolvePreset(name);
+
+    const PresetProvider = class extends OpenAICompatibleProvider {
+      constructor(config: OpenAICompatibleConfig) {
+        super({ ...config, preset: name });
+      }
+    };
+
+    // Keep error attribution pointing at the provider rather than the anonymous subclass
+    Object.defineProperty(PresetProvider, 'name', { value: OpenAICompatibleProvider.name });
+    return PresetProvider;
+  }
+
+  private static resolvePreset(name?: string): OpenAICompatiblePreset | undefined {
+    if (!name) {
+      return undefined;
+    }
+
+    const preset = OPENAI_COMPATIBLE_PRESETS[name.toLowerCase()];
+    if (!preset) {
+      throw new Error(`Unknown OpenAI-compatible preset: ${name}`);
+    }
+    return preset;
+  }
+
+  protected get preset(): OpenAICompatiblePreset | undefined {
+    return OpenAICompatibleProvider.resolvePreset(this.config.preset);
+  }
+
+  protected initializeModelCosts(): void {
+    for (const [model, costs] of Object.entries(this.preset?.modelCosts || {})) {
+      this.modelCosts.set(model, costs);
+    }
+  }
+
+  protected getDefaultModel(): string {
+    const model = this.preset?.defaultModel;
+    if (!model) {
+      throw new Error(`No default model for ${this.config.preset || 'this endpoint'}; pass a model explicitly`);
+    }
+    return model;
+  }
+
+  protected getDefaultEmbeddingModel(): string {
+    const model = this.preset?.defaultEmbeddingModel;
+    if (!model) {
+      throw new Error(`No default embedding model for ${this.config.preset || 'this endpoint'}; pass a model explicitly`);
+    }
+    return model;
+  }
+
+  protected supportsJsonMode(): boolean {
+    return this.preset?.supportsJsonMode ?? false;
+  }
+
+  protected supportsStreamUsage(): boolean {
+    return this.preset?.supportsStreamUsage ?? false;
+  }
+
+  public supportsToolCalling(): boolean {
+    return this.preset?.supportsToolCalling ?? false;
+  }
+
+  public supportsEmbeddings(): boolean {
+    return this.preset?.supportsEmbeddings ?? true;
+  }
+
+  async createToolCompletion(
+    messages: ChatMessage[],
+    options?: ChatOptions
+  ): Promise<ToolCompletion> {
+    if (!this.supportsToolCalling()) {
+      return this.handleError(new Error(`Tool calling is not supported by the ${this.config.preset || 'configured'} provider`));
+    }
+
+    return super.createToolCompletion(messages, options);
+  }
+
+  async createEmbedding(
+    text: string | string[],
+    options?: EmbeddingOptions
+  ): Promise<number[] | number[][]> {
+    if (!this.supportsEmbeddings()) {
+      return this.handleError(new Error(`Embeddings are not supported by the ${this.config.preset} provider`));
+    }
+
+    return super.createEmbedding(text, options);
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    try {
+      const response = await this.client.models.list();
+      return response.data.map(model => model.id).sort();
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+}
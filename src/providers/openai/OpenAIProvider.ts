@@ -1,9 +1,9 @@
 import OpenAI from 'openai';
-import { ChatMessage, ChatOptions, EmbeddingOptions } from '../../types';
+import { ChatMessage, ChatOptions, EmbeddingOptions, ToolCall, ToolCompletion } from '../../types';
 import { LLMProvider, LLMProviderConfig } from '../LLMProvider';
 
 export class OpenAIProvider extends LLMProvider {
-  private client: OpenAI;
+  protected client: OpenAI;
   
   constructor(config: LLMProviderConfig) {
     super(config);
@@ -13,7 +13,8 @@ export class OpenAIProvider extends LLMProvider {
       baseURL: config.baseURL,
       organization: config.organization,
       timeout: config.timeout || 60000,
-      maxRetries: config.maxRetries || 3
+      maxRetries: config.maxRetries || 3,
+      fetch: config.fetch as any
     });
   }
   
@@ -32,19 +33,41 @@ export class OpenAIProvider extends LLMProvider {
     this.modelCosts.set('text-embedding-ada-002', { input: 0.0001, output: 0 });
   }
   
+  protected getDefaultModel(): string {
+    return 'gpt-3.5-turbo';
+  }
+  
+  protected getDefaultEmbeddingModel(): string {
+    return 'text-embedding-3-small';
+  }
+  
+  /**
+   * Whether the endpoint accepts response_format json_object
+   */
+  protected supportsJsonMode(): boolean {
+    return true;
+  }
+  
+  /**
+   * Whether the endpoint accepts stream_options to report usage on streamed responses
+   */
+  protected supportsStreamUsage(): boolean {
+    return true;
+  }
+  
   async createChatCompletion(
     messages: ChatMessage[],
     options?: ChatOptions
   ): Promise<string> {
     try {
-      const model = options?.model || 'gpt-3.5-turbo';
+      const model = options?.model || this.getDefaultModel();
       
       // Handle reasoning models differently (o1 series)
       const isReasoningModel = model.startsWith('o1');
       
       const completionOptions: any = {
         model,
-        messages: messages as any[],
+        messages: this.convertMessages(isReasoningModel ? this.foldSystemMessages(messages) : messages),
         stream: false
       };
       
@@ -56,6 +79,10 @@ export class OpenAIProvider extends LLMProvider {
         completionOptions.frequency_penalty = options?.frequencyPenalty;
         completionOptions.presence_penalty = options?.presencePenalty;
         completionOptions.stop = options?.stop;
+        
+        if (options?.responseFormat === 'json' && this.supportsJsonMode()) {
+          completionOptions.response_format = { type: 'json_object' };
+        }
       } else if (options?.reasoningEffort) {
         // For o1 models, you might use different parameters
         // Note: This is hypothetical as o1 API details may vary
@@ -92,7 +119,7 @@ export class OpenAIProvider extends LLMProvider {
     options?: ChatOptions
   ): AsyncGenerator<string> {
     try {
-      const model = options?.model || 'gpt-3.5-turbo';
+      const model = options?.model || this.getDefaultModel();
       const isReasoningModel = model.startsWith('o1');
       
       // Reasoning models might not support streaming
@@ -104,14 +131,18 @@ export class OpenAIProvider extends LLMProvider {
       
       const stream = await this.client.chat.completions.create({
         model,
-        messages: messages as any[],
+        messages: this.convertMessages(messages),
         stream: true,
         temperature: options?.temperature ?? 0.7,
         max_tokens: options?.maxTokens,
         top_p: options?.topP,
         frequency_penalty: options?.frequencyPenalty,
         presence_penalty: options?.presencePenalty,
-        stop: options?.stop
+        stop: options?.stop,
+        ...(options?.responseFormat === 'json' && this.supportsJsonMode()
+          ? { response_format: { type: 'json_object' as const } }
+          : {}),
+        ...(this.supportsStreamUsage() ? { stream_options: { include_usage: true } } : {})
       });
       
       for await (const chunk of stream) {
@@ -119,18 +150,90 @@ export class OpenAIProvider extends LLMProvider {
         if (content) {
           yield content;
         }
+        
+        // The final chunk carries usage for the whole stream
+        if (chunk.usage) {
+          this.emit('usage', {
+            inputTokens: chunk.usage.prompt_tokens,
+            outputTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens,
+            model
+          });
+        }
       }
     } catch (error) {
       this.handleError(error);
     }
   }
   
+  public supportsToolCalling(): boolean {
+    return true;
+  }
+  
+  async createToolCompletion(
+    messages: ChatMessage[],
+    options?: ChatOptions
+  ): Promise<ToolCompletion> {
+    try {
+      const model = options?.model || this.getDefaultModel();
+      const tools = options?.tools || [];
+      
+      const response = await this.retry(() =>
+        this.client.chat.completions.create({
+          model,
+          messages: this.convertMessages(messages),
+          temperature: options?.temperature ?? 0.7,
+          max_tokens: options?.maxTokens,
+          top_p: options?.topP,
+          stop: options?.stop,
+          ...(tools.length > 0
+            ? {
+              tools: tools.map(tool => ({
+                type: 'function' as const,
+                function: {
+                  name: tool.name,
+                  description: tool.description,
+                  parameters: tool.parameters
+                }
+              })),
+              tool_choice: options?.toolChoice || 'auto'
+            }
+            : {})
+        })
+      );
+      
+      const message = response.choices[0]?.message;
+      if (!message) {
+        throw new Error('No response from OpenAI');
+      }
+      
+      if (response.usage) {
+        this.emit('usage', {
+          inputTokens: response.usage.prompt_tokens,
+          outputTokens: response.usage.completion_tokens,
+          totalTokens: response.usage.total_tokens,
+          model
+        });
+      }
+      
+      const toolCalls: ToolCall[] = (message.tool_calls || []).map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: this.parseToolArguments(call.function.arguments)
+      }));
+      
+      return { content: message.content || '', toolCalls };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+  
   async createEmbedding(
     text: string | string[],
     options?: EmbeddingOptions
   ): Promise<number[] | number[][]> {
     try {
-      const model = options?.model || 'text-embedding-3-small';
+      const model = options?.model || this.getDefaultEmbeddingModel();
       const input = Array.isArray(text) ? text : [text];
       
       const embeddingOptions: any = {
@@ -179,6 +282,68 @@ export class OpenAIProvider extends LLMProvider {
     }
   }
   
+  /**
+   * Map our chat messages onto the chat completions format, including tool calls
+   * requested by the assistant and the tool results answering them
+   */
+  protected convertMessages(messages: ChatMessage[]): any[] {
+    return messages.map(message => {
+      if (message.role === 'tool') {
+        return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+      }
+      
+      if (message.role === 'assistant' && message.toolCalls?.length) {
+        return {
+          role: 'assistant',
+          content: message.content || null,
+          tool_calls: message.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+          }))
+        };
+      }
+      
+      const { toolCalls: _toolCalls, toolCallId: _toolCallId, ...rest } = message;
+      return rest;
+    });
+  }
+  
+  /**
+   * o1 models reject system messages, so their instructions open the first user turn instead
+   */
+  protected foldSystemMessages(messages: ChatMessage[]): ChatMessage[] {
+    const instructions = messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+    const turns = messages.filter(message => message.role !== 'system');
+    if (!instructions) {
+      return turns;
+    }
+    
+    const firstUser = turns.findIndex(message => message.role === 'user');
+    if (firstUser === -1) {
+      return [{ role: 'user', content: instructions }, ...turns];
+    }
+    return turns.map((message, index) =>
+      index === firstUser ? { ...message, content: `${instructions}\n\n${message.content}` } : message
+    );
+  }
+  
+  /**
+   * Models occasionally emit malformed argument JSON; treat it as no arguments
+   * rather than failing the whole completion
+   */
+  protected parseToolArguments(args: string): Record<string, any> {
+    try {
+      const parsed = JSON.parse(args || '{}');
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch (error) {
+      return {};
+    }
+  }
+  
   // OpenAI-specific methods
   async createImage(
     prompt: string,
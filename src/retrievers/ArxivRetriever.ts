@@ -0,0 +1,60 @@
+import { BaseRetriever, RetrieverConfig } from './BaseRetriever';
+import { SearchResult, SearchOptions } from '../types';
+import * as cheerio from 'cheerio';
+import axios from 'axios';
+
+export class ArxivRetriever extends BaseRetriever {
+  private baseUrl = 'https://export.arxiv.org/api/query';
+  
+  constructor(name: string, config: RetrieverConfig) {
+    super(name, config);
+  }
+  
+  /**
+   * The arXiv API is open to everyone
+   */
+  protected requiresApiKey(): boolean {
+    return false;
+  }
+  
+  async search(query: string, options?: SearchOptions): Promise<SearchResult[]> {
+    try {
+      const maxResults = options?.maxResults || this.config.maxResults || 10;
+      
+      const response = await axios.get(this.baseUrl, {
+        params: {
+          search_query: `all:${query}`,
+          start: 0,
+          max_results: maxResults,
+          sortBy: 'relevance'
+        },
+        responseType: 'text',
+        timeout: this.config.timeout
+      });
+      
+      // Results come back as an Atom feed
+      const $ = cheerio.load(response.data, { xmlMode: true });
+      const results: SearchResult[] = $('entry').toArray().map((entry, index) => {
+        const $entry = $(entry);
+        const published = $entry.children('published').text().trim();
+        
+        return this.formatScholarlyResult({
+          url: $entry.children('id').text().trim().replace(/^http:/, 'https:'),
+          title: $entry.children('title').text(),
+          authors: $entry.find('author > name').toArray().map(name => $(name).text()),
+          abstract: $entry.children('summary').text(),
+          doi: $entry.children('arxiv\\:doi').text().trim() || undefined,
+          venue: $entry.children('arxiv\\:journal_ref').text().trim() || 'arXiv',
+          year: published ? new Date(published).getUTCFullYear() : undefined,
+          publishedDate: published || undefined,
+          score: 1 / (index + 1)
+        });
+      });
+      
+      return this.processResults(results);
+      
+    } catch (error: any) {
+      throw new Error(`arXiv search failed: ${error.message}`);
+    }
+  }
+}
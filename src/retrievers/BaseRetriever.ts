@@ -1,6 +1,9 @@
 import { SearchResult, SearchOptions } from '../types';
 import { EventEmitter } from 'events';
 
+// Web retrievers search the open web; academic retrievers search scholarly literature
+export type RetrieverCategory = 'web' | 'academic';
+
 export interface RetrieverConfig {
   apiKey?: string;
   maxResults?: number;
@@ -8,6 +11,20 @@ export interface RetrieverConfig {
   headers?: Record<string, string>;
 }
 
+// A paper or article as returned by a scholarly search API
+export interface ScholarlyWork {
+  title: string;
+  url?: string; // Defaults to the DOI link
+  authors: string[];
+  abstract?: string;
+  doi?: string;
+  venue?: string;
+  year?: number;
+  publishedDate?: string;
+  citationCount?: number;
+  score?: number;
+}
+
 export abstract class BaseRetriever extends EventEmitter {
   protected config: RetrieverConfig;
   protected name: string;
@@ -66,6 +83,32 @@ export abstract class BaseRetriever extends EventEmitter {
     };
   }
   
+  /**
+   * Format a scholarly work, using its abstract as the content
+   */
+  protected formatScholarlyResult(work: ScholarlyWork): SearchResult {
+    const abstract = work.abstract?.replace(/\s+/g, ' ').trim();
+    const authors = work.authors.map(author => author.trim()).filter(Boolean);
+    
+    return {
+      ...this.formatResult({
+        url: work.url || (work.doi ? `https://doi.org/${work.doi}` : ''),
+        title: work.title.replace(/\s+/g, ' ').trim(),
+        content: abstract || '',
+        snippet: abstract?.slice(0, 300),
+        score: work.score,
+        publishedDate: work.publishedDate || (work.year ? String(work.year) : undefined),
+        author: authors.length > 0 ? authors.join(', ') : undefined
+      }),
+      authors,
+      doi: work.doi,
+      venue: work.venue,
+      year: work.year,
+      abstract,
+      citationCount: work.citationCount
+    };
+  }
+  
   /**
    * Filter and deduplicate results
    */
@@ -134,9 +177,15 @@ export abstract class BaseRetriever extends EventEmitter {
 // Factory for creating retrievers
 export class RetrieverFactory {
   private static retrievers: Map<string, typeof BaseRetriever> = new Map();
+  private static categories: Map<string, RetrieverCategory> = new Map();
   
-  public static register(name: string, retriever: typeof BaseRetriever): void {
+  public static register(
+    name: string,
+    retriever: typeof BaseRetriever,
+    category: RetrieverCategory = 'web'
+  ): void {
     this.retrievers.set(name.toLowerCase(), retriever);
+    this.categories.set(name.toLowerCase(), category);
   }
   
   public static create(name: string, config: RetrieverConfig): BaseRetriever {
@@ -148,7 +197,21 @@ export class RetrieverFactory {
     return new (Retriever as any)(name, config);
   }
   
-  public static getAvailableRetrievers(): string[] {
-    return Array.from(this.retrievers.keys());
+  /**
+   * Whether a registered retriever needs an API key, read from its prototype
+   * since the answer does not depend on instance state
+   */
+  public static requiresApiKey(name: string): boolean {
+    const Retriever = this.retrievers.get(name.toLowerCase());
+    return Retriever ? (Retriever.prototype as any).requiresApiKey() : true;
+  }
+  
+  public static getAvailableRetrievers(category?: RetrieverCategory): string[] {
+    return Array.from(this.retrievers.keys())
+      .filter(name => !category || this.categories.get(name) === category);
+  }
+  
+  public static getCategory(name: string): RetrieverCategory | undefined {
+    return this.categories.get(name.toLowerCase());
   }
 }
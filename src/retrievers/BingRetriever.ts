@@ -0,0 +1,91 @@
+import { BaseRetriever, RetrieverConfig } from './BaseRetriever';
+import { SearchResult, SearchOptions } from '../types';
+import { withSiteOperators } from '../utils/domains';
+import axios from 'axios';
+
+export interface BingConfig extends RetrieverConfig {
+  apiKey: string;
+  market?: string; // e.g. "en-US"
+  safeSearch?: 'Off' | 'Moderate' | 'Strict';
+}
+
+export class BingRetriever extends BaseRetriever {
+  private apiKey: string;
+  private baseUrl = 'https://api.bing.microsoft.com/v7.0/search';
+  private market?: string;
+  private safeSearch: string;
+  
+  constructor(name: string, config: BingConfig) {
+    super(name, config);
+    this.apiKey = config.apiKey;
+    this.market = config.market;
+    this.safeSearch = config.safeSearch || 'Moderate';
+    
+    if (!this.apiKey) {
+      throw new Error('Bing API key is required');
+    }
+  }
+  
+  async search(query: string, options?: SearchOptions): Promise<SearchResult[]> {
+    try {
+      const maxResults = options?.maxResults || this.config.maxResults || 10;
+      
+      // Bing supports site: operators in the query rather than filter parameters
+      const response = await axios.get(this.baseUrl, {
+        params: {
+          q: withSiteOperators(query, options?.includeDomains, options?.excludeDomains),
+          count: Math.min(maxResults, 50),
+          mkt: this.getMarket(options),
+          safeSearch: this.safeSearch,
+          freshness: this.getFreshness(options?.days),
+          responseFilter: 'Webpages'
+        },
+        headers: {
+          'Ocp-Apim-Subscription-Key': this.apiKey
+        },
+        timeout: this.config.timeout
+      });
+      
+      const pages = response.data?.webPages?.value || [];
+      
+      const results: SearchResult[] = pages.map((page: any, index: number) =>
+        this.formatResult({
+          url: page.url,
+          name: page.name,
+          snippet: page.snippet,
+          date: page.datePublished || page.dateLastCrawled,
+          score: 1 / (index + 1)
+        })
+      );
+      
+      return this.processResults(results).slice(0, maxResults);
+      
+    } catch (error: any) {
+      if (error.response?.status === 401) {
+        throw new Error('Invalid Bing API key');
+      }
+      if (error.response?.status === 429) {
+        throw new Error('Bing rate limit exceeded');
+      }
+      throw new Error(`Bing search failed: ${error.message}`);
+    }
+  }
+  
+  /**
+   * Markets are "<language>-<country>", e.g. "en-US"
+   */
+  private getMarket(options?: SearchOptions): string | undefined {
+    if (options?.country && options?.language) {
+      return `${options.language.toLowerCase()}-${options.country.toUpperCase()}`;
+    }
+    return this.market;
+  }
+  
+  private getFreshness(days?: number): string | undefined {
+    if (!days) return undefined;
+    if (days <= 1) return 'Day';
+    if (days <= 7) return 'Week';
+    if (days <= 31) return 'Month';
+    return undefined;
+  }
+}
@@ -0,0 +1,90 @@
+import { BaseRetriever, RetrieverConfig } from './BaseRetriever';
+import { SearchResult, SearchOptions } from '../types';
+import { withSiteOperators } from '../utils/domains';
+import axios from 'axios';
+
+export interface BraveConfig extends RetrieverConfig {
+  apiKey: string;
+  country?: string;
+  safeSearch?: 'off' | 'moderate' | 'strict';
+}
+
+export class BraveRetriever extends BaseRetriever {
+  private apiKey: string;
+  private baseUrl = 'https://api.search.brave.com/res/v1/web/search';
+  private country?: string;
+  private safeSearch: string;
+  
+  constructor(name: string, config: BraveConfig) {
+    super(name, config);
+    this.apiKey = config.apiKey;
+    this.country = config.country;
+    this.safeSearch = config.safeSearch || 'moderate';
+    
+    if (!this.apiKey) {
+      throw new Error('Brave Search API key is required');
+    }
+  }
+  
+  async search(query: string, options?: SearchOptions): Promise<SearchResult[]> {
+    try {
+      const maxResults = options?.maxResults || this.config.maxResults || 10;
+      
+      // Brave supports site: operators in the query rather than filter parameters
+      const response = await axios.get(this.baseUrl, {
+        params: {
+          q: withSiteOperators(query, options?.includeDomains, options?.excludeDomains),
+          count: Math.min(maxResults, 20),
+          country: options?.country || this.country,
+          search_lang: options?.language,
+          safesearch: this.safeSearch,
+          freshness: this.getFreshness(options?.days)
+        },
+        headers: {
+          'X-Subscription-Token': this.apiKey,
+          Accept: 'application/json'
+        },
+        timeout: this.config.timeout
+      });
+      
+      const pages = response.data?.web?.results || [];
+      
+      const results: SearchResult[] = pages.map((page: any, index: number) => {
+        const description = this.stripTags(page.description || '');
+        return this.formatResult({
+          url: page.url,
+          title: this.stripTags(page.title || ''),
+          description,
+          date: page.page_age,
+          score: 1 / (index + 1)
+        });
+      });
+      
+      return this.processResults(results).slice(0, maxResults);
+      
+    } catch (error: any) {
+      if (error.response?.status === 401 || error.response?.status === 422) {
+        throw new Error('Invalid Brave Search API key');
+      }
+      if (error.response?.status === 429) {
+        throw new Error('Brave Search rate limit exceeded');
+      }
+      throw new Error(`Brave search failed: ${error.message}`);
+    }
+  }
+  
+  private getFreshness(days?: number): string | undefined {
+    if (!days) return undefined;
+    if (days <= 1) return 'pd';
+    if (days <= 7) return 'pw';
+    if (days <= 31) return 'pm';
+    return 'py';
+  }
+  
+  /**
+   * Brave highlights query terms in titles and descriptions with <strong> tags
+   */
+  private stripTags(text: string): string {
+    return text.replace(/<[^>]+>/g, '').trim();
+  }
+}
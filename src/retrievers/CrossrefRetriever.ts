@@ -0,0 +1,69 @@
+import { BaseRetriever, RetrieverConfig } from './BaseRetriever';
+import { SearchResult, SearchOptions } from '../types';
+import axios from 'axios';
+
+export interface CrossrefConfig extends RetrieverConfig {
+  mailto?: string; // Identifies the caller to Crossref for the more reliable "polite" pool
+}
+
+export class CrossrefRetriever extends BaseRetriever {
+  private baseUrl = 'https://api.crossref.org/works';
+  private mailto?: string;
+  
+  constructor(name: string, config: CrossrefConfig) {
+    super(name, config);
+    this.mailto = config.mailto;
+  }
+  
+  /**
+   * The Crossref REST API is open to everyone
+   */
+  protected requiresApiKey(): boolean {
+    return false;
+  }
+  
+  async search(query: string, options?: SearchOptions): Promise<SearchResult[]> {
+    try {
+      const maxResults = options?.maxResults || this.config.maxResults || 10;
+      
+      const response = await axios.get(this.baseUrl, {
+        params: {
+          query,
+          rows: maxResults,
+          select: 'DOI,title,author,container-title,issued,abstract,URL,is-referenced-by-count,score',
+          mailto: this.mailto
+        },
+        timeout: this.config.timeout
+      });
+      
+      const items = response.data?.message?.items || [];
+      
+      const results: SearchResult[] = items
+        .filter((item: any) => item.title?.[0])
+        .map((item: any) => {
+          const dateParts: number[] = item.issued?.['date-parts']?.[0] || [];
+          
+          return this.formatScholarlyResult({
+            url: item.DOI ? `https://doi.org/${item.DOI}` : item.URL,
+            title: item.title[0],
+            authors: (item.author || []).map((author: any) =>
+              [author.given, author.family].filter(Boolean).join(' ') || author.name || ''
+            ),
+            // Abstracts are JATS XML fragments
+            abstract: item.abstract?.replace(/<[^>]+>/g, ' '),
+            doi: item.DOI,
+            venue: item['container-title']?.[0],
+            year: dateParts[0] || undefined,
+            publishedDate: dateParts.length > 0 ? dateParts.join('-') : undefined,
+            citationCount: item['is-referenced-by-count'],
+            score: item.score
+          });
+        });
+      
+      return this.processResults(results);
+      
+    } catch (error: any) {
+      throw new Error(`Crossref search failed: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { BaseRetriever, RetrieverConfig } from './BaseRetriever';
+import { SearchResult, SearchOptions } from '../types';
+import { withSiteOperators } from '../utils/domains';
+import { search, SafeSearchType, SearchTimeType } from 'duck-duck-scrape';
+
+export interface DuckDuckGoConfig extends RetrieverConfig {
+  safeSearch?: 'strict' | 'moderate' | 'off';
+  region?: string; // e.g. "us-en", defaults to all regions
+}
+
+const SAFE_SEARCH: Record<string, SafeSearchType> = {
+  strict: SafeSearchType.STRICT,
+  moderate: SafeSearchType.MODERATE,
+  off: SafeSearchType.OFF
+};
+
+export class DuckDuckGoRetriever extends BaseRetriever {
+  private safeSearch: SafeSearchType;
+  private region?: string;
+  
+  constructor(name: string, config: DuckDuckGoConfig) {
+    super(name, config);
+    this.safeSearch = SAFE_SEARCH[config.safeSearch || 'moderate'];
+    this.region = config.region;
+  }
+  
+  /**
+   * DuckDuckGo is searched without an account
+   */
+  protected requiresApiKey(): boolean {
+    return false;
+  }
+  
+  async search(query: string, options?: SearchOptions): Promise<SearchResult[]> {
+    try {
+      const maxResults = options?.maxResults || this.config.maxResults || 10;
+      
+      // DuckDuckGo has no domain filter parameters, so restrict the query itself
+      const response = await this.retry(() =>
+        search(withSiteOperators(query, options?.includeDomains, options?.excludeDomains), {
+          safeSearch: this.safeSearch,
+          region: this.getRegion(options),
+          time: this.getTimeRange(options?.days)
+        })
+      );
+      
+      if (response.noResults) {
+        return [];
+      }
+      
+      const results: SearchResult[] = response.results.map((result, index) => {
+        const description = this.stripTags(result.description);
+        return {
+          url: result.url,
+          title: this.stripTags(result.title),
+          content: description,
+          snippet: description,
+          score: 1 / (index + 1)
+        };
+      });
+      
+      return this.processResults(results).slice(0, maxResults);
+      
+    } catch (error: any) {
+      throw new Error(`DuckDuckGo search failed: ${error.message}`);
+    }
+  }
+  
+  /**
+   * Regions are "<country>-<language>", e.g. "us-en"
+   */
+  private getRegion(options?: SearchOptions): string | undefined {
+    if (options?.country && options?.language) {
+      return `${options.country}-${options.language}`.toLowerCase();
+    }
+    return this.region;
+  }
+  
+  private getTimeRange(days?: number): SearchTimeType | undefined {
+    if (!days) return undefined;
+    if (days <= 1) return SearchTimeType.DAY;
+    if (days <= 7) return SearchTimeType.WEEK;
+    if (days <= 31) return SearchTimeType.MONTH;
+    return SearchTimeType.YEAR;
+  }
+  
+  private stripTags(text: string): string {
+    return text
+      .replace(/<[^>]+>/g, '')
+      .replace(/&#x27;|&#39;/g, "'")
+      .replace(/&quot;/g, '"')
+      .replace(/&amp;/g, '&')
+      .trim();
+  }
+}
@@ -1,5 +1,6 @@
 import { BaseRetriever, RetrieverConfig } from './BaseRetriever';
 import { SearchResult, SearchOptions } from '../types';
+import { normalizeDomain, withSiteOperators } from '../utils/domains';
 import axios from 'axios';
 
 export class GoogleRetriever extends BaseRetriever {
@@ -31,6 +32,8 @@ export class GoogleRetriever extends BaseRetriever {
         params.cx = this.cx;
       }
       
+      this.applyDomainFilters(params, options);
+      
       const response = await axios.get(this.baseUrl, { params });
       
       if (!response.data.items) {
@@ -125,6 +128,25 @@ export class GoogleRetriever extends BaseRetriever {
     });
   }
   
+  /**
+   * siteSearch takes a single domain to include or exclude; longer lists fall
+   * back to site: operators in the query
+   */
+  private applyDomainFilters(params: any, options?: SearchOptions): void {
+    const include = options?.includeDomains || [];
+    const exclude = options?.excludeDomains || [];
+    
+    if (include.length === 1 && exclude.length === 0) {
+      params.siteSearch = normalizeDomain(include[0]);
+      params.siteSearchFilter = 'i';
+    } else if (include.length === 0 && exclude.length === 1) {
+      params.siteSearch = normalizeDomain(exclude[0]);
+      params.siteSearchFilter = 'e';
+    } else {
+      params.q = withSiteOperators(params.q, include, exclude);
+    }
+  }
+  
   /**
    * Extract date from Google search result
    */
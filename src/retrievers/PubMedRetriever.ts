@@ -0,0 +1,101 @@
+import { BaseRetriever, RetrieverConfig } from './BaseRetriever';
+import { SearchResult, SearchOptions } from '../types';
+import * as cheerio from 'cheerio';
+import axios from 'axios';
+
+export class PubMedRetriever extends BaseRetriever {
+  private baseUrl = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils';
+  
+  constructor(name: string, config: RetrieverConfig) {
+    super(name, config);
+  }
+  
+  /**
+   * An NCBI API key raises the rate limit but is not required
+   */
+  protected requiresApiKey(): boolean {
+    return false;
+  }
+  
+  async search(query: string, options?: SearchOptions): Promise<SearchResult[]> {
+    try {
+      const maxResults = options?.maxResults || this.config.maxResults || 10;
+      const auth = this.config.apiKey ? { api_key: this.config.apiKey } : {};
+      
+      // Find matching PubMed IDs, then fetch the articles with their abstracts
+      const searchResponse = await axios.get(`${this.baseUrl}/esearch.fcgi`, {
+        params: {
+          db: 'pubmed',
+          term: query,
+          retmax: maxResults,
+          retmode: 'json',
+          sort: 'relevance',
+          ...auth
+        },
+        timeout: this.config.timeout
+      });
+      
+      const ids: string[] = searchResponse.data?.esearchresult?.idlist || [];
+      if (ids.length === 0) {
+        return [];
+      }
+      
+      const fetchResponse = await axios.get(`${this.baseUrl}/efetch.fcgi`, {
+        params: {
+          db: 'pubmed',
+          id: ids.join(','),
+          retmode: 'xml',
+          ...auth
+        },
+        responseType: 'text',
+        timeout: this.config.timeout
+      });
+      
+      const $ = cheerio.load(fetchResponse.data, { xmlMode: true });
+      const articles = new Map<string, SearchResult>();
+      
+      $('PubmedArticle').each((_, element) => {
+        const $article = $(element);
+        const pmid = $article.find('MedlineCitation > PMID').first().text().trim();
+        const year = parseInt($article.find('JournalIssue PubDate Year').first().text(), 10);
+        
+        articles.set(pmid, this.formatScholarlyResult({
+          url: `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`,
+          title: $article.find('ArticleTitle').first().text(),
+          authors: $article.find('AuthorList > Author').toArray().map(author => {
+            const $author = $(author);
+            return [$author.children('ForeName').text(), $author.children('LastName').text()]
+              .filter(Boolean)
+              .join(' ') || $author.children('CollectiveName').text();
+          }),
+          abstract: $article.find('Abstract > AbstractText').toArray()
+            .map(section => {
+              const label = $(section).attr('Label');
+              return label ? `${label}: ${$(section).text()}` : $(section).text();
+            })
+            .join(' ') || undefined,
+          doi: $article.find('ArticleIdList > ArticleId[IdType="doi"]').first().text().trim() || undefined,
+          venue: $article.find('Journal > Title').first().text().trim() || undefined,
+          year: Number.isNaN(year) ? undefined : year
+        }));
+      });
+      
+      // Keep the relevance order from the search
+      const results: SearchResult[] = [];
+      ids.forEach((id, index) => {
+        const article = articles.get(id);
+        if (article) {
+          results.push({ ...article, score: 1 / (index + 1) });
+        }
+      });
+      
+      return this.processResults(results);
+      
+    } catch (error: any) {
+      if (error.response?.status === 429) {
+        throw new Error('PubMed rate limit exceeded');
+      }
+      throw new Error(`PubMed search failed: ${error.message}`);
+    }
+  }
+}
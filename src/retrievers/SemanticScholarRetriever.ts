@@ -0,0 +1,63 @@
+import { BaseRetriever, RetrieverConfig } from './BaseRetriever';
+import { SearchResult, SearchOptions } from '../types';
+import axios from 'axios';
+
+const PAPER_FIELDS = 'title,abstract,authors,year,venue,externalIds,url,citationCount,publicationDate';
+
+export class SemanticScholarRetriever extends BaseRetriever {
+  private baseUrl = 'https://api.semanticscholar.org/graph/v1/paper/search';
+  
+  constructor(name: string, config: RetrieverConfig) {
+    super(name, config);
+  }
+  
+  /**
+   * An API key raises the rate limit but is not required
+   */
+  protected requiresApiKey(): boolean {
+    return false;
+  }
+  
+  async search(query: string, options?: SearchOptions): Promise<SearchResult[]> {
+    try {
+      const maxResults = options?.maxResults || this.config.maxResults || 10;
+      
+      const response = await axios.get(this.baseUrl, {
+        params: {
+          query,
+          limit: Math.min(maxResults, 100),
+          fields: PAPER_FIELDS
+        },
+        headers: this.config.apiKey ? { 'x-api-key': this.config.apiKey } : undefined,
+        timeout: this.config.timeout
+      });
+      
+      const papers = response.data?.data || [];
+      
+      const results: SearchResult[] = papers
+        .filter((paper: any) => paper.title)
+        .map((paper: any, index: number) =>
+          this.formatScholarlyResult({
+            url: paper.url,
+            title: paper.title,
+            authors: (paper.authors || []).map((author: any) => author.name),
+            abstract: paper.abstract || undefined,
+            doi: paper.externalIds?.DOI,
+            venue: paper.venue || undefined,
+            year: paper.year || undefined,
+            publishedDate: paper.publicationDate || undefined,
+            citationCount: paper.citationCount,
+            score: 1 / (index + 1)
+          })
+        );
+      
+      return this.processResults(results);
+      
+    } catch (error: any) {
+      if (error.response?.status === 429) {
+        throw new Error('Semantic Scholar rate limit exceeded');
+      }
+      throw new Error(`Semantic Scholar search failed: ${error.message}`);
+    }
+  }
+}
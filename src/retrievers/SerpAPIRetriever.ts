@@ -0,0 +1,85 @@
+import { BaseRetriever, RetrieverConfig } from './BaseRetriever';
+import { SearchResult, SearchOptions } from '../types';
+import { withSiteOperators } from '../utils/domains';
+import axios from 'axios';
+
+export interface SerpAPIConfig extends RetrieverConfig {
+  apiKey: string;
+  engine?: string; // SerpAPI search engine, default "google"
+  country?: string;
+  language?: string;
+}
+
+export class SerpAPIRetriever extends BaseRetriever {
+  private apiKey: string;
+  private baseUrl = 'https://serpapi.com/search.json';
+  private engine: string;
+  private country: string;
+  private language: string;
+  
+  constructor(name: string, config: SerpAPIConfig) {
+    super(name, config);
+    this.apiKey = config.apiKey;
+    this.engine = config.engine || 'google';
+    this.country = config.country || 'us';
+    this.language = config.language || 'en';
+    
+    if (!this.apiKey) {
+      throw new Error('SerpAPI API key is required');
+    }
+  }
+  
+  async search(query: string, options?: SearchOptions): Promise<SearchResult[]> {
+    try {
+      const maxResults = options?.maxResults || this.config.maxResults || 10;
+      
+      // Google via SerpAPI has no domain filter parameters, so restrict the query itself
+      const response = await axios.get(this.baseUrl, {
+        params: {
+          engine: this.engine,
+          q: withSiteOperators(query, options?.includeDomains, options?.excludeDomains),
+          api_key: this.apiKey,
+          num: maxResults,
+          gl: options?.country || this.country,
+          hl: options?.language || this.language,
+          tbs: this.getTimeRange(options?.days)
+        },
+        timeout: this.config.timeout
+      });
+      
+      const data = response.data;
+      if (data.error) {
+        throw new Error(data.error);
+      }
+      
+      const results: SearchResult[] = (data.organic_results || []).map((result: any) =>
+        this.formatResult({
+          url: result.link,
+          title: result.title,
+          snippet: result.snippet,
+          date: result.date,
+          score: result.position ? 1 / result.position : undefined
+        })
+      );
+      
+      return this.processResults(results).slice(0, maxResults);
+      
+    } catch (error: any) {
+      if (error.response?.status === 401) {
+        throw new Error('Invalid SerpAPI API key');
+      }
+      if (error.response?.status === 429) {
+        throw new Error('SerpAPI rate limit exceeded');
+      }
+      throw new Error(`SerpAPI search failed: ${error.response?.data?.error || error.message}`);
+    }
+  }
+  
+  private getTimeRange(days?: number): string | undefined {
+    if (!days) return undefined;
+    if (days <= 1) return 'qdr:d';
+    if (days <= 7) return 'qdr:w';
+    if (days <= 31) return 'qdr:m';
+    return 'qdr:y';
+  }
+}
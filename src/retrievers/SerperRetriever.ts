@@ -1,5 +1,6 @@
 import { BaseRetriever, RetrieverConfig } from './BaseRetriever';
 import { SearchResult, SearchOptions } from '../types';
+import { withSiteOperators } from '../utils/domains';
 import axios from 'axios';
 
 export interface SerperConfig extends RetrieverConfig {
@@ -32,8 +33,9 @@ export class SerperRetriever extends BaseRetriever {
     try {
       const maxResults = options?.maxResults || this.config.maxResults || 10;
       
+      // Serper has no domain filter parameters, so restrict the query itself
       const response = await axios.post(`${this.baseUrl}/search`, {
-        q: query,
+        q: withSiteOperators(query, options?.includeDomains, options?.excludeDomains),
         num: maxResults,
         gl: this.country,
         hl: this.language,
@@ -1,5 +1,6 @@
 import { BaseRetriever, RetrieverConfig } from './BaseRetriever';
 import { SearchResult, SearchOptions } from '../types';
+import { normalizeDomain } from '../utils/domains';
 import axios from 'axios';
 
 export interface TavilyConfig extends RetrieverConfig {
@@ -43,7 +44,13 @@ export class TavilyRetriever extends BaseRetriever {
         include_images: this.includeImages,
         include_answer: this.includeAnswer,
         include_raw_content: this.includeRawContent,
-        max_results: maxResults
+        max_results: maxResults,
+        ...(options?.includeDomains?.length
+          ? { include_domains: options.includeDomains.map(normalizeDomain) }
+          : {}),
+        ...(options?.excludeDomains?.length
+          ? { exclude_domains: options.excludeDomains.map(normalizeDomain) }
+          : {})
       }, {
         headers: {
           'Content-Type': 'application/json'
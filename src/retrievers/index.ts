@@ -1,19 +1,49 @@
 // Export all retrievers
-export { BaseRetriever, RetrieverConfig, RetrieverFactory } from './BaseRetriever';
+export {
+  BaseRetriever,
+  RetrieverConfig,
+  RetrieverCategory,
+  ScholarlyWork,
+  RetrieverFactory
+} from './BaseRetriever';
 export { TavilyRetriever } from './TavilyRetriever';
 export { SerperRetriever } from './SerperRetriever';
 export { GoogleRetriever } from './GoogleRetriever';
+export { DuckDuckGoRetriever, DuckDuckGoConfig } from './DuckDuckGoRetriever';
+export { BingRetriever, BingConfig } from './BingRetriever';
+export { SerpAPIRetriever, SerpAPIConfig } from './SerpAPIRetriever';
+export { BraveRetriever, BraveConfig } from './BraveRetriever';
+export { ArxivRetriever } from './ArxivRetriever';
+export { SemanticScholarRetriever } from './SemanticScholarRetriever';
+export { PubMedRetriever } from './PubMedRetriever';
+export { CrossrefRetriever, CrossrefConfig } from './CrossrefRetriever';
 
 // Register retrievers with factory
 import { RetrieverFactory } from './BaseRetriever';
 import { TavilyRetriever } from './TavilyRetriever';
 import { SerperRetriever } from './SerperRetriever';
 import { GoogleRetriever } from './GoogleRetriever';
+import { DuckDuckGoRetriever } from './DuckDuckGoRetriever';
+import { BingRetriever } from './BingRetriever';
+import { SerpAPIRetriever } from './SerpAPIRetriever';
+import { BraveRetriever } from './BraveRetriever';
+import { ArxivRetriever } from './ArxivRetriever';
+import { SemanticScholarRetriever } from './SemanticScholarRetriever';
+import { PubMedRetriever } from './PubMedRetriever';
+import { CrossrefRetriever } from './CrossrefRetriever';
 
 // Register all retrievers
 RetrieverFactory.register('tavily', TavilyRetriever);
 RetrieverFactory.register('serper', SerperRetriever);
 RetrieverFactory.register('google', GoogleRetriever);
+RetrieverFactory.register('duckduckgo', DuckDuckGoRetriever);
+RetrieverFactory.register('bing', BingRetriever);
+RetrieverFactory.register('serpapi', SerpAPIRetriever);
+RetrieverFactory.register('brave', BraveRetriever);
+RetrieverFactory.register('semanticscholar', SemanticScholarRetriever, 'academic');
+RetrieverFactory.register('arxiv', ArxivRetriever, 'academic');
+RetrieverFactory.register('pubmed', PubMedRetriever, 'academic');
+RetrieverFactory.register('crossref', CrossrefRetriever, 'academic');
 
 // Helper function to create a retriever
 export function createRetriever(
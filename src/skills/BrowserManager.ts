@@ -4,6 +4,7 @@ import { Memory } from '../core/Memory';
 import { SearchResult } from '../types';
 import { BaseScraper, ScraperFactory } from '../scrapers';
 import { getBestScraper } from '../scrapers';
+import { CacheStore, createCacheKey, getCache } from '../cache';
 // import { WorkerPool, BatchProcessor } from '../utils/workers'; // Reserved for future use
 
 export interface ScrapingOptions {
@@ -12,6 +13,7 @@ export interface ScrapingOptions {
   timeout?: number;
   extractImages?: boolean;
   useReadability?: boolean;
+  useCache?: boolean;
 }
 
 export interface ScrapingResult {
@@ -25,6 +27,7 @@ export interface ScrapingResult {
 export class BrowserManager extends EventEmitter {
   private config: Config;
   private memory: Memory;
+  private cache?: CacheStore | null;
   // private workerPool: WorkerPool; // Reserved for future use
   // private batchProcessor: BatchProcessor<string, ScrapedContent>; // Reserved for future use
   private activeScrapers: Map<string, BaseScraper>;
@@ -173,6 +176,21 @@ export class BrowserManager extends EventEmitter {
                          this.config.get('defaultScraper') || 
                          getBestScraper(url);
       
+      // Check the shared cache, which outlives this research run
+      const cacheKey = createCacheKey('scrape', scraperType, url, {
+        useReadability: options?.useReadability !== false,
+        extractImages: options?.extractImages !== false
+      });
+      const useCache = options?.useCache !== false && this.getCacheStore() !== null;
+      if (useCache) {
+        const stored = await this.getCachedScrape(cacheKey);
+        if (stored) {
+          this.memory.addScrapedContent(url, stored.content);
+          this.emit('cache_hit', { url });
+          return stored;
+        }
+      }
+      
       // Get or create scraper instance
       const scraper = this.getScraper(scraperType, options);
       
@@ -191,12 +209,17 @@ export class BrowserManager extends EventEmitter {
           hasImages: result.images && result.images.length > 0
         });
         
-        return {
+        const scraped: ScrapingResult = {
           url,
           title: result.title,
           content: result.content,
           images: result.images
         };
+        if (useCache) {
+          await this.setCachedScrape(cacheKey, scraped);
+        }
+        
+        return scraped;
       } else {
         throw new Error(result.error);
       }
@@ -213,6 +236,41 @@ export class BrowserManager extends EventEmitter {
     }
   }
   
+  /**
+   * Open the configured cache on first use, scraping uncached when it cannot be opened
+   */
+  private getCacheStore(): CacheStore | null {
+    if (this.cache === undefined) {
+      try {
+        this.cache = getCache(this.config);
+      } catch (error) {
+        this.cache = null;
+        this.emit('cache_error', { error });
+      }
+    }
+    return this.cache;
+  }
+  
+  /**
+   * Read a scraped page from the cache, treating cache failures as a miss
+   */
+  private async getCachedScrape(key: string): Promise<ScrapingResult | undefined> {
+    try {
+      return await this.cache!.get<ScrapingResult>(key);
+    } catch (error) {
+      this.emit('cache_error', { key, error });
+      return undefined;
+    }
+  }
+  
+  private async setCachedScrape(key: string, result: ScrapingResult): Promise<void> {
+    try {
+      await this.cache!.set(key, result);
+    } catch (error) {
+      this.emit('cache_error', { key, error });
+    }
+  }
+  
   /**
    * Get or create a scraper instance
    */
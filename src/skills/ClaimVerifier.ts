@@ -0,0 +1,421 @@
+import { EventEmitter } from 'events';
+import { z } from 'zod';
+import { Config } from '../core/Config';
+import { Memory } from '../core/Memory';
+import {
+  ChatMessage,
+  ClaimVerdict,
+  ClaimVerification,
+  Finding,
+  ReportBlock,
+  ReportClaim,
+  ReportDocument,
+  ReportDocumentSection,
+  ReportList,
+  ResearchContext
+} from '../types';
+import { LLMProviderSource, resolveProvider } from '../providers/LLMRouter';
+import { pruneReferences, renumberCitations } from '../exporters';
+import { truncateToTokens } from '../utils/tokenizer';
+import { normalizeUrl } from '../utils/domains';
+
+const VERIFICATION_SCHEMA = z.object({
+  claims: z.array(z.object({
+    sentence: z.number().int(),
+    claim: z.string(),
+    verdict: z.enum(['supported', 'contradicted', 'unsupported']),
+    explanation: z.string().default(''),
+    evidence: z.array(z.number().int()).default([])
+  })).default([])
+});
+
+const REWRITE_SCHEMA = z.object({
+  sentences: z.array(z.object({
+    sentence: z.number().int(),
+    text: z.string()
+  })).default([])
+});
+
+// Sentences checked in one model call
+const SENTENCE_BATCH_SIZE = 6;
+
+// Findings given as evidence for each sentence, and the tokens kept of each
+const EVIDENCE_PER_SENTENCE = 4;
+const EVIDENCE_TOKENS = 300;
+
+// Shorter sentences are labels and fragments rather than claims
+const MIN_SENTENCE_WORDS = 4;
+
+// Appended to sentences that fail verification when unsupportedClaims is flag
+const FLAGS: Record<Exclude<ClaimVerdict, 'supported'>, string> = {
+  contradicted: '*(contradicted by sources)*',
+  unsupported: '*(unverified)*'
+};
+
+// Numbered citation markers such as [3] or [1, 4]
+const CITATION_MARKER = /\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g;
+
+export interface ClaimVerificationResult {
+  document: ReportDocument; // Flagged or rewritten according to unsupportedClaims
+  claims: ClaimVerification[];
+}
+
+export class ClaimVerifier extends EventEmitter {
+  private config: Config;
+  private memory: Memory;
+  
+  constructor(config: Config, memory: Memory) {
+    super();
+    this.config = config;
+    this.memory = memory;
+  }
+  
+  /**
+   * Break the report's sentences into atomic claims and judge each against the
+   * research findings, then keep, flag or rewrite the sentences that fail
+   */
+  async verifyReport(
+    document: ReportDocument,
+    context: ResearchContext,
+    llmProvider: LLMProviderSource
+  ): Promise<ClaimVerificationResult> {
+    const sentences = collectClaims(document)
+      .filter(claim => toPlainSentence(claim.text).split(/\s+/).length >= MIN_SENTENCE_WORDS);
+    
+    this.emit('claim_verification_start', { sentences: sentences.length });
+    
+    const claims: ClaimVerification[] = [];
+    for (let i = 0; i < sentences.length; i += SENTENCE_BATCH_SIZE) {
+      const batch = sentences.slice(i, i + SENTENCE_BATCH_SIZE);
+      try {
+        claims.push(...await this.verifyBatch(batch, document, context.findings, llmProvider));
+      } catch (error) {
+        // Sentences of a failed batch are left unjudged rather than failing the report
+        this.emit('claim_verification_error', { error, claimIds: batch.map(claim => claim.id) });
+      }
+    }
+    
+    const revised = await this.reviseDocument(document, claims, llmProvider);
+    this.memory.add('claim_verification', claims, { query: context.query });
+    
+    this.emit('claim_verification_complete', {
+      claims: claims.length,
+      supported: claims.filter(claim => claim.verdict === 'supported').length,
+      contradicted: claims.filter(claim => claim.verdict === 'contradicted').length,
+      unsupported: claims.filter(claim => claim.verdict === 'unsupported').length
+    });
+    
+    return { document: revised, claims };
+  }
+  
+  private async verifyBatch(
+    sentences: ReportClaim[],
+    document: ReportDocument,
+    findings: Finding[],
+    llmProvider: LLMProviderSource
+  ): Promise<ClaimVerification[]> {
+    // Evidence is numbered across the batch so that sentences can share passages
+    const evidence: Finding[] = [];
+    const evidenceLists = sentences.map(sentence =>
+      this.selectEvidence(sentence, document, findings).map(finding => {
+        if (!evidence.includes(finding)) evidence.push(finding);
+        return evidence.indexOf(finding) + 1;
+      })
+    );
+    
+    const model = this.config.get('fastLLMModel');
+    const evidenceText = evidence
+      .map((finding, index) => `[E${index + 1}] ${finding.source}\n${truncateToTokens(finding.content, EVIDENCE_TOKENS, model)}`)
+      .join('\n\n');
+    const sentenceText = sentences
+      .map((sentence, index) => `[S${index + 1}] ${toPlainSentence(sentence.text)} (evidence: ${evidenceLists[index].map(n => `E${n}`).join(', ') || 'none'})`)
+      .join('\n');
+    
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: `You are a meticulous fact checker. You break sentences from a research report into atomic claims and judge each claim only against the evidence passages provided, never against your own knowledge.`
+      },
+      {
+        role: 'user',
+        content: `Evidence passages:
+
+${evidenceText || '(none)'}
+
+Sentences from the report:
+${sentenceText}
+
+For each sentence, list the atomic factual claims it makes: single, self-contained statements of fact. Skip opinions, recommendations, transitions and statements about the report itself.
+Judge each claim against the evidence, starting with the passages listed for its sentence:
+- supported: the evidence states or directly implies the claim
+- contradicted: the evidence states something incompatible with the claim
+- unsupported: the evidence does not settle the claim
+
+Respond with JSON: {"claims": [{"sentence": 1, "claim": "...", "verdict": "supported", "explanation": "one sentence on why", "evidence": [2]}]}
+where sentence is the S number and evidence lists the E numbers of the passages behind the verdict.`
+      }
+    ];
+    
+    const response = await resolveProvider(llmProvider, 'fast').createStructuredCompletion(
+      messages,
+      VERIFICATION_SCHEMA,
+      {
+        model,
+        temperature: 0.1,
+        maxTokens: 2000
+      }
+    );
+    
+    return response.claims
+      .filter(claim => sentences[claim.sentence - 1])
+      .map(claim => ({
+        claimId: sentences[claim.sentence - 1].id,
+        sentence: sentences[claim.sentence - 1].text,
+        claim: claim.claim,
+        verdict: claim.verdict,
+        explanation: claim.explanation,
+        evidence: Array.from(new Set(
+          claim.evidence
+            .filter(n => evidence[n - 1])
+            .map(n => evidence[n - 1].source)
+        ))
+      }));
+  }
+  
+  /**
+   * Findings from the sources a sentence cites, then those sharing the most terms with it
+   */
+  private selectEvidence(sentence: ReportClaim, document: ReportDocument, findings: Finding[]): Finding[] {
+    const citedSources = new Set(
+      document.references
+        .filter(reference => sentence.citations.includes(reference.id) && reference.url)
+        .map(reference => normalizeUrl(reference.url))
+    );
+    const terms = getTerms(sentence.text);
+    const overlap = (finding: Finding) => {
+      const content = getTerms(finding.content);
+      return Array.from(terms).filter(term => content.has(term)).length;
+    };
+    
+    const ranked = findings
+      .map(finding => ({ finding, score: overlap(finding) }))
+      .filter(({ finding, score }) => score > 0 || citedSources.has(normalizeUrl(finding.source)))
+      .sort((a, b) => b.score - a.score)
+      .map(({ finding }) => finding);
+    
+    const cited = ranked.filter(finding => citedSources.has(normalizeUrl(finding.source)));
+    const others = ranked.filter(finding => !citedSources.has(normalizeUrl(finding.source)));
+    return [...cited, ...others].slice(0, EVIDENCE_PER_SENTENCE);
+  }
+  
+  /**
+   * Apply the configured action to sentences with contradicted or unsupported claims
+   */
+  private async reviseDocument(
+    document: ReportDocument,
+    claims: ClaimVerification[],
+    llmProvider: LLMProviderSource
+  ): Promise<ReportDocument> {
+    const action = this.config.get('unsupportedClaims') || 'keep';
+    
+    // A sentence fails with its worst verdict; contradictions outrank missing support
+    const failing: Map<string, Exclude<ClaimVerdict, 'supported'>> = new Map();
+    for (const claim of claims) {
+      if (claim.verdict === 'contradicted' || (claim.verdict === 'unsupported' && !failing.has(claim.claimId))) {
+        failing.set(claim.claimId, claim.verdict);
+      }
+    }
+    
+    if (action === 'keep' || failing.size === 0) {
+      return document;
+    }
+    
+    let rewrites: Map<string, string> = new Map();
+    if (action === 'rewrite') {
+      try {
+        rewrites = await this.rewriteSentences(document, claims, failing, llmProvider);
+      } catch (error) {
+        // Sentences that could not be rewritten are flagged instead
+        this.emit('claim_rewrite_error', { error });
+      }
+    }
+    
+    const revised = mapClaims(document, claim => {
+      const verdict = failing.get(claim.id);
+      if (!verdict) {
+        return claim;
+      }
+      
+      const rewritten = rewrites.get(claim.id);
+      if (rewritten) {
+        return { ...claim, ...citeReferences(rewritten, document) };
+      }
+      return { ...claim, text: `${claim.text} ${FLAGS[verdict]}` };
+    });
+    
+    // Rewrites may drop the only citation of a reference
+    return pruneReferences(revised);
+  }
+  
+  /**
+   * Restate failing sentences so that they only say what the evidence supports
+   */
+  private async rewriteSentences(
+    document: ReportDocument,
+    claims: ClaimVerification[],
+    failing: Map<string, Exclude<ClaimVerdict, 'supported'>>,
+    llmProvider: LLMProviderSource
+  ): Promise<Map<string, string>> {
+    const sentences = collectClaims(document).filter(claim => failing.has(claim.id));
+    const sentenceText = sentences.map((sentence, index) => {
+      const verdicts = claims
+        .filter(claim => claim.claimId === sentence.id)
+        .map(claim => `  - ${claim.verdict}: ${claim.claim}${claim.explanation ? ` (${claim.explanation})` : ''}`);
+      return `[S${index + 1}] ${sentence.text}\n${verdicts.join('\n')}`;
+    }).join('\n\n');
+    
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: `You are an editor correcting a research report after fact checking. You change as little as possible and never add facts that the fact checker did not confirm.`
+      },
+      {
+        role: 'user',
+        content: `These sentences contain claims that the research evidence contradicts or does not support. Each is followed by the fact checker's verdicts.
+
+${sentenceText}
+
+Rewrite each sentence so that it only states what the evidence supports: correct contradicted claims as the verdicts explain, and qualify or drop unsupported claims. Keep the supported claims, the citation markers such as [2] and the markdown links that belong to them, and the sentence's tone.
+
+Respond with JSON: {"sentences": [{"sentence": 1, "text": "the rewritten sentence"}]}`
+      }
+    ];
+    
+    const response = await resolveProvider(llmProvider, 'smart').createStructuredCompletion(
+      messages,
+      REWRITE_SCHEMA,
+      {
+        model: this.config.get('smartLLMModel'),
+        temperature: 0.2,
+        maxTokens: 2000
+      }
+    );
+    
+    const rewrites: Map<string, string> = new Map();
+    for (const { sentence, text } of response.sentences) {
+      if (sentences[sentence - 1] && text.trim()) {
+        rewrites.set(sentences[sentence - 1].id, text.trim());
+      }
+    }
+    return rewrites;
+  }
+}
+
+/**
+ * The claims of a document in reading order
+ */
+function collectClaims(document: ReportDocument): ReportClaim[] {
+  const claims: ReportClaim[] = [];
+
+  const visitList = (list: ReportList) => list.items.forEach(item => {
+    claims.push(...item.claims);
+    if (item.list) visitList(item.list);
+    if (item.blocks) visitBlocks(item.blocks);
+  });
+  const visitBlocks = (blocks: ReportBlock[]) => blocks.forEach(block => {
+    if (block.type === 'paragraph') claims.push(...block.claims);
+    if (block.type === 'list') visitList(block);
+    if (block.type === 'quote') visitBlocks(block.blocks);
+  });
+  const visitSection = (section: ReportDocumentSection) => {
+    visitBlocks(section.blocks);
+    section.sections.forEach(visitSection);
+  };
+
+  visitBlocks(document.blocks);
+  document.sections.forEach(visitSection);
+  return claims;
+}
+
+/**
+ * Copy a document with each claim replaced by the result of fn
+ */
+function mapClaims(document: ReportDocument, fn: (claim: ReportClaim) => ReportClaim): ReportDocument {
+  const mapList = (list: ReportList): ReportList => ({
+    ...list,
+    items: list.items.map(item => ({
+      ...item,
+      claims: item.claims.map(fn),
+      ...(item.list ? { list: mapList(item.list) } : {}),
+      ...(item.blocks ? { blocks: item.blocks.map(mapBlock) } : {})
+    }))
+  });
+  const mapBlock = (block: ReportBlock): ReportBlock => {
+    switch (block.type) {
+      case 'paragraph':
+        return { ...block, claims: block.claims.map(fn) };
+      case 'list':
+        return mapList(block);
+      case 'quote':
+        return { ...block, blocks: block.blocks.map(mapBlock) };
+      default:
+        return block;
+    }
+  };
+  const mapSection = (section: ReportDocumentSection): ReportDocumentSection => ({
+    ...section,
+    blocks: section.blocks.map(mapBlock),
+    sections: section.sections.map(mapSection)
+  });
+
+  return {
+    ...document,
+    blocks: document.blocks.map(mapBlock),
+    sections: document.sections.map(mapSection)
+  };
+}
+
+/**
+ * A rewritten sentence without markers that number no reference, and the ids of
+ * the references it cites through markers or links
+ */
+function citeReferences(text: string, document: ReportDocument): Pick<ReportClaim, 'text' | 'citations'> {
+  const numbers: Set<number> = new Set();
+  const cited = renumberCitations(text, number => {
+    if (!document.references.some(reference => reference.number === number)) {
+      return undefined;
+    }
+    numbers.add(number);
+    return number;
+  });
+
+  return {
+    text: cited,
+    citations: document.references
+      .filter(reference => numbers.has(reference.number) || (reference.url && cited.includes(`](${reference.url}`)))
+      .map(reference => reference.id)
+  };
+}
+
+/**
+ * A sentence without markdown links, emphasis or citation markers
+ */
+function toPlainSentence(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(CITATION_MARKER, '')
+    .replace(/[*_`]/g, '')
+    .replace(/\s+([.,;:!?])/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function getTerms(text: string): Set<string> {
+  return new Set(
+    toPlainSentence(text)
+      .toLowerCase()
+      .split(/[^a-z0-9%.]+/)
+      .map(term => term.replace(/\.+$/, ''))
+      .filter(term => term.length > 3 || /\d/.test(term))
+  );
+}
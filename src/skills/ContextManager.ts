@@ -1,28 +1,52 @@
 import { EventEmitter } from 'events';
+import { createHash } from 'crypto';
 import { Config } from '../core/Config';
 import { Memory } from '../core/Memory';
-import { ChatMessage } from '../types';
+import { ChatMessage, Finding, SourceType, ReportSource } from '../types';
+import { LLMProviderSource, resolveProvider } from '../providers/LLMRouter';
 import { LLMProvider } from '../providers/LLMProvider';
 import { estimateTokens } from '../utils/cost';
+import { cosineSimilarity } from '../utils/vectors';
+import { getPromptBudget } from '../utils/models';
+import { VectorStore, MetadataValue, createVectorStore } from '../vectorstores';
 
 export interface ContextChunk {
   content: string;
   source: string;
+  sourceType: SourceType;
+  title?: string;
   relevance: number;
   tokens: number;
 }
 
+export interface ContextSource {
+  url: string;
+  content: string;
+  title?: string;
+  sourceType?: SourceType; // Defaults to 'web'
+}
+
+// Sources are split into passages of this size, which are ranked and selected individually
+const CHUNK_TOKENS = 500;
+
+// Passages sent per embeddings request
+const EMBEDDING_BATCH_SIZE = 96;
+
+// Passages from earlier research runs that may join each query's candidates
+const STORED_CANDIDATES = 20;
+
 export class ContextManager extends EventEmitter {
   private config: Config;
   private memory: Memory;
-  private maxContextTokens: number;
+  private vectorStore: VectorStore;
+  private maxContextTokens?: number; // Derived from the report model's context window unless set
   private compressionRatio: number;
   
-  constructor(config: Config, memory: Memory) {
+  constructor(config: Config, memory: Memory, vectorStore?: VectorStore) {
     super();
     this.config = config;
     this.memory = memory;
-    this.maxContextTokens = 8000; // Default max context size
+    this.vectorStore = vectorStore || createVectorStore(config);
     this.compressionRatio = 0.3; // Target compression ratio
   }
   
@@ -30,34 +54,47 @@ export class ContextManager extends EventEmitter {
    * Build context from search results and scraped content
    */
   async buildContext(
-    sources: Array<{ url: string; content: string }>,
-    llmProvider: LLMProvider
-  ): Promise<string[]> {
+    sources: ContextSource[],
+    llmProvider: LLMProviderSource,
+    subtopics: string[] = []
+  ): Promise<Finding[]> {
     this.emit('context_building_start', { sources: sources.length });
     
     try {
       // Create context chunks from sources
       const chunks = this.createContextChunks(sources);
       
-      // Sort by relevance
-      chunks.sort((a, b) => b.relevance - a.relevance);
+      // Rank passages by meaning when the provider can embed them
+      const rankedChunks = await this.rankChunks(chunks, subtopics, llmProvider);
+      
+      // Sort by relevance, alternating between web and local sources when both are present
+      const orderedChunks = this.orderChunks(rankedChunks);
       
       // Select chunks within token limit
-      const selectedChunks = this.selectChunks(chunks);
+      const selectedChunks = this.selectChunks(orderedChunks);
       
       // Compress if needed
       const compressedContext = await this.compressContext(selectedChunks, llmProvider);
       
+      // Keep track of where each piece of context came from
+      const findings: Finding[] = compressedContext.map((content, index) => ({
+        content,
+        source: selectedChunks[index].source,
+        sourceType: selectedChunks[index].sourceType,
+        title: selectedChunks[index].title
+      }));
+      
       // Store in memory
-      compressedContext.forEach(ctx => this.memory.addContext(ctx));
+      findings.forEach(finding => this.memory.addFinding(finding));
       
       this.emit('context_building_complete', {
         originalSources: sources.length,
-        contextItems: compressedContext.length,
-        totalTokens: compressedContext.reduce((sum, ctx) => sum + estimateTokens(ctx), 0)
+        contextItems: findings.length,
+        localItems: findings.filter(finding => finding.sourceType === 'local').length,
+        totalTokens: compressedContext.reduce((sum, ctx) => sum + estimateTokens(ctx, this.getContextModel()), 0)
       });
       
-      return compressedContext;
+      return findings;
       
     } catch (error) {
       this.emit('context_building_error', { error });
@@ -68,26 +105,172 @@ export class ContextManager extends EventEmitter {
   /**
    * Create context chunks from sources
    */
-  private createContextChunks(
-    sources: Array<{ url: string; content: string }>
-  ): ContextChunk[] {
+  private createContextChunks(sources: ContextSource[]): ContextChunk[] {
     const query = this.config.get('query')?.toLowerCase() || '';
     const queryTerms = query.split(/\s+/).filter((term: string) => term.length > 2);
     
-    return sources.map(source => {
-      const content = this.cleanContent(source.content);
-      const tokens = estimateTokens(content);
-      const relevance = this.calculateRelevance(content, queryTerms);
+    return sources.flatMap(source => {
+      const sourceType = source.sourceType || 'web';
+      const cleaned = this.cleanContent(source.content);
       
-      return {
+      return this.splitIntoChunks(cleaned, CHUNK_TOKENS).map(content => ({
         content,
         source: source.url,
-        relevance,
-        tokens
-      };
+        sourceType,
+        title: source.title,
+        relevance: this.calculateRelevance(content, queryTerms),
+        tokens: estimateTokens(content, this.getContextModel())
+      }));
     });
   }
   
+  /**
+   * Store the embedded chunks and read back the passages closest to the query or
+   * any subtopic, which can include passages stored by earlier research runs.
+   * Chunks keep their keyword relevance when embedding fails
+   */
+  private async rankChunks(
+    chunks: ContextChunk[],
+    subtopics: string[],
+    llmProvider: LLMProviderSource
+  ): Promise<ContextChunk[]> {
+    const targets = [this.config.get('query'), ...subtopics].filter(Boolean) as string[];
+    if (chunks.length === 0 || targets.length === 0) {
+      return chunks;
+    }
+    
+    // Providers such as Anthropic and Groq have no embeddings endpoint
+    const provider = resolveProvider(llmProvider, 'fast');
+    if (!provider.supportsEmbeddings()) {
+      this.emit('chunks_ranked', { chunks: chunks.length, method: 'keyword' });
+      return chunks;
+    }
+    
+    try {
+      const [targetVectors, chunkVectors] = await Promise.all([
+        this.embed(targets, provider),
+        this.embed(chunks.map(chunk => chunk.content), provider)
+      ]);
+      
+      // Replace what was stored for a source before, since the page may have changed
+      for (const source of new Set(chunks.map(chunk => chunk.source))) {
+        await this.vectorStore.deleteBySource(source);
+      }
+      const embeddingModel = this.getEmbeddingModel();
+      const ids = chunks.map(chunk =>
+        createHash('sha256').update(`${chunk.source}\n${chunk.content}`).digest('hex')
+      );
+      await this.vectorStore.upsert(chunks.map((chunk, index) => ({
+        id: ids[index],
+        vector: chunkVectors[index],
+        content: chunk.content,
+        metadata: { source: chunk.source, sourceType: chunk.sourceType, title: chunk.title, embeddingModel }
+      })));
+      
+      // Keep each passage's best score across the query and subtopics
+      const ranked: Map<string, ContextChunk> = new Map();
+      const keep = (id: string, chunk: ContextChunk) => {
+        if ((ranked.get(id)?.relevance ?? -Infinity) < chunk.relevance) {
+          ranked.set(id, chunk);
+        }
+      };
+      
+      for (const vector of targetVectors) {
+        const scores = chunkVectors.map(chunkVector => cosineSimilarity(vector, chunkVector));
+        chunks.forEach((chunk, index) => keep(ids[index], { ...chunk, relevance: scores[index] }));
+        
+        // Stored passages must be at least as close to the target as this run's weakest passage
+        const matches = await this.vectorStore.query(vector, {
+          topK: chunks.length + STORED_CANDIDATES,
+          // Vectors of other embedding models are not comparable, even of the same length
+          filter: { ...this.getSourceFilter(), embeddingModel },
+          minScore: Math.min(...scores)
+        });
+        
+        for (const match of matches) {
+          keep(match.id, {
+            content: match.content,
+            source: match.metadata.source,
+            sourceType: match.metadata.sourceType || 'web',
+            title: match.metadata.title,
+            relevance: match.score,
+            tokens: estimateTokens(match.content, this.getContextModel())
+          });
+        }
+      }
+      
+      this.emit('chunks_ranked', { chunks: ranked.size, method: 'embedding' });
+      return Array.from(ranked.values());
+    } catch (error: any) {
+      this.emit('embedding_error', { error: error.message });
+      this.emit('chunks_ranked', { chunks: chunks.length, method: 'keyword' });
+      return chunks;
+    }
+  }
+  
+  /**
+   * Only draw on stored passages of the kinds this report researches
+   */
+  private getSourceFilter(): Record<string, MetadataValue> | undefined {
+    switch (this.config.get('reportSource')) {
+      case ReportSource.Web:
+        return { sourceType: 'web' };
+      case ReportSource.Local:
+        return { sourceType: 'local' };
+      default:
+        return undefined;
+    }
+  }
+  
+  /**
+   * The provider and model passages are embedded with, e.g. "openai/text-embedding-3-small"
+   */
+  private getEmbeddingModel(): string {
+    return `${this.config.getProviderForRole('fast')}/${this.config.get('embeddingModel') || 'default'}`;
+  }
+  
+  /**
+   * Embed texts in batches
+   */
+  private async embed(texts: string[], provider: LLMProvider): Promise<number[][]> {
+    const vectors: number[][] = [];
+    
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+      const embeddings = await provider.createEmbedding(batch, {
+        model: this.config.get('embeddingModel')
+      });
+      
+      if (!Array.isArray(embeddings[0]) || embeddings.length !== batch.length) {
+        throw new Error('Provider returned no embeddings');
+      }
+      vectors.push(...(embeddings as number[][]));
+    }
+    
+    return vectors;
+  }
+  
+  /**
+   * Order chunks by relevance. With mixed sources, web and local chunks take turns
+   * so that neither kind crowds the other out of the token budget
+   */
+  private orderChunks(chunks: ContextChunk[]): ContextChunk[] {
+    const byRelevance = (a: ContextChunk, b: ContextChunk) => b.relevance - a.relevance;
+    const web = chunks.filter(chunk => chunk.sourceType === 'web').sort(byRelevance);
+    const local = chunks.filter(chunk => chunk.sourceType === 'local').sort(byRelevance);
+    
+    if (web.length === 0 || local.length === 0) {
+      return [...web, ...local];
+    }
+    
+    const ordered: ContextChunk[] = [];
+    for (let i = 0; i < Math.max(web.length, local.length); i++) {
+      if (local[i]) ordered.push(local[i]);
+      if (web[i]) ordered.push(web[i]);
+    }
+    return ordered;
+  }
+  
   /**
    * Calculate relevance score for content
    */
@@ -119,10 +302,11 @@ export class ContextManager extends EventEmitter {
    */
   private selectChunks(chunks: ContextChunk[]): ContextChunk[] {
     const selected: ContextChunk[] = [];
+    const maxContextTokens = this.getMaxContextTokens();
     let totalTokens = 0;
     
     for (const chunk of chunks) {
-      if (totalTokens + chunk.tokens <= this.maxContextTokens) {
+      if (totalTokens + chunk.tokens <= maxContextTokens) {
         selected.push(chunk);
         totalTokens += chunk.tokens;
       } else if (chunk.relevance > selected[selected.length - 1]?.relevance) {
@@ -133,7 +317,7 @@ export class ContextManager extends EventEmitter {
         
         if (chunk.relevance > selected[leastRelevantIndex].relevance) {
           totalTokens = totalTokens - selected[leastRelevantIndex].tokens + chunk.tokens;
-          if (totalTokens <= this.maxContextTokens) {
+          if (totalTokens <= maxContextTokens) {
             selected[leastRelevantIndex] = chunk;
           }
         }
@@ -148,7 +332,7 @@ export class ContextManager extends EventEmitter {
    */
   async compressContext(
     chunks: ContextChunk[],
-    llmProvider: LLMProvider
+    llmProvider: LLMProviderSource
   ): Promise<string[]> {
     this.emit('compression_start', { chunks: chunks.length });
     
@@ -167,7 +351,7 @@ export class ContextManager extends EventEmitter {
         
         this.emit('chunk_compressed', {
           original: chunk.tokens,
-          compressed: estimateTokens(compressedContent),
+          compressed: estimateTokens(compressedContent, this.getContextModel()),
           source: chunk.source
         });
       } catch (error) {
@@ -190,7 +374,7 @@ export class ContextManager extends EventEmitter {
    */
   private async compressChunk(
     chunk: ContextChunk,
-    llmProvider: LLMProvider
+    llmProvider: LLMProviderSource
   ): Promise<string> {
     const systemPrompt = `You are a content compression assistant. Your task is to compress the given text while preserving all key information, facts, and insights. Remove redundancy and verbose language but keep all important details.`;
     
@@ -205,7 +389,7 @@ Compressed version:`;
       { role: 'user', content: userPrompt }
     ];
     
-    const compressed = await llmProvider.createChatCompletion(messages, {
+    const compressed = await resolveProvider(llmProvider, 'fast').createChatCompletion(messages, {
       model: this.config.get('fastLLMModel'),
       temperature: 0.3,
       maxTokens: Math.floor(chunk.tokens * this.compressionRatio * 1.2)
@@ -260,7 +444,7 @@ Compressed version:`;
    */
   async extractKeyPoints(
     context: string[],
-    llmProvider: LLMProvider
+    llmProvider: LLMProviderSource
   ): Promise<string[]> {
     this.emit('extraction_start', { contexts: context.length });
     
@@ -281,7 +465,7 @@ Key points:`;
       ];
       
       try {
-        const points = await llmProvider.createChatCompletion(messages, {
+        const points = await resolveProvider(llmProvider, 'fast').createChatCompletion(messages, {
           model: this.config.get('fastLLMModel'),
           temperature: 0.3,
           maxTokens: 500
@@ -322,13 +506,14 @@ Key points:`;
    */
   splitIntoChunks(text: string, maxTokensPerChunk: number = 1000): string[] {
     const chunks: string[] = [];
-    const sentences = text.match(/[^.!?]+[.!?]+/g) || [text];
+    // Text after the last sentence terminator is kept as a final sentence
+    const sentences = text.match(/[^.!?]+(?:[.!?]+|$)/g) || [text];
     
     let currentChunk = '';
     let currentTokens = 0;
     
     for (const sentence of sentences) {
-      const sentenceTokens = estimateTokens(sentence);
+      const sentenceTokens = estimateTokens(sentence, this.getContextModel());
       
       if (currentTokens + sentenceTokens > maxTokensPerChunk && currentChunk) {
         chunks.push(currentChunk.trim());
@@ -357,7 +542,7 @@ Key points:`;
     compressionRatio: number;
   } {
     const contexts = this.memory.getContext();
-    const totalTokens = contexts.reduce((sum, ctx) => sum + estimateTokens(ctx), 0);
+    const totalTokens = contexts.reduce((sum, ctx) => sum + estimateTokens(ctx, this.getContextModel()), 0);
     
     return {
       totalContextItems: contexts.length,
@@ -376,12 +561,35 @@ Key points:`;
   }
   
   /**
-   * Set maximum context tokens
+   * Get the token budget for research context. The context ends up in the report
+   * prompt, so it has to fit the smart model's window alongside the report itself
+   */
+  getMaxContextTokens(): number {
+    if (this.maxContextTokens !== undefined) {
+      return this.maxContextTokens;
+    }
+    
+    return getPromptBudget(this.getContextModel(), this.config.get('maxTokens') || 4000);
+  }
+  
+  private getContextModel(): string | undefined {
+    return this.config.get('smartLLMModel');
+  }
+  
+  /**
+   * Set maximum context tokens, overriding the model-derived budget
    */
   setMaxTokens(maxTokens: number): void {
     this.maxContextTokens = maxTokens;
   }
   
+  /**
+   * Get the store that embedded passages are kept in
+   */
+  getVectorStore(): VectorStore {
+    return this.vectorStore;
+  }
+  
   /**
    * Set compression ratio
    */
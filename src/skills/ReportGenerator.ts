@@ -6,10 +6,23 @@ import {
   ReportType, 
   Tone, 
   ChatMessage,
-  SearchResult 
+  SearchResult,
+  Finding,
+  ReportFormat,
+  ExportedReport,
+  ReportDocument,
+  ReportDocumentSection,
+  CitationStyle,
+  BibliographyFormat
 } from '../types';
-import { LLMProvider } from '../providers/LLMProvider';
+import { LLMProviderSource, resolveProvider } from '../providers/LLMRouter';
 import nunjucks from 'nunjucks';
+import { countTokens, truncateToTokens } from '../utils/tokenizer';
+import { getPromptBudget } from '../utils/models';
+import { collectCitableSources, formatCitation, isScholarlySource } from '../utils/citations';
+import { normalizeUrl } from '../utils/domains';
+import { ExporterFactory, buildReportDocument, renderMarkdown } from '../exporters';
+import { CitationFormatterFactory, exportBibliography } from '../citations';
 
 export interface ReportSection {
   title: string;
@@ -24,6 +37,17 @@ export interface ReportTemplate {
   format?: string;
 }
 
+// A document without content, for rendering loose blocks
+const EMPTY_DOCUMENT: ReportDocument = {
+  title: '',
+  query: '',
+  reportType: ReportType.ResearchReport,
+  generatedAt: '',
+  blocks: [],
+  sections: [],
+  references: []
+};
+
 export class ReportGenerator extends EventEmitter {
   private config: Config;
   private memory: Memory;
@@ -155,6 +179,31 @@ Create a comprehensive outline that:
 Use proper outline formatting with multiple levels.`,
       sections: []
     });
+    
+    // Academic Report Template
+    this.templates.set(ReportType.AcademicReport, {
+      systemPrompt: `You are a scholar writing a literature review for an academic audience.
+Base every claim on the provided papers and cite them in the text as (Author, Year) followed by their reference number, using the reference list given.
+Distinguish preprints from peer-reviewed work, and note disagreements, limitations and open questions in the literature.
+Use precise, formal scholarly language.`,
+      userPrompt: `Write an academic literature review on: "{{query}}"
+
+Findings from the literature:
+{{findings}}
+
+References:
+{{sources}}
+
+Please write a review that:
+1. Introduces the research question and its significance
+2. Synthesizes the main findings, grouping related work
+3. Compares methods and results across studies
+4. Identifies gaps, limitations and directions for future research
+5. Concludes with the state of current knowledge
+
+Cite the references in the text as (Author, Year) [n], for example (Smith, 2021) [3]. Format the review with clear markdown headings.`,
+      sections: ['Abstract', 'Introduction', 'Literature Review', 'Discussion', 'Future Directions', 'Conclusion', 'References']
+    });
   }
   
   /**
@@ -162,7 +211,7 @@ Use proper outline formatting with multiple levels.`,
    */
   async generateReport(
     context: ResearchContext,
-    llmProvider: LLMProvider
+    llmProvider: LLMProviderSource
   ): Promise<string> {
     this.emit('report_generation_start', { 
       query: context.query,
@@ -177,7 +226,10 @@ Use proper outline formatting with multiple levels.`,
       const templateContext = this.prepareTemplateContext(context);
       
       // Render the prompts with the context
-      const systemPrompt = this.applyTone(template.systemPrompt, this.config.get('tone'));
+      const systemPrompt = this.applyCitations(this.applySourceAttribution(
+        this.applyTone(template.systemPrompt, this.config.get('tone')),
+        context
+      ));
       const userPrompt = this.templateEngine.renderString(template.userPrompt, templateContext);
       
       // Create messages for LLM
@@ -187,7 +239,7 @@ Use proper outline formatting with multiple levels.`,
       ];
       
       // Generate the report
-      const report = await llmProvider.createChatCompletion(messages, {
+      const report = await resolveProvider(llmProvider, 'smart').createChatCompletion(messages, {
         model: this.config.get('smartLLMModel'),
         temperature: this.config.get('temperature') || 0.7,
         maxTokens: this.config.get('maxTokens') || 4000
@@ -218,7 +270,7 @@ Use proper outline formatting with multiple levels.`,
    */
   async *generateReportStream(
     context: ResearchContext,
-    llmProvider: LLMProvider
+    llmProvider: LLMProviderSource
   ): AsyncGenerator<string> {
     this.emit('report_stream_start', { 
       query: context.query,
@@ -233,7 +285,10 @@ Use proper outline formatting with multiple levels.`,
       const templateContext = this.prepareTemplateContext(context);
       
       // Render the prompts with the context
-      const systemPrompt = this.applyTone(template.systemPrompt, this.config.get('tone'));
+      const systemPrompt = this.applyCitations(this.applySourceAttribution(
+        this.applyTone(template.systemPrompt, this.config.get('tone')),
+        context
+      ));
       const userPrompt = this.templateEngine.renderString(template.userPrompt, templateContext);
       
       // Create messages for LLM
@@ -244,7 +299,7 @@ Use proper outline formatting with multiple levels.`,
       
       // Stream the report generation
       let fullReport = '';
-      const stream = llmProvider.createChatCompletionStream(messages, {
+      const stream = resolveProvider(llmProvider, 'smart').createChatCompletionStream(messages, {
         model: this.config.get('smartLLMModel'),
         temperature: this.config.get('temperature') || 0.7,
         maxTokens: this.config.get('maxTokens') || 4000
@@ -274,11 +329,18 @@ Use proper outline formatting with multiple levels.`,
    * Prepare template context from research context
    */
   private prepareTemplateContext(context: ResearchContext): Record<string, any> {
-    // Format findings for better readability
-    const formattedFindings = context.findings
-      .slice(0, 20) // Limit to top 20 findings
-      .map((finding, index) => `${index + 1}. ${finding}`)
-      .join('\n\n');
+    const sources = collectCitableSources(context.sources, context.findings);
+    const sourceNumbers = new Map<string, number>();
+    sources.forEach((source, index) => {
+      if (!sourceNumbers.has(normalizeUrl(source.url))) {
+        sourceNumbers.set(normalizeUrl(source.url), index + 1);
+      }
+    });
+    
+    // Label findings with their source numbers, keeping as many as fit the model's window
+    const formattedFindings = this.fitFindings(context.findings.map(finding =>
+      this.formatFinding(finding, sourceNumbers.get(normalizeUrl(finding.source))!)
+    )).join('\n\n');
     
     // Format subtopics
     const formattedSubtopics = context.subtopics
@@ -286,9 +348,18 @@ Use proper outline formatting with multiple levels.`,
       : '';
     
     // Format sources for citation
-    const formattedSources = context.sources
+    const style = this.getCitationStyle(context);
+    const formatter = style ? CitationFormatterFactory.create(style) : undefined;
+    const formattedSources = sources
       .slice(0, 20)
-      .map((source, index) => `[${index + 1}] ${source.title} - ${source.url}`)
+      .map((source, index) => {
+        if (formatter) {
+          return `[${index + 1}] ${formatter.format(source)}`;
+        }
+        return isScholarlySource(source)
+          ? `[${index + 1}] ${formatCitation(source)}`
+          : `[${index + 1}] ${source.title} - ${source.url}${this.sourceLabel(source)}`;
+      })
       .join('\n');
     
     return {
@@ -301,6 +372,44 @@ Use proper outline formatting with multiple levels.`,
     };
   }
   
+  /**
+   * Label a finding with its source number and origin so the model can cite and attribute claims
+   */
+  private formatFinding(finding: Finding, sourceNumber: number): string {
+    const origin = finding.sourceType === 'local' ? 'Internal document' : 'Web';
+    const title = finding.title && finding.title !== finding.source ? `${finding.title} - ` : '';
+    return `[${sourceNumber}] ${origin}: ${title}${finding.source}\n${finding.content}`;
+  }
+  
+  private sourceLabel(source: SearchResult): string {
+    return source.sourceType === 'local' ? ' (internal document)' : '';
+  }
+  
+  /**
+   * Select findings in order until the smart model's prompt budget is used up
+   */
+  private fitFindings(findings: string[]): string[] {
+    const model = this.config.get('smartLLMModel');
+    let remaining = getPromptBudget(model, this.config.get('maxTokens') || 4000);
+    const selected: string[] = [];
+    
+    for (const finding of findings) {
+      const tokens = countTokens(finding, model);
+      if (tokens > remaining) {
+        // Keep at least part of the first finding rather than sending no research at all
+        if (selected.length === 0) {
+          selected.push(truncateToTokens(finding, remaining, model));
+        }
+        break;
+      }
+      
+      selected.push(finding);
+      remaining -= tokens;
+    }
+    
+    return selected;
+  }
+  
   /**
    * Apply tone modifications to the system prompt
    */
@@ -330,6 +439,31 @@ Use proper outline formatting with multiple levels.`,
     return systemPrompt + (toneModifiers[tone] || '');
   }
   
+  /**
+   * When findings mix internal documents with web sources, ask the model to say which is which
+   */
+  private applySourceAttribution(systemPrompt: string, context: ResearchContext): string {
+    const sourceTypes = new Set(context.findings.map(finding => finding.sourceType));
+    if (sourceTypes.size < 2) {
+      return systemPrompt;
+    }
+    
+    return systemPrompt + `
+The research findings combine internal documents with public web sources, and each finding is labelled with its origin.
+Make clear which claims come from internal documents and which come from the web, for example "according to internal documents" or "public reporting shows".
+Where internal documents and web sources disagree, point out the difference rather than silently picking one.`;
+  }
+  
+  /**
+   * Ask for inline [n] citations of the numbered sources
+   */
+  private applyCitations(systemPrompt: string): string {
+    return systemPrompt + `
+Each research finding starts with the number of its source in square brackets, such as [3].
+Cite the sources of your claims inline with these numbers, for example [3] or [2, 5], at the end of the sentence they support.
+Only use numbers that appear in the findings, and do not write a references section; one is added from the sources you cite.`;
+  }
+  
   /**
    * Post-process the generated report
    */
@@ -350,37 +484,12 @@ Use proper outline formatting with multiple levels.`,
     
     processedReport = `${processedReport.split('\n')[0]}\n\n${metadata}\n\n${processedReport.split('\n').slice(1).join('\n')}`;
     
-    // Add references section if not present
-    if (!processedReport.toLowerCase().includes('## references') && 
-        !processedReport.toLowerCase().includes('## sources')) {
-      processedReport += this.generateReferencesSection(context.sources);
-    }
-    
     // Clean up formatting
     processedReport = this.cleanFormatting(processedReport);
     
     return processedReport;
   }
   
-  /**
-   * Generate references section
-   */
-  private generateReferencesSection(sources: SearchResult[]): string {
-    if (sources.length === 0) return '';
-    
-    let references = '\n\n## References\n\n';
-    
-    sources.slice(0, 20).forEach((source, index) => {
-      references += `${index + 1}. [${source.title}](${source.url})`;
-      if (source.publishedDate) {
-        references += ` - ${new Date(source.publishedDate).toLocaleDateString()}`;
-      }
-      references += '\n';
-    });
-    
-    return references;
-  }
-  
   /**
    * Clean up report formatting
    */
@@ -388,45 +497,116 @@ Use proper outline formatting with multiple levels.`,
     return report
       .replace(/\n{3,}/g, '\n\n') // Remove excessive newlines
       .replace(/^\s+|\s+$/g, '') // Trim whitespace
-      .replace(/^- /gm, '• ') // Replace dashes with bullets
       .replace(/\*\*\*\*/g, '**') // Fix bold formatting
       .replace(/\[(\d+)\]\s*\[/g, '[$1] [') // Fix reference formatting
       .trim();
   }
   
   /**
-   * Extract sections from a report
+   * Structure a finished report as a document tree. Its [n] citations are checked
+   * against the sources numbered in the prompt, and the cited sources become its references
    */
-  extractSections(report: string): ReportSection[] {
-    const sections: ReportSection[] = [];
-    const lines = report.split('\n');
+  createDocument(report: string, context: ResearchContext): ReportDocument {
+    const document = buildReportDocument(report, {
+      query: context.query,
+      reportType: context.reportType,
+      sources: collectCitableSources(context.sources, context.findings),
+      citationStyle: this.getCitationStyle(context)
+    });
     
-    let currentSection: ReportSection | null = null;
+    this.emit('citations_resolved', {
+      references: document.references.length,
+      sources: context.sources.length
+    });
     
-    for (const line of lines) {
-      const headingMatch = line.match(/^(#{1,6})\s+(.+)$/);
-      
-      if (headingMatch) {
-        // Save current section if exists
-        if (currentSection) {
-          sections.push(currentSection);
-        }
-        
-        // Start new section
-        currentSection = {
-          title: headingMatch[2],
-          content: '',
-          level: headingMatch[1].length
-        };
-      } else if (currentSection) {
-        currentSection.content += line + '\n';
-      }
+    return document;
+  }
+  
+  /**
+   * Export the sources a document cites as a BibTeX or CSL-JSON bibliography. The research
+   * context or result provides the sources the document was built from
+   */
+  exportBibliography(
+    document: ReportDocument,
+    research: { sources: SearchResult[]; findings?: Finding[] },
+    format: BibliographyFormat
+  ): string {
+    const sources = new Map(
+      collectCitableSources(research.sources, research.findings).map(source => [source.url, source])
+    );
+    const cited = document.references
+      .map(reference => sources.get(reference.url))
+      .filter((source): source is SearchResult => !!source);
+    
+    return exportBibliography(cited, format);
+  }
+  
+  /**
+   * The configured citation style; academic reports use APA when none is set
+   */
+  private getCitationStyle(context: ResearchContext): CitationStyle | undefined {
+    const style = this.config.get('citationStyle');
+    if (style) {
+      return style;
     }
     
-    // Add the last section
-    if (currentSection) {
-      sections.push(currentSection);
+    const academic = context.reportType === ReportType.AcademicReport ||
+      this.config.get('tone') === Tone.Academic;
+    return academic ? CitationStyle.APA : undefined;
+  }
+  
+  /**
+   * Render a document tree as markdown
+   */
+  renderMarkdown(document: ReportDocument): string {
+    return renderMarkdown(document);
+  }
+  
+  /**
+   * Render a report document to a file format, by default the configured reportFormat
+   */
+  async exportReport(
+    document: ReportDocument,
+    format?: ReportFormat
+  ): Promise<ExportedReport> {
+    const reportFormat = format || this.config.get('reportFormat') || ReportFormat.Markdown;
+    
+    try {
+      const exported = await ExporterFactory.create(reportFormat).export(renderMarkdown(document), {
+        title: document.title,
+        query: document.query,
+        document
+      });
+      
+      this.emit('report_exported', {
+        format: reportFormat,
+        filename: exported.filename,
+        size: exported.content.length
+      });
+      
+      return exported;
+      
+    } catch (error) {
+      this.emit('report_export_error', { format: reportFormat, error });
+      throw error;
     }
+  }
+  
+  /**
+   * Extract sections from a report
+   */
+  extractSections(report: string): ReportSection[] {
+    const sections: ReportSection[] = [];
+    
+    const collect = (section: ReportDocumentSection) => {
+      sections.push({
+        title: section.title,
+        content: renderMarkdown({ ...EMPTY_DOCUMENT, blocks: section.blocks }),
+        level: section.level
+      });
+      section.sections.forEach(collect);
+    };
+    buildReportDocument(report).sections.forEach(collect);
     
     return sections;
   }
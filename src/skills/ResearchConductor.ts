@@ -1,10 +1,13 @@
 import { EventEmitter } from 'events';
 import { Config } from '../core/Config';
 import { Memory } from '../core/Memory';
-import { SearchResult, SearchOptions, ResearchContext } from '../types';
+import { SearchResult, SearchOptions, ResearchContext, Finding } from '../types';
 import { BaseRetriever, RetrieverFactory } from '../retrievers';
+import { isAllowedUrl, normalizeUrl } from '../utils/domains';
+import { RankedResults, reciprocalRankFusion } from '../utils/rankFusion';
+import { CacheStore, createCacheKey, getCache } from '../cache';
 // import { WorkerPool, BatchProcessor } from '../utils/workers'; // Reserved for future use
-import { LLMProvider } from '../providers/LLMProvider';
+import { LLMProviderSource, resolveProvider } from '../providers/LLMRouter';
 
 export interface ResearchQuery {
   query: string;
@@ -15,6 +18,7 @@ export interface ResearchQuery {
 export class ResearchConductor extends EventEmitter {
   private config: Config;
   private memory: Memory;
+  private cache?: CacheStore | null;
   // private retriever: BaseRetriever; // Created dynamically
   // private workerPool: WorkerPool; // Reserved for future use
   // private batchProcessor: BatchProcessor<string, SearchResult[]>; // Reserved for future use
@@ -44,7 +48,7 @@ export class ResearchConductor extends EventEmitter {
    */
   async planResearchOutline(
     query: string,
-    llmProvider: LLMProvider
+    llmProvider: LLMProviderSource
   ): Promise<string[]> {
     this.emit('planning_start', { query });
     
@@ -60,8 +64,9 @@ Generate specific research questions that would help gather comprehensive inform
     ];
     
     try {
-      const response = await llmProvider.createChatCompletion(messages, {
-        model: this.config.get('smartLLMModel'),
+      // Planning the research is the strategic model's job
+      const response = await resolveProvider(llmProvider, 'strategic').createChatCompletion(messages, {
+        model: this.config.get('strategicLLMModel'),
         temperature: 0.7,
         maxTokens: 500
       });
@@ -94,8 +99,9 @@ Generate specific research questions that would help gather comprehensive inform
     this.emit('search_start', { queries: queries.length });
     
     const allResults: SearchResult[] = [];
-    const searchOptions = {
+    const searchOptions: SearchOptions = {
       maxResults: this.config.get('maxSearchResults') || 10,
+      includeDomains: this.config.get('queryDomains'),
       ...options
     };
     
@@ -137,6 +143,10 @@ Generate specific research questions that would help gather comprehensive inform
     query: string,
     options?: SearchOptions
   ): Promise<SearchResult[]> {
+    if (this.config.get('searchStrategy') === 'fanout') {
+      return this.searchAllRetrievers(query, options);
+    }
+    
     try {
       // Try multiple retrievers if the first one fails
       const retrievers = this.getAvailableRetrievers();
@@ -147,7 +157,11 @@ Generate specific research questions that would help gather comprehensive inform
           const retriever = this.getRetriever(retrieverName);
           if (!retriever) continue;
           
-          const results = await retriever.search(query, options);
+          // Enforce the domain lists even when a backend ignores them
+          const results = this.filterByDomains(
+            await this.searchRetriever(retrieverName, retriever, query, options),
+            options
+          );
           
           if (results.length > 0) {
             this.emit('search_success', {
@@ -180,34 +194,134 @@ Generate specific research questions that would help gather comprehensive inform
   }
   
   /**
-   * Get available retrievers based on configuration
+   * Query every configured retriever in parallel and merge their rankings
+   * with reciprocal rank fusion
    */
-  private getAvailableRetrievers(): string[] {
-    const retrievers: string[] = [];
-    const defaultRetriever = this.config.get('defaultRetriever') || 'tavily';
+  private async searchAllRetrievers(
+    query: string,
+    options?: SearchOptions
+  ): Promise<SearchResult[]> {
+    const retrievers = this.getFanoutRetrievers()
+      .map(name => ({ name, retriever: this.getRetriever(name) }))
+      .filter((entry): entry is { name: string; retriever: BaseRetriever } => !!entry.retriever);
     
-    // Add default retriever first
-    retrievers.push(defaultRetriever);
+    const settled = await Promise.allSettled(
+      retrievers.map(({ name, retriever }) => this.searchRetriever(name, retriever, query, options))
+    );
     
-    // Add other retrievers if API keys are available
-    const potentialRetrievers = ['tavily', 'serper', 'google'];
-    for (const retriever of potentialRetrievers) {
-      if (retriever !== defaultRetriever && this.config.getApiKey(retriever)) {
-        retrievers.push(retriever);
+    const rankings: RankedResults[] = [];
+    settled.forEach((result, index) => {
+      const retrieverName = retrievers[index].name;
+      if (result.status === 'fulfilled') {
+        rankings.push({ retriever: retrieverName, results: this.filterByDomains(result.value, options) });
+      } else {
+        this.emit('retriever_error', {
+          query,
+          retriever: retrieverName,
+          error: result.reason?.message
+        });
       }
+    });
+    
+    if (rankings.length === 0) {
+      this.emit('search_error', { query, error: new Error('All retrievers failed') });
+      return [];
     }
     
-    return retrievers;
+    const fused = reciprocalRankFusion(rankings);
+    this.emit('search_success', {
+      query,
+      retriever: rankings.map(ranking => ranking.retriever).join(','),
+      resultsCount: fused.length
+    });
+    
+    return fused;
+  }
+  
+  /**
+   * Retrievers to fan out to: those with API keys, the default and scholarly
+   * ones. Keyless web search is only used when nothing else is available.
+   */
+  private getFanoutRetrievers(): string[] {
+    const defaultRetriever = this.config.get('defaultRetriever') || 'tavily';
+    const usable = this.getAvailableRetrievers().filter(name => this.config.canUseRetriever(name));
+    const preferred = usable.filter(name =>
+      this.config.getApiKey(name) ||
+      name === defaultRetriever ||
+      RetrieverFactory.getCategory(name) === 'academic'
+    );
+    
+    return preferred.length > 0 ? preferred : usable;
+  }
+  
+  /**
+   * Drop results outside the allowed domains or on a denied domain
+   */
+  private filterByDomains(results: SearchResult[], options?: SearchOptions): SearchResult[] {
+    if (!options?.includeDomains?.length && !options?.excludeDomains?.length) {
+      return results;
+    }
+    
+    const allowed = results.filter(result =>
+      isAllowedUrl(result.url, options.includeDomains, options.excludeDomains)
+    );
+    if (allowed.length < results.length) {
+      this.emit('results_filtered', { removed: results.length - allowed.length });
+    }
+    return allowed;
+  }
+  
+  /**
+   * Search with one retriever, reusing cached results for the same query and options
+   */
+  private async searchRetriever(
+    retrieverName: string,
+    retriever: BaseRetriever,
+    query: string,
+    options?: SearchOptions
+  ): Promise<SearchResult[]> {
+    const cache = options?.useCache === false ? null : this.getCacheStore();
+    if (!cache) {
+      return retriever.search(query, options);
+    }
+    
+    const key = createCacheKey('search', retrieverName, query, options || {});
+    return cache.wrap(key, () => retriever.search(query, options), {
+      // Empty results are not cached so that a later run can fall through to working retrievers
+      shouldCache: results => results.length > 0
+    });
+  }
+  
+  /**
+   * Open the configured cache on first use, searching uncached when it cannot be opened
+   */
+  private getCacheStore(): CacheStore | null {
+    if (this.cache === undefined) {
+      try {
+        this.cache = getCache(this.config);
+      } catch (error) {
+        this.cache = null;
+        this.emit('cache_error', { error });
+      }
+    }
+    return this.cache;
+  }
+  
+  /**
+   * Get available retrievers based on configuration
+   */
+  private getAvailableRetrievers(): string[] {
+    return this.config.getSearchRetrievers();
   }
   
   /**
    * Get or create a retriever instance
    */
   private getRetriever(name: string): BaseRetriever | null {
-    const apiKey = this.config.getApiKey(name);
-    if (!apiKey) {
+    if (!this.config.canUseRetriever(name)) {
       return null;
     }
+    const apiKey = this.config.getApiKey(name);
     
     try {
       const config: any = {
@@ -219,6 +333,9 @@ Generate specific research questions that would help gather comprehensive inform
       if (name === 'google') {
         config.cx = this.config.get('googleCx');
       }
+      if (name === 'crossref') {
+        config.mailto = this.config.get('crossrefMailto');
+      }
       
       return RetrieverFactory.create(name, config);
     } catch (error) {
@@ -235,8 +352,9 @@ Generate specific research questions that would help gather comprehensive inform
     const unique: SearchResult[] = [];
     
     for (const result of results) {
-      if (!seen.has(result.url)) {
-        seen.add(result.url);
+      const key = normalizeUrl(result.url);
+      if (!seen.has(key)) {
+        seen.add(key);
         unique.push(result);
       }
     }
@@ -357,9 +475,12 @@ Generate specific research questions that would help gather comprehensive inform
     const reportType = this.config.get('reportType');
     
     // Extract key findings from results
-    const findings = results.map(result => 
-      `Source: ${result.title}\nURL: ${result.url}\n${result.snippet || result.content}`
-    );
+    const findings: Finding[] = results.map(result => ({
+      content: result.snippet || result.content,
+      source: result.url,
+      sourceType: result.sourceType || 'web',
+      title: result.title
+    }));
     
     return {
       query,
@@ -2,7 +2,14 @@ import { EventEmitter } from 'events';
 import { Config } from '../core/Config';
 import { Memory } from '../core/Memory';
 import { SearchResult, ChatMessage } from '../types';
-import { LLMProvider } from '../providers/LLMProvider';
+import { LLMProviderSource, resolveProvider } from '../providers/LLMRouter';
+import { z } from 'zod';
+
+const LLM_VERIFICATION_SCHEMA = z.object({
+  credible: z.boolean(),
+  analysis: z.string(),
+  concerns: z.array(z.string()).default([])
+});
 
 export interface SourceValidation {
   url: string;
@@ -333,7 +340,7 @@ export class SourceCurator extends EventEmitter {
    */
   async verifyWithLLM(
     source: SearchResult,
-    llmProvider: LLMProvider
+    llmProvider: LLMProviderSource
   ): Promise<{
     credible: boolean;
     analysis: string;
@@ -362,28 +369,24 @@ Format your response as JSON with keys: credible (boolean), analysis (string), c
     ];
     
     try {
-      const response = await llmProvider.createChatCompletion(messages, {
-        model: this.config.get('fastLLMModel'),
-        temperature: 0.3,
-        maxTokens: 500
-      });
-      
-      // Parse JSON response
-      const result = JSON.parse(response);
-      return {
-        credible: result.credible || false,
-        analysis: result.analysis || '',
-        concerns: result.concerns || []
-      };
+      return await resolveProvider(llmProvider, 'fast').createStructuredCompletion(
+        messages,
+        LLM_VERIFICATION_SCHEMA,
+        {
+          model: this.config.get('fastLLMModel'),
+          temperature: 0.3,
+          maxTokens: 500
+        }
+      );
       
-    } catch (error) {
+    } catch (error: any) {
       this.emit('llm_verification_error', { error, url: source.url });
       
-      // Fallback to basic validation
+      // An unverified source is not vouched for
       return {
-        credible: true,
+        credible: false,
         analysis: 'LLM verification unavailable',
-        concerns: []
+        concerns: [`Could not be verified: ${error?.message || 'unknown error'}`]
       };
     }
   }
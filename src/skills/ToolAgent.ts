@@ -0,0 +1,259 @@
+import { EventEmitter } from 'events';
+import { Config } from '../core/Config';
+import { Memory } from '../core/Memory';
+import { ChatMessage, SearchResult, ToolCall, ToolDefinition } from '../types';
+import { LLMProviderSource, resolveProvider } from '../providers/LLMRouter';
+import { MCPClient } from '../mcp/MCPClient';
+import { MCPTool } from '../mcp/types';
+import { truncateToTokens } from '../utils/tokenizer';
+import { ResearchConductor } from './ResearchConductor';
+import { BrowserManager, ScrapingResult } from './BrowserManager';
+
+export interface AgentTool extends ToolDefinition {
+  execute(args: Record<string, any>): Promise<string>;
+}
+
+export interface ToolAgentStep {
+  tool: string;
+  arguments: Record<string, any>;
+  result: string;
+  error?: string;
+}
+
+export interface ToolAgentOptions {
+  maxSteps?: number; // Model turns before the agent must answer, default 6
+  maxResultTokens?: number; // Tool output beyond this is truncated, default 2000
+  systemPrompt?: string;
+}
+
+export interface ToolAgentResult {
+  answer: string;
+  steps: ToolAgentStep[];
+  searchResults: SearchResult[];
+  scrapedPages: ScrapingResult[];
+}
+
+const DEFAULT_SYSTEM_PROMPT = `You are a research agent. Use the available tools to search the web, read pages and query data sources until you can answer the research query with well-sourced facts. Prefer reading primary sources over relying on search snippets. When you have enough information, answer without calling further tools, citing the URLs you used.`;
+
+export class ToolAgent extends EventEmitter {
+  private config: Config;
+  private memory: Memory;
+  private tools: Map<string, AgentTool>;
+  private searchResults: SearchResult[];
+  private scrapedPages: ScrapingResult[];
+  
+  constructor(config: Config, memory: Memory) {
+    super();
+    this.config = config;
+    this.memory = memory;
+    this.tools = new Map();
+    this.searchResults = [];
+    this.scrapedPages = [];
+  }
+  
+  /**
+   * Make a tool available to the model, replacing any tool with the same name
+   */
+  registerTool(tool: AgentTool): void {
+    this.tools.set(tool.name, tool);
+  }
+  
+  getTools(): ToolDefinition[] {
+    return Array.from(this.tools.values()).map(({ name, description, parameters }) => ({
+      name,
+      description,
+      parameters
+    }));
+  }
+  
+  /**
+   * Register web search through the configured retrievers and page scraping
+   */
+  registerResearchTools(
+    researchConductor: ResearchConductor,
+    browserManager: BrowserManager
+  ): void {
+    this.registerTool({
+      name: 'web_search',
+      description: 'Search the web. Returns the title, URL and a snippet for each result.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'The search query' },
+          maxResults: { type: 'number', description: 'Number of results to return, default 5' }
+        },
+        required: ['query']
+      },
+      execute: async ({ query, maxResults }) => {
+        const results = await researchConductor.searchInformation([String(query)], {
+          maxResults: Number(maxResults) || 5
+        });
+        this.searchResults.push(...results);
+        
+        if (results.length === 0) {
+          return 'No results found.';
+        }
+        return results
+          .map((result, index) =>
+            `[${index + 1}] ${result.title}\nURL: ${result.url}\n${result.snippet || result.content.slice(0, 300)}`
+          )
+          .join('\n\n');
+      }
+    });
+    
+    this.registerTool({
+      name: 'scrape_url',
+      description: 'Fetch a web page and return its main text content.',
+      parameters: {
+        type: 'object',
+        properties: {
+          url: { type: 'string', description: 'The URL of the page to read' }
+        },
+        required: ['url']
+      },
+      execute: async ({ url }) => {
+        const page = await browserManager.scrapeUrl(String(url), { useReadability: true });
+        if (page.error) {
+          throw new Error(page.error);
+        }
+        
+        this.scrapedPages.push(page);
+        return `${page.title}\n\n${page.content}`;
+      }
+    });
+  }
+  
+  /**
+   * Register every tool exposed by the connected MCP servers, returning how many were added
+   */
+  async registerMCPTools(client: MCPClient): Promise<number> {
+    const mcpTools = await client.getAvailableTools();
+    
+    for (const mcpTool of mcpTools) {
+      this.registerTool(this.createMCPTool(client, mcpTool));
+    }
+    
+    return mcpTools.length;
+  }
+  
+  /**
+   * Let the model answer a query by calling tools in a loop until it stops
+   * requesting tool calls or runs out of steps
+   */
+  async run(
+    query: string,
+    llmProvider: LLMProviderSource,
+    options?: ToolAgentOptions
+  ): Promise<ToolAgentResult> {
+    const provider = resolveProvider(llmProvider, 'smart');
+    if (!provider.supportsToolCalling()) {
+      throw new Error(`${provider.constructor.name} does not support tool calling`);
+    }
+    
+    const maxSteps = options?.maxSteps ?? this.config.get('maxToolSteps') ?? 6;
+    const tools = this.getTools();
+    const steps: ToolAgentStep[] = [];
+    this.searchResults = [];
+    this.scrapedPages = [];
+    
+    const messages: ChatMessage[] = [
+      { role: 'system', content: options?.systemPrompt || DEFAULT_SYSTEM_PROMPT },
+      { role: 'user', content: query }
+    ];
+    
+    this.emit('tool_agent_start', { query, tools: tools.map(tool => tool.name) });
+    
+    let answer = '';
+    for (let step = 0; step <= maxSteps; step++) {
+      // Once out of steps, ask for an answer from what has been gathered so far
+      const lastStep = step === maxSteps;
+      if (lastStep) {
+        messages.push({
+          role: 'user',
+          content: 'Stop calling tools and answer the research query with the information gathered so far.'
+        });
+      }
+      
+      const completion = await provider.createToolCompletion(messages, {
+        model: this.config.get('smartLLMModel'),
+        temperature: 0.3,
+        maxTokens: this.config.get('maxTokens'),
+        tools,
+        toolChoice: lastStep ? 'none' : 'auto'
+      });
+      
+      answer = completion.content;
+      if (completion.toolCalls.length === 0 || lastStep) {
+        break;
+      }
+      
+      messages.push({ role: 'assistant', content: completion.content, toolCalls: completion.toolCalls });
+      for (const call of completion.toolCalls) {
+        const result = await this.executeToolCall(call, options?.maxResultTokens ?? 2000);
+        steps.push(result);
+        messages.push({
+          role: 'tool',
+          name: call.name,
+          toolCallId: call.id,
+          content: result.error ? `Error: ${result.error}` : result.result
+        });
+      }
+    }
+    
+    if (answer) {
+      this.memory.addContext(answer);
+    }
+    
+    const result: ToolAgentResult = {
+      answer,
+      steps,
+      searchResults: this.searchResults,
+      scrapedPages: this.scrapedPages
+    };
+    
+    this.emit('tool_agent_complete', {
+      query,
+      steps: steps.length,
+      searchResults: result.searchResults.length,
+      scrapedPages: result.scrapedPages.length
+    });
+    
+    return result;
+  }
+  
+  private async executeToolCall(call: ToolCall, maxResultTokens: number): Promise<ToolAgentStep> {
+    const tool = this.tools.get(call.name);
+    this.emit('tool_call', { tool: call.name, arguments: call.arguments });
+    
+    if (!tool) {
+      return { tool: call.name, arguments: call.arguments, result: '', error: `Unknown tool: ${call.name}` };
+    }
+    
+    try {
+      const output = await tool.execute(call.arguments);
+      const result = truncateToTokens(output, maxResultTokens, this.config.get('smartLLMModel'));
+      this.emit('tool_result', { tool: call.name, length: output.length });
+      return { tool: call.name, arguments: call.arguments, result };
+    } catch (error: any) {
+      // Errors go back to the model, which can retry or try another tool
+      this.emit('tool_error', { tool: call.name, error });
+      return { tool: call.name, arguments: call.arguments, result: '', error: error.message };
+    }
+  }
+  
+  private createMCPTool(client: MCPClient, mcpTool: MCPTool): AgentTool {
+    return {
+      // Tool names must match ^[a-zA-Z0-9_-]{1,64}$ for the provider APIs
+      name: `${mcpTool.server}_${mcpTool.name}`.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64),
+      description: mcpTool.description,
+      parameters: mcpTool.parameters || { type: 'object', properties: {} },
+      execute: async (args) => {
+        const result = await client.invokeTool(mcpTool, args);
+        if (!result.success) {
+          throw new Error(result.error || `MCP tool ${mcpTool.name} failed`);
+        }
+        return typeof result.data === 'string' ? result.data : JSON.stringify(result.data);
+      }
+    };
+  }
+}
@@ -1,6 +1,8 @@
 // Export all skills
 export { ResearchConductor } from './ResearchConductor';
 export { ReportGenerator, ReportSection, ReportTemplate } from './ReportGenerator';
-export { ContextManager, ContextChunk } from './ContextManager';
+export { ClaimVerifier, ClaimVerificationResult } from './ClaimVerifier';
+export { ContextManager, ContextChunk, ContextSource } from './ContextManager';
 export { BrowserManager, ScrapingOptions, ScrapingResult } from './BrowserManager';
 export { SourceCurator, SourceValidation, CurationCriteria } from './SourceCurator';
+export { ToolAgent, AgentTool, ToolAgentStep, ToolAgentOptions, ToolAgentResult } from './ToolAgent';
@@ -4,24 +4,45 @@ export interface ResearchConfig {
   query: string;
   reportType?: ReportType;
   reportFormat?: ReportFormat;
+  citationStyle?: CitationStyle; // Reference list style; academic reports default to APA
+  verifyClaims?: boolean; // Check the report's claims against the research findings
+  unsupportedClaims?: UnsupportedClaimAction; // What to do with sentences whose claims fail verification
   reportSource?: ReportSource;
   tone?: Tone;
   sourceUrls?: string[];
-  documentUrls?: string[];
+  documentUrls?: string[]; // Files, directories or URLs of documents for local research
+  docPath?: string; // Directory of documents for local research
   complementSourceUrls?: boolean;
   queryDomains?: string[];
+  searchStrategy?: SearchStrategy;
+  cacheBackend?: CacheBackend;
+  cacheTtl?: number; // Seconds that cached searches and scrapes stay fresh
+  cacheDir?: string; // Directory for the filesystem cache
+  vectorStore?: VectorStoreBackend;
+  vectorStorePath?: string; // SQLite database file for the sqlite vector store
   maxSubtopics?: number;
   maxSearchResults?: number;
   verbose?: boolean;
   llmProvider?: string;
+  baseURL?: string; // Overrides the provider's default API endpoint
+  fastLLMProvider?: string; // Per-role providers fall back to llmProvider
+  smartLLMProvider?: string;
+  strategicLLMProvider?: string;
+  fallbackLLMProviders?: string[]; // Tried in order when a role's provider fails
+  enableToolCalling?: boolean; // Let the model call search, scrape and MCP tools during research
+  maxToolSteps?: number;
   fastLLMModel?: string;
   smartLLMModel?: string;
   strategicLLMModel?: string;
+  embeddingModel?: string; // Ranks research context; defaults to the fast provider's embedding model
   temperature?: number;
   maxTokens?: number;
   headers?: Record<string, string>;
 }
 
+// Model roles, from cheap bulk work (fast) to planning and hard reasoning (strategic)
+export type LLMRole = 'fast' | 'smart' | 'strategic';
+
 export enum ReportType {
   ResearchReport = 'research_report',
   DetailedReport = 'detailed_report',
@@ -30,7 +51,8 @@ export enum ReportType {
   OutlineReport = 'outline_report',
   CustomReport = 'custom_report',
   SubtopicReport = 'subtopic_report',
-  MultiAgentReport = 'multi_agent'
+  MultiAgentReport = 'multi_agent',
+  AcademicReport = 'academic'
 }
 
 export enum ReportFormat {
@@ -41,6 +63,28 @@ export enum ReportFormat {
   JSON = 'json'
 }
 
+export enum CitationStyle {
+  APA = 'apa',
+  MLA = 'mla',
+  Chicago = 'chicago',
+  IEEE = 'ieee'
+}
+
+// Machine-readable bibliographies for reference managers
+export type BibliographyFormat = 'bibtex' | 'csl-json';
+
+// keep leaves the report unchanged, flag marks failing sentences and rewrite restates them to match the evidence
+export type UnsupportedClaimAction = 'keep' | 'flag' | 'rewrite';
+
+// failover tries retrievers in turn until one returns results; fanout queries them all and merges the results
+export type SearchStrategy = 'failover' | 'fanout';
+
+// Where search results and scraped pages are cached; redis uses the Vercel KV REST credentials
+export type CacheBackend = 'memory' | 'filesystem' | 'redis' | 'none';
+
+// Where embedded passages are kept; sqlite keeps a knowledge base across research runs
+export type VectorStoreBackend = 'memory' | 'sqlite';
+
 export enum ReportSource {
   Web = 'web',
   Local = 'local',
@@ -69,13 +113,38 @@ export enum Tone {
 }
 
 export interface ChatMessage {
-  role: 'system' | 'user' | 'assistant' | 'function';
+  role: 'system' | 'user' | 'assistant' | 'function' | 'tool';
   content: string;
   name?: string;
   function_call?: {
     name: string;
     arguments: string;
   };
+  toolCalls?: ToolCall[]; // Tool calls requested by an assistant turn
+  toolCallId?: string; // The call a tool message answers
+}
+
+// A function the model may call, with its parameters described as JSON Schema
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, any>;
+    required?: string[];
+  };
+}
+
+// A tool call requested by the model, normalized across providers
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export interface ToolCompletion {
+  content: string;
+  toolCalls: ToolCall[]; // Empty when the model answered directly
 }
 
 export interface ChatOptions {
@@ -88,6 +157,13 @@ export interface ChatOptions {
   presencePenalty?: number;
   stop?: string[];
   reasoningEffort?: 'low' | 'medium' | 'high';
+  responseFormat?: 'text' | 'json'; // 'json' uses the provider's native JSON mode where it has one
+  tools?: ToolDefinition[];
+  toolChoice?: 'auto' | 'none' | 'required';
+}
+
+export interface StructuredCompletionOptions extends ChatOptions {
+  maxRepairAttempts?: number; // Re-prompts after invalid output, default 2
 }
 
 export interface EmbeddingOptions {
@@ -113,11 +189,20 @@ export interface SearchResult {
   url: string;
   title: string;
   content: string;
+  sourceType?: SourceType; // Defaults to 'web'
   snippet?: string;
   score?: number;
   publishedDate?: string;
   author?: string;
   images?: string[];
+  // Scholarly metadata from academic retrievers
+  authors?: string[];
+  doi?: string;
+  venue?: string; // Journal, conference or preprint server
+  year?: number;
+  abstract?: string;
+  citationCount?: number;
+  retrievers?: string[]; // Retrievers that returned this result when searching with fanout
 }
 
 export interface ScrapedContent {
@@ -130,11 +215,23 @@ export interface ScrapedContent {
   error?: string;
 }
 
+export interface LoadedDocument {
+  source: string; // File path or URL the document was read from
+  title: string;
+  content: string;
+  type: string; // Loader that parsed it: pdf, docx, markdown, html, csv or text
+  metadata?: Record<string, any>;
+}
+
 export interface ResearchResult {
   report: string;
   sources: SearchResult[];
   subtopics?: string[];
   context?: string[];
+  findings?: Finding[]; // Context with the source and source type of each item
+  document?: ReportDocument; // The report as a structured tree, which report is rendered from
+  verification?: ClaimVerification[]; // Verdicts on the report's claims, when verifyClaims is set
+  exported?: ExportedReport; // The report rendered in the configured reportFormat
   costs?: {
     total: number;
     breakdown: Record<string, number>;
@@ -147,10 +244,133 @@ export interface ResearchResult {
   };
 }
 
+// A report as a tree of sections whose paragraphs are split into cited claims
+export interface ReportDocument {
+  title: string;
+  query: string;
+  reportType: ReportType;
+  generatedAt: string;
+  blocks: ReportBlock[]; // Content before the first heading
+  sections: ReportDocumentSection[];
+  references: ReportReference[];
+}
+
+export interface ReportDocumentSection {
+  id: string; // Slug of the title, unique within the document
+  title: string;
+  level: number; // Heading level (1-6)
+  blocks: ReportBlock[];
+  sections: ReportDocumentSection[]; // Subsections
+}
+
+export type ReportBlock =
+  | ReportParagraph
+  | ReportList
+  | ReportTable
+  | ReportFigure
+  | ReportCode
+  | ReportQuote
+  | ReportRaw;
+
+export interface ReportParagraph {
+  type: 'paragraph';
+  claims: ReportClaim[];
+}
+
+// A sentence of the report and the references it cites
+export interface ReportClaim {
+  id: string;
+  text: string; // Markdown, including any citation links or markers
+  citations: string[]; // Reference ids
+}
+
+export interface ReportList {
+  type: 'list';
+  ordered: boolean;
+  start?: number;
+  items: ReportListItem[];
+}
+
+export interface ReportListItem {
+  claims: ReportClaim[];
+  list?: ReportList; // Nested list
+  blocks?: ReportBlock[]; // Other content of the item, such as code, after any nested list
+}
+
+export interface ReportTable {
+  type: 'table';
+  headers: string[];
+  rows: string[][]; // Cells are markdown
+}
+
+export interface ReportFigure {
+  type: 'figure';
+  url: string;
+  alt: string;
+  caption?: string;
+}
+
+export interface ReportCode {
+  type: 'code';
+  language?: string;
+  code: string;
+}
+
+export interface ReportQuote {
+  type: 'quote';
+  blocks: ReportBlock[];
+}
+
+// Markdown the document does not model, such as rules and HTML, kept as written
+export interface ReportRaw {
+  type: 'raw';
+  markdown: string;
+}
+
+export interface ReportReference {
+  id: string;
+  number: number; // Position in the references list
+  title: string;
+  url: string;
+  sourceType: SourceType;
+  citation: string; // Formatted reference list entry
+}
+
+export type ClaimVerdict = 'supported' | 'contradicted' | 'unsupported';
+
+// An atomic claim from the report, judged against the research findings
+export interface ClaimVerification {
+  claimId: string; // The ReportClaim (sentence) the claim was extracted from
+  sentence: string;
+  claim: string;
+  verdict: ClaimVerdict;
+  explanation: string;
+  evidence: string[]; // Sources of the findings that support or contradict the claim
+}
+
+// A report rendered to a file format, ready to save or send
+export interface ExportedReport {
+  format: ReportFormat;
+  content: Buffer | string; // Buffer for binary formats (PDF, DOCX)
+  mimeType: string;
+  filename: string;
+}
+
+// Where a source came from: the public web or the user's own documents
+export type SourceType = 'web' | 'local';
+
+// A piece of research context with its provenance
+export interface Finding {
+  content: string;
+  source: string; // URL or file path
+  sourceType: SourceType;
+  title?: string;
+}
+
 export interface ResearchContext {
   query: string;
   reportType: ReportType;
-  findings: string[];
+  findings: Finding[];
   sources: SearchResult[];
   sections?: ResearchSection[];
   subtopics?: string[];
@@ -0,0 +1,7 @@
+// The library entry of pdf-parse, without the debug script its index runs when imported
+declare module 'pdf-parse/lib/pdf-parse.js' {
+  import PdfParse = require('pdf-parse');
+
+  function pdfParse(data: Uint8Array, options?: PdfParse.Options): Promise<PdfParse.Result>;
+  export default pdfParse;
+}
@@ -0,0 +1,129 @@
+/**
+ * Reference formatting for sources
+ */
+
+import { Finding, SearchResult } from '../types';
+import { normalizeUrl } from './domains';
+
+// APA 7 lists up to 20 authors; longer lists give the first 19, an ellipsis and the last
+const MAX_CITED_AUTHORS = 20;
+
+/**
+ * Whether a source carries the metadata of a scholarly work
+ */
+export function isScholarlySource(source: SearchResult): boolean {
+  return !!(source.doi || (source.authors?.length && source.year));
+}
+
+/**
+ * Split a personal name into family and given names, accepting "Given Names Family"
+ * or "Family, Given Names"
+ */
+export function parseAuthorName(name: string): { family: string; given: string[] } {
+  const trimmed = name.trim().replace(/\s+/g, ' ');
+
+  if (trimmed.includes(',')) {
+    const [familyPart, givenPart = ''] = trimmed.split(',', 2);
+    return { family: familyPart.trim(), given: givenPart.trim().split(' ').filter(Boolean) };
+  }
+
+  const parts = trimmed.split(' ');
+  const family = parts.pop() || '';
+  return { family, given: parts };
+}
+
+/**
+ * Initials of given names, e.g. ["Jean-Paul", "A"] becomes "J.-P. A."
+ */
+export function formatInitials(given: string[]): string {
+  return given
+    .map(part => part.split('-').map(piece => `${piece.charAt(0).toUpperCase()}.`).join('-'))
+    .join(' ');
+}
+
+/**
+ * Format a personal name as "Family, G. N.", accepting "Given Names Family"
+ * or "Family, Given Names"
+ */
+export function formatAuthorName(name: string): string {
+  const { family, given } = parseAuthorName(name);
+  const initials = formatInitials(given);
+  return initials ? `${family}, ${initials}` : family;
+}
+
+/**
+ * Format a scholarly source as a reference, e.g.
+ * "Vaswani, A., & Shazeer, N. (2017). Attention is all you need. *NeurIPS*. https://doi.org/..."
+ * Other sources are formatted as a markdown link.
+ */
+export function formatCitation(source: SearchResult): string {
+  if (!isScholarlySource(source)) {
+    return `[${source.title}](${source.url})`;
+  }
+
+  const parts: string[] = [];
+  const authors = formatAuthorList(source.authors || []);
+  parts.push(`${authors ? `${authors} ` : ''}(${source.year || 'n.d.'}).`);
+  parts.push(`${source.title.replace(/\.$/, '')}.`);
+  if (source.venue) {
+    parts.push(`*${source.venue}*.`);
+  }
+  parts.push(source.doi ? `https://doi.org/${source.doi}` : source.url);
+
+  return parts.join(' ');
+}
+
+/**
+ * Format a source as a reference list entry: the full citation of a scholarly
+ * work, otherwise a link marked when it points to an internal document
+ */
+export function formatReference(source: SearchResult): string {
+  if (isScholarlySource(source)) {
+    return formatCitation(source);
+  }
+
+  let reference = `[${source.title}](${source.url})`;
+  if (source.sourceType === 'local') {
+    reference += ' (internal document)';
+  }
+  if (source.publishedDate) {
+    // A year or month alone is shown as given rather than as its first day
+    const partial = /^\d{4}(-\d{2})?$/.test(source.publishedDate);
+    reference += ` - ${partial ? source.publishedDate : new Date(source.publishedDate).toLocaleDateString()}`;
+  }
+  return reference;
+}
+
+/**
+ * Number the sources a report may cite: the research sources, followed by any
+ * other source a finding was drawn from. Source n is at index n - 1
+ */
+export function collectCitableSources(sources: SearchResult[], findings: Finding[] = []): SearchResult[] {
+  const citable = [...sources];
+  const seen = new Set(sources.map(source => normalizeUrl(source.url)));
+
+  for (const finding of findings) {
+    const url = normalizeUrl(finding.source);
+    if (!seen.has(url)) {
+      seen.add(url);
+      citable.push({
+        url: finding.source,
+        title: finding.title || finding.source,
+        content: '',
+        sourceType: finding.sourceType
+      });
+    }
+  }
+
+  return citable;
+}
+
+function formatAuthorList(authors: string[]): string {
+  const names = authors.map(formatAuthorName).filter(Boolean);
+  if (names.length === 0) return '';
+  if (names.length === 1) return names[0];
+  if (names.length > MAX_CITED_AUTHORS) {
+    return `${names.slice(0, MAX_CITED_AUTHORS - 1).join(', ')}, . . . ${names[names.length - 1]}`;
+  }
+  return `${names.slice(0, -1).join(', ')}, & ${names[names.length - 1]}`;
+}
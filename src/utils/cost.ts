@@ -2,6 +2,8 @@
  * Cost calculation utilities for LLM usage
  */
 
+import { countTokens } from './tokenizer';
+
 // Token costs per 1000 tokens (in USD)
 export const MODEL_COSTS = {
   // OpenAI models
@@ -16,9 +18,13 @@ export const MODEL_COSTS = {
   'o3-mini': { input: 0.003, output: 0.015 }, // Hypothetical
   
   // Anthropic models
+  'claude-3-5-sonnet': { input: 0.003, output: 0.015 },
+  'claude-3-5-sonnet-20240620': { input: 0.003, output: 0.015 },
   'claude-3-opus': { input: 0.015, output: 0.075 },
+  'claude-3-opus-20240229': { input: 0.015, output: 0.075 },
   'claude-3-sonnet': { input: 0.003, output: 0.015 },
   'claude-3-haiku': { input: 0.00025, output: 0.00125 },
+  'claude-3-haiku-20240307': { input: 0.00025, output: 0.00125 },
   'claude-2.1': { input: 0.008, output: 0.024 },
   'claude-instant': { input: 0.0008, output: 0.0024 },
   
@@ -26,15 +32,21 @@ export const MODEL_COSTS = {
   'gemini-pro': { input: 0.00025, output: 0.0005 },
   'gemini-pro-vision': { input: 0.00025, output: 0.0005 },
   'gemini-ultra': { input: 0.007, output: 0.021 },
+  'gemini-1.5-pro': { input: 0.00125, output: 0.005 },
+  'gemini-1.5-flash': { input: 0.000075, output: 0.0003 },
   
   // Groq models (very competitive pricing)
   'llama-3.1-70b': { input: 0.00059, output: 0.00079 },
   'llama-3.1-8b': { input: 0.00005, output: 0.00008 },
   'mixtral-8x7b': { input: 0.00027, output: 0.00027 },
+  'llama-3.1-70b-versatile': { input: 0.00059, output: 0.00079 },
+  'llama-3.1-8b-instant': { input: 0.00005, output: 0.00008 },
   
   // Cohere models
   'command': { input: 0.0015, output: 0.002 },
   'command-light': { input: 0.00015, output: 0.0002 },
+  'command-r': { input: 0.00015, output: 0.0006 },
+  'command-r-plus': { input: 0.0025, output: 0.01 },
   
   // Perplexity models
   'pplx-70b-online': { input: 0.001, output: 0.001 },
@@ -65,20 +77,10 @@ export interface CostBreakdown {
 }
 
 /**
- * Estimate token count from text
- * This is a rough approximation - for accurate counts use tiktoken
+ * Count tokens in text using the tokenizer for the given model
  */
-export function estimateTokens(text: string): number {
-  // Rough approximation: 1 token ≈ 4 characters for English text
-  // This can vary significantly based on language and content
-  const charCount = text.length;
-  const wordCount = text.split(/\s+/).length;
-  
-  // Use a weighted average of character and word-based estimates
-  const charEstimate = charCount / 4;
-  const wordEstimate = wordCount * 1.3; // Average ~1.3 tokens per word
-  
-  return Math.ceil((charEstimate + wordEstimate) / 2);
+export function estimateTokens(text: string, model?: string): number {
+  return countTokens(text, model);
 }
 
 /**
@@ -0,0 +1,86 @@
+/**
+ * URL and domain helpers for search results
+ */
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = /^(utm_.*|fbclid|gclid|msclkid|mc_cid|mc_eid|ref_src)$/i;
+
+/**
+ * Reduce a domain or URL to a lowercase host name without a leading www.
+ */
+export function normalizeDomain(domain: string): string {
+  const host = domain
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+    .split(/[/?#:]/)[0];
+  return host.replace(/^www\./, '').replace(/\.$/, '');
+}
+
+/**
+ * Reduce a URL to a key shared by its variants: scheme, www., fragment,
+ * trailing slash and tracking parameters are ignored
+ */
+export function normalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (error) {
+    return url.trim();
+  }
+
+  const params = new URLSearchParams(parsed.search);
+  for (const key of Array.from(params.keys())) {
+    if (TRACKING_PARAMS.test(key)) {
+      params.delete(key);
+    }
+  }
+
+  const query = params.toString();
+  const path = parsed.pathname.replace(/\/+$/, '');
+  return `${normalizeDomain(parsed.host)}${path}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Whether a URL is on the domain or one of its subdomains
+ */
+export function matchesDomain(url: string, domain: string): boolean {
+  let host: string;
+  try {
+    host = normalizeDomain(new URL(url).hostname);
+  } catch (error) {
+    return false;
+  }
+
+  const target = normalizeDomain(domain);
+  return target.length > 0 && (host === target || host.endsWith(`.${target}`));
+}
+
+/**
+ * Whether a URL passes the allow list (when one is given) and the deny list
+ */
+export function isAllowedUrl(url: string, includeDomains?: string[], excludeDomains?: string[]): boolean {
+  if (includeDomains?.length && !includeDomains.some(domain => matchesDomain(url, domain))) {
+    return false;
+  }
+  return !excludeDomains?.some(domain => matchesDomain(url, domain));
+}
+
+/**
+ * Add site: operators for the allow and deny lists to a search query, for
+ * search backends without native domain filters
+ */
+export function withSiteOperators(query: string, includeDomains?: string[], excludeDomains?: string[]): string {
+  const include = (includeDomains || []).map(normalizeDomain).filter(Boolean);
+  const exclude = (excludeDomains || []).map(normalizeDomain).filter(Boolean);
+  const operators: string[] = [];
+
+  if (include.length === 1) {
+    operators.push(`site:${include[0]}`);
+  } else if (include.length > 1) {
+    operators.push(`(${include.map(domain => `site:${domain}`).join(' OR ')})`);
+  }
+  operators.push(...exclude.map(domain => `-site:${domain}`));
+
+  return operators.length > 0 ? `${query} ${operators.join(' ')}` : query;
+}
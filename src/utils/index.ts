@@ -5,6 +5,22 @@ export { logger } from './logger';
 // Cost utilities
 export * from './cost';
 
+// Tokenizer and model utilities
+export * from './tokenizer';
+export * from './models';
+
+// Domain filtering
+export * from './domains';
+
+// Reference formatting
+export * from './citations';
+
+// Merging results from several retrievers
+export * from './rankFusion';
+
+// Embedding similarity
+export * from './vectors';
+
 // Worker utilities
 export * from './workers';
 
@@ -0,0 +1,39 @@
+/**
+ * Lenient JSON parsing for model output
+ */
+
+/**
+ * Parse JSON from an LLM response, repairing the usual problems: markdown code
+ * fences, prose around the JSON value and trailing commas
+ */
+export function parseJsonLoose(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = (fenced ? fenced[1] : text).trim();
+
+  try {
+    return JSON.parse(candidate);
+  } catch (error) {
+    // Fall through to the repairs below
+  }
+
+  const extracted = extractJsonValue(candidate);
+  if (!extracted) {
+    throw new Error('No JSON value found in response');
+  }
+
+  return JSON.parse(extracted.replace(/,\s*([}\]])/g, '$1'));
+}
+
+/**
+ * Cut the outermost JSON object or array out of surrounding text
+ */
+function extractJsonValue(text: string): string | undefined {
+  const start = text.search(/[{[]/);
+  if (start === -1) {
+    return undefined;
+  }
+
+  const closer = text[start] === '{' ? '}' : ']';
+  const end = text.lastIndexOf(closer);
+  return end > start ? text.slice(start, end + 1) : undefined;
+}
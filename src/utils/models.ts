@@ -0,0 +1,98 @@
+/**
+ * Model registry: context window sizes and model-name lookups
+ */
+
+// Context window sizes in tokens, matched by longest model-name prefix
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  // OpenAI models
+  'gpt-4o': 128000,
+  'gpt-4o-mini': 128000,
+  'gpt-4-turbo': 128000,
+  'gpt-4-turbo-preview': 128000,
+  'gpt-4': 8192,
+  'gpt-4-32k': 32768,
+  'gpt-3.5-turbo': 16385,
+  'o1-preview': 128000,
+  'o1-mini': 128000,
+  'text-embedding-3': 8191,
+  'text-embedding-ada-002': 8191,
+
+  // Anthropic models
+  'claude-3': 200000,
+  'claude-2.1': 200000,
+  'claude-instant': 100000,
+
+  // Google models
+  'gemini-1.5-pro': 2097152,
+  'gemini-1.5-flash': 1048576,
+  'gemini-1.0-pro': 30720,
+  'gemini-pro': 30720,
+  'text-embedding-004': 2048,
+
+  // Groq models
+  'llama-3.1-70b-versatile': 131072,
+  'llama-3.1-8b-instant': 131072,
+  'llama3-70b-8192': 8192,
+  'llama3-8b-8192': 8192,
+  'mixtral-8x7b-32768': 32768,
+  'gemma2-9b-it': 8192,
+
+  // Cohere models
+  'command-r': 128000,
+  'command-r-plus': 128000,
+  'command': 4096,
+  'command-light': 4096,
+
+  // OpenAI-compatible vendors
+  'meta-llama/Meta-Llama-3.1': 131072,
+  'mistralai/Mixtral-8x7B-Instruct-v0.1': 32768,
+  'Qwen/Qwen2-72B-Instruct': 32768,
+  'llama-3.1-sonar': 127072
+};
+
+// Used for unknown models, such as whatever a local server has loaded
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Tokens kept free for prompt templates, instructions and source lists around the research context
+export const PROMPT_RESERVE_TOKENS = 1500;
+
+/**
+ * Look up a model in a table keyed by model name or name prefix, preferring the longest match
+ */
+export function lookupModel<T>(table: Record<string, T>, model?: string): T | undefined {
+  if (!model) {
+    return undefined;
+  }
+
+  if (model in table) {
+    return table[model];
+  }
+
+  const prefix = Object.keys(table)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? table[prefix] : undefined;
+}
+
+/**
+ * Get the context window of a model in tokens
+ */
+export function getContextWindow(model?: string): number {
+  return lookupModel(MODEL_CONTEXT_WINDOWS, model) || DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Register the context window of a model, e.g. a local model served with a custom num_ctx
+ */
+export function registerContextWindow(model: string, tokens: number): void {
+  MODEL_CONTEXT_WINDOWS[model] = tokens;
+}
+
+/**
+ * Tokens available for research context in a prompt to the given model,
+ * after reserving room for the response and the prompt template
+ */
+export function getPromptBudget(model: string | undefined, outputTokens: number): number {
+  return Math.max(1000, getContextWindow(model) - outputTokens - PROMPT_RESERVE_TOKENS);
+}
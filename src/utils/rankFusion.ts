@@ -0,0 +1,55 @@
+/**
+ * Merging ranked result lists from several search backends
+ */
+
+import { SearchResult } from '../types';
+import { normalizeUrl } from './domains';
+
+export interface RankedResults {
+  retriever: string;
+  results: SearchResult[];
+}
+
+// Dampens the advantage of top ranks; 60 is the value from the original RRF paper
+const RRF_K = 60;
+
+/**
+ * Merge ranked lists with reciprocal rank fusion: each result scores the sum of
+ * 1 / (k + rank) over the lists it appears in, so results found by several
+ * backends rise to the top. Results are matched on their normalized URL and
+ * record the retrievers that surfaced them.
+ */
+export function reciprocalRankFusion(rankings: RankedResults[], k: number = RRF_K): SearchResult[] {
+  const fused = new Map<string, { result: SearchResult; score: number; bestRank: number }>();
+
+  for (const { retriever, results } of rankings) {
+    results.forEach((result, index) => {
+      const key = normalizeUrl(result.url);
+      const rank = index + 1;
+      const entry = fused.get(key);
+
+      if (!entry) {
+        fused.set(key, {
+          result: { ...result, retrievers: [retriever] },
+          score: 1 / (k + rank),
+          bestRank: rank
+        });
+        return;
+      }
+
+      entry.score += 1 / (k + rank);
+      if (!entry.result.retrievers!.includes(retriever)) {
+        entry.result.retrievers!.push(retriever);
+      }
+      // Keep the details from the list that ranked the result highest
+      if (rank < entry.bestRank) {
+        entry.result = { ...result, retrievers: entry.result.retrievers };
+        entry.bestRank = rank;
+      }
+    });
+  }
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score || a.bestRank - b.bestRank)
+    .map(({ result, score }) => ({ ...result, score }));
+}
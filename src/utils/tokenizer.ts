@@ -0,0 +1,105 @@
+/**
+ * Tokenizers for counting and truncating text the way a model sees it
+ */
+
+import { getEncoding, Tiktoken, TiktokenEncoding } from 'js-tiktoken';
+import { lookupModel } from './models';
+
+export interface Tokenizer {
+  readonly name: string;
+  encode(text: string): number[];
+  decode(tokens: number[]): string;
+  count(text: string): number;
+}
+
+/**
+ * Tokenizer backed by a tiktoken BPE encoding
+ */
+export class TiktokenTokenizer implements Tokenizer {
+  readonly name: string;
+  private encoding?: Tiktoken;
+
+  constructor(encodingName: TiktokenEncoding) {
+    this.name = encodingName;
+  }
+
+  encode(text: string): number[] {
+    return this.getEncoding().encode(text, [], []);
+  }
+
+  decode(tokens: number[]): string {
+    return this.getEncoding().decode(tokens);
+  }
+
+  count(text: string): number {
+    return this.encode(text).length;
+  }
+
+  private getEncoding(): Tiktoken {
+    // Rank tables take a moment to load, so only build them on first use
+    if (!this.encoding) {
+      this.encoding = getEncoding(this.name as TiktokenEncoding);
+    }
+    return this.encoding;
+  }
+}
+
+const encodings: Map<TiktokenEncoding, TiktokenTokenizer> = new Map();
+
+function tiktoken(encodingName: TiktokenEncoding): TiktokenTokenizer {
+  if (!encodings.has(encodingName)) {
+    encodings.set(encodingName, new TiktokenTokenizer(encodingName));
+  }
+  return encodings.get(encodingName)!;
+}
+
+// Per-model tokenizers, matched by longest model-name prefix
+const MODEL_TOKENIZERS: Record<string, () => Tokenizer> = {
+  'gpt-4o': () => tiktoken('o200k_base'),
+  'o1': () => tiktoken('o200k_base'),
+  'o3': () => tiktoken('o200k_base'),
+  'gpt-4': () => tiktoken('cl100k_base'),
+  'gpt-3.5': () => tiktoken('cl100k_base'),
+  'text-embedding-3': () => tiktoken('cl100k_base'),
+  'text-embedding-ada-002': () => tiktoken('cl100k_base')
+};
+
+// Other vendors do not publish their tokenizers for JavaScript, and cl100k
+// tracks them far more closely than a characters-per-token estimate
+const defaultTokenizer = () => tiktoken('cl100k_base');
+
+/**
+ * Get the tokenizer for a model
+ */
+export function getTokenizer(model?: string): Tokenizer {
+  return (lookupModel(MODEL_TOKENIZERS, model) || defaultTokenizer)();
+}
+
+/**
+ * Register a tokenizer for a model or model-name prefix
+ */
+export function registerTokenizer(model: string, tokenizer: Tokenizer | TiktokenEncoding): void {
+  MODEL_TOKENIZERS[model] = typeof tokenizer === 'string'
+    ? () => tiktoken(tokenizer)
+    : () => tokenizer;
+}
+
+/**
+ * Count the tokens in text for a model
+ */
+export function countTokens(text: string, model?: string): number {
+  return getTokenizer(model).count(text);
+}
+
+/**
+ * Truncate text to at most maxTokens tokens for a model
+ */
+export function truncateToTokens(text: string, maxTokens: number, model?: string): string {
+  const tokenizer = getTokenizer(model);
+  const tokens = tokenizer.encode(text);
+
+  if (tokens.length <= maxTokens) {
+    return text;
+  }
+  return tokenizer.decode(tokens.slice(0, maxTokens));
+}
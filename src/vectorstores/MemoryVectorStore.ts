@@ -0,0 +1,37 @@
+import { VectorMatch, VectorQueryOptions, VectorRecord, VectorStore } from './VectorStore';
+
+/**
+ * Keeps vectors in process and searches them by brute force
+ */
+export class MemoryVectorStore extends VectorStore {
+  private records: Map<string, VectorRecord> = new Map();
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    for (const record of records) {
+      this.records.set(record.id, record);
+    }
+  }
+
+  async query(vector: number[], options?: VectorQueryOptions): Promise<VectorMatch[]> {
+    return this.rank(vector, this.records.values(), options);
+  }
+
+  async deleteBySource(source: string): Promise<number> {
+    let removed = 0;
+    for (const [id, record] of this.records) {
+      if (record.metadata.source === source) {
+        this.records.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async count(): Promise<number> {
+    return this.records.size;
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+  }
+}
@@ -0,0 +1,131 @@
+import type Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  MetadataValue,
+  VectorMatch,
+  VectorQueryOptions,
+  VectorRecord,
+  VectorStore
+} from './VectorStore';
+
+interface VectorRow {
+  id: string;
+  content: string;
+  metadata: string;
+  vector: Buffer;
+}
+
+/**
+ * Persists vectors in a SQLite file so that a knowledge base grows across
+ * research runs. Metadata filters run in SQL; similarity is computed in process,
+ * so each query reads and decodes every row that passes the filter and takes
+ * time linear in the size of the store.
+ */
+export class SQLiteVectorStore extends VectorStore {
+  private db?: Database.Database;
+  private opening?: Promise<Database.Database>;
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    const db = await this.open();
+    const insert = db.prepare(
+      'INSERT OR REPLACE INTO vectors (id, source, content, metadata, vector) VALUES (?, ?, ?, ?, ?)'
+    );
+    const insertAll = db.transaction((rows: VectorRecord[]) => {
+      for (const record of rows) {
+        insert.run(
+          record.id,
+          record.metadata.source,
+          record.content,
+          JSON.stringify(record.metadata),
+          Buffer.from(new Float32Array(record.vector).buffer)
+        );
+      }
+    });
+
+    insertAll(records);
+  }
+
+  async query(vector: number[], options?: VectorQueryOptions): Promise<VectorMatch[]> {
+    const conditions: string[] = [];
+    const params: MetadataValue[] = [];
+
+    for (const [key, value] of Object.entries(options?.filter || {})) {
+      conditions.push('json_extract(metadata, ?) = ?');
+      // SQLite has no boolean type, so JSON true and false come back as 1 and 0
+      params.push(`$.${key}`, typeof value === 'boolean' ? Number(value) : value);
+    }
+
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+    const rows = (await this.open())
+      .prepare(`SELECT id, content, metadata, vector FROM vectors${where}`)
+      .all(...params) as VectorRow[];
+
+    return this.rank(vector, rows.map(row => this.toRecord(row)), { ...options, filter: undefined });
+  }
+
+  async deleteBySource(source: string): Promise<number> {
+    return (await this.open()).prepare('DELETE FROM vectors WHERE source = ?').run(source).changes;
+  }
+
+  async count(): Promise<number> {
+    const row = (await this.open()).prepare('SELECT COUNT(*) AS count FROM vectors').get() as { count: number };
+    return row.count;
+  }
+
+  async clear(): Promise<void> {
+    (await this.open()).exec('DELETE FROM vectors');
+  }
+
+  /**
+   * Close the database file
+   */
+  close(): void {
+    this.db?.close();
+    this.db = undefined;
+    this.opening = undefined;
+  }
+
+  /**
+   * Open the database on first use. better-sqlite3 is a native module, so it is
+   * only loaded once a SQLite store is used
+   */
+  private open(): Promise<Database.Database> {
+    if (!this.opening) {
+      this.opening = (async () => {
+        const { default: SQLite } = await import('better-sqlite3');
+
+        const file = this.config.path || './.cache/gpt-research/vectors.db';
+        if (file !== ':memory:') {
+          fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+        }
+
+        const db = new SQLite(file);
+        db.pragma('journal_mode = WAL');
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS vectors (
+            id TEXT PRIMARY KEY,
+            source TEXT NOT NULL,
+            content TEXT NOT NULL,
+            metadata TEXT NOT NULL,
+            vector BLOB NOT NULL
+          );
+          CREATE INDEX IF NOT EXISTS vectors_source ON vectors (source);
+        `);
+        this.db = db;
+        return db;
+      })();
+    }
+    return this.opening;
+  }
+
+  private toRecord(row: VectorRow): VectorRecord {
+    const floats = new Float32Array(row.vector.buffer, row.vector.byteOffset, row.vector.byteLength / 4);
+    return {
+      id: row.id,
+      content: row.content,
+      metadata: JSON.parse(row.metadata),
+      vector: Array.from(floats)
+    };
+  }
+}
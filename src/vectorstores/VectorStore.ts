@@ -0,0 +1,117 @@
+import { SourceType } from '../types';
+import { cosineSimilarity } from '../utils/vectors';
+
+export type MetadataValue = string | number | boolean;
+
+export interface VectorMetadata {
+  source: string; // URL or file path the passage came from
+  sourceType?: SourceType;
+  title?: string;
+  [key: string]: MetadataValue | undefined;
+}
+
+export interface VectorRecord {
+  id: string;
+  vector: number[];
+  content: string;
+  metadata: VectorMetadata;
+}
+
+export interface VectorMatch extends VectorRecord {
+  score: number; // Cosine similarity to the query vector
+}
+
+export interface VectorQueryOptions {
+  topK?: number; // Default 10
+  filter?: Record<string, MetadataValue>; // Metadata fields that must be equal
+  minScore?: number;
+}
+
+export interface VectorStoreConfig {
+  path?: string; // Database file for persistent stores
+}
+
+export abstract class VectorStore {
+  protected config: VectorStoreConfig;
+  protected name: string;
+
+  constructor(name: string, config?: VectorStoreConfig) {
+    this.name = name;
+    this.config = config || {};
+  }
+
+  /**
+   * Insert records, replacing any with the same id
+   */
+  abstract upsert(records: VectorRecord[]): Promise<void>;
+
+  /**
+   * Find the records most similar to a vector
+   */
+  abstract query(vector: number[], options?: VectorQueryOptions): Promise<VectorMatch[]>;
+
+  /**
+   * Remove every record from a source, returning how many were removed
+   */
+  abstract deleteBySource(source: string): Promise<number>;
+
+  abstract count(): Promise<number>;
+
+  abstract clear(): Promise<void>;
+
+  getName(): string {
+    return this.name;
+  }
+
+  /**
+   * Score candidates against a query vector and keep the best matches. Vectors
+   * of another dimension come from a different embedding model and are skipped
+   */
+  protected rank(vector: number[], records: Iterable<VectorRecord>, options?: VectorQueryOptions): VectorMatch[] {
+    const matches: VectorMatch[] = [];
+
+    for (const record of records) {
+      if (record.vector.length !== vector.length || !matchesFilter(record.metadata, options?.filter)) {
+        continue;
+      }
+
+      const score = cosineSimilarity(vector, record.vector);
+      if (options?.minScore === undefined || score >= options.minScore) {
+        matches.push({ ...record, score });
+      }
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options?.topK ?? 10);
+  }
+}
+
+/**
+ * Whether metadata has every field of the filter with an equal value
+ */
+export function matchesFilter(metadata: VectorMetadata, filter?: Record<string, MetadataValue>): boolean {
+  return !filter || Object.entries(filter).every(([key, value]) => metadata[key] === value);
+}
+
+// Factory for creating vector stores
+export class VectorStoreFactory {
+  private static stores: Map<string, typeof VectorStore> = new Map();
+
+  public static register(name: string, store: typeof VectorStore): void {
+    this.stores.set(name.toLowerCase(), store);
+  }
+
+  public static create(name: string, config?: VectorStoreConfig): VectorStore {
+    const Store = this.stores.get(name.toLowerCase());
+    if (!Store) {
+      throw new Error(`Unknown vector store: ${name}`);
+    }
+
+    return new (Store as any)(name, config);
+  }
+
+  public static getAvailableStores(): string[] {
+    return Array.from(this.stores.keys());
+  }
+}
@@ -0,0 +1,45 @@
+// Export all vector stores
+export {
+  VectorStore,
+  VectorStoreConfig,
+  VectorStoreFactory,
+  VectorRecord,
+  VectorMatch,
+  VectorMetadata,
+  VectorQueryOptions,
+  MetadataValue,
+  matchesFilter
+} from './VectorStore';
+export { MemoryVectorStore } from './MemoryVectorStore';
+export { SQLiteVectorStore } from './SQLiteVectorStore';
+
+// Register vector stores with factory
+import * as path from 'path';
+import { VectorStore, VectorStoreFactory } from './VectorStore';
+import { MemoryVectorStore } from './MemoryVectorStore';
+import { SQLiteVectorStore } from './SQLiteVectorStore';
+import { Config } from '../core/Config';
+
+VectorStoreFactory.register('memory', MemoryVectorStore);
+VectorStoreFactory.register('sqlite', SQLiteVectorStore);
+
+// One connection per database file, shared by every context manager in the process
+const sharedStores: Map<string, VectorStore> = new Map();
+
+/**
+ * Create the vector store selected by the configuration. In-memory stores last
+ * as long as their owner; persistent ones are shared per file.
+ */
+export function createVectorStore(config: Config): VectorStore {
+  const backend = config.get('vectorStore') || 'memory';
+  if (backend === 'memory') {
+    return VectorStoreFactory.create(backend);
+  }
+
+  const storePath = path.resolve(config.get('vectorStorePath') || './.cache/gpt-research/vectors.db');
+  const key = `${backend}:${storePath}`;
+  if (!sharedStores.has(key)) {
+    sharedStores.set(key, VectorStoreFactory.create(backend, { path: storePath }));
+  }
+  return sharedStores.get(key)!;
+}
@@ -1,5 +1,6 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { Config } from '../src/core/Config';
+import { RetrieverFactory } from '../src/retrievers';
 import { ReportType, Tone } from '../src/types';
 
 describe('Config', () => {
@@ -8,6 +9,10 @@ describe('Config', () => {
     (Config as any).instance = undefined;
   });
 
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
   it('should create a config instance with default values', () => {
     const config = new Config();
     
@@ -76,6 +81,35 @@ describe('Config', () => {
     expect(config.getApiKey('unknown')).toBeUndefined();
   });
 
+  it('should switch default models when selecting another LLM provider', () => {
+    const config = new Config({ llmProvider: 'anthropic' });
+    
+    if (!process.env.SMART_LLM_MODEL) {
+      expect(config.get('smartLLMModel')).toMatch(/^claude-/);
+    }
+    
+    const explicit = new Config({ llmProvider: 'anthropic', fastLLMModel: 'custom-model' });
+    expect(explicit.get('fastLLMModel')).toBe('custom-model');
+  });
+
+  it('should route each model role to its own provider', () => {
+    const config = new Config({ llmProvider: 'openai', fastLLMProvider: 'groq', smartLLMProvider: 'anthropic' });
+    
+    expect(config.getProviderForRole('fast')).toBe('groq');
+    expect(config.getProviderForRole('smart')).toBe('anthropic');
+    expect(config.getProviderForRole('strategic')).toBe('openai');
+    
+    if (!process.env.FAST_LLM_MODEL && !process.env.SMART_LLM_MODEL) {
+      expect(config.getModelForRole('fast')).toBe('llama-3.1-8b-instant');
+      expect(config.getModelForRole('smart')).toMatch(/^claude-/);
+    }
+    
+    // Switching the main provider leaves roles pinned to another provider alone
+    config.update({ llmProvider: 'google' });
+    expect(config.getProviderForRole('fast')).toBe('groq');
+    expect(config.getProviderForRole('strategic')).toBe('google');
+  });
+  
   it('should validate required configuration', () => {
     // Create a config with explicitly empty API keys to override any loaded from environment
     const config = new Config({
@@ -102,4 +136,107 @@ describe('Config', () => {
     
     expect(() => config.validateRequired()).not.toThrow();
   });
+
+  it('should not require an LLM API key for local providers', () => {
+    const config = new Config({
+      llmProvider: 'ollama',
+      openaiApiKey: '',
+      anthropicApiKey: '',
+      googleApiKey: '',
+      groqApiKey: '',
+      perplexityApiKey: '',
+      togetherApiKey: '',
+      cohereApiKey: '',
+      tavilyApiKey: 'test-key'
+    });
+    
+    expect(config.requiresApiKey('ollama')).toBe(false);
+    expect(config.requiresApiKey('openai')).toBe(true);
+    expect(() => config.validateRequired()).not.toThrow();
+  });
+
+  it('should require the API key of every role and fallback provider', () => {
+    const config = new Config({
+      openaiApiKey: 'test-key',
+      anthropicApiKey: '',
+      groqApiKey: '',
+      tavilyApiKey: 'test-key',
+      smartLLMProvider: 'anthropic',
+      fallbackLLMProviders: ['groq']
+    });
+    
+    expect(() => config.validateRequired()).toThrow(/anthropic LLM provider\nAn API key is required for the groq/);
+    
+    config.set('anthropicApiKey', 'test-key');
+    config.set('groqApiKey', 'test-key');
+    expect(() => config.validateRequired()).not.toThrow();
+  });
+
+  it('should require a model for roles served by a provider without default models', () => {
+    const config = new Config({
+      openaiApiKey: 'test-key',
+      tavilyApiKey: 'test-key',
+      smartLLMProvider: 'vllm'
+    });
+    
+    // The OpenAI default would reach the vLLM server otherwise
+    expect(config.get('smartLLMModel')).toBeUndefined();
+    expect(() => config.validateRequired()).toThrow(/SMART_LLM_MODEL must be set, as the vllm provider/);
+    
+    config.set('smartLLMModel', 'Qwen/Qwen2.5-7B-Instruct');
+    expect(() => config.validateRequired()).not.toThrow();
+  });
+
+  it('should only require a search provider when source URLs are complemented by search', () => {
+    // Without keyless retrievers, searching needs an API key
+    vi.spyOn(RetrieverFactory, 'requiresApiKey').mockReturnValue(true);
+    const config = new Config({
+      openaiApiKey: 'test-key',
+      tavilyApiKey: '',
+      serperApiKey: '',
+      serpapiApiKey: '',
+      googleCx: '',
+      bingApiKey: '',
+      sourceUrls: ['https://example.com/report']
+    });
+    
+    expect(() => config.validateRequired()).not.toThrow();
+    
+    config.set('complementSourceUrls', true);
+    expect(() => config.validateRequired()).toThrow(/search provider/);
+  });
+
+  it('should count keyless DuckDuckGo as a search provider, as research falls back to it', () => {
+    const config = new Config({
+      openaiApiKey: 'test-key',
+      tavilyApiKey: '',
+      serperApiKey: '',
+      serpapiApiKey: '',
+      googleCx: '',
+      bingApiKey: '',
+      braveApiKey: ''
+    });
+    
+    expect(() => config.validateRequired()).not.toThrow();
+    expect(config.getSearchRetrievers()).toEqual(['tavily', 'duckduckgo']);
+    expect(config.canUseRetriever('tavily')).toBe(false);
+    
+    config.set('serperApiKey', 'test-key');
+    expect(config.getSearchRetrievers()).toEqual(['tavily', 'serper', 'duckduckgo']);
+  });
+
+  it('should not require a search API key for academic reports', () => {
+    const config = new Config({
+      openaiApiKey: 'test-key',
+      tavilyApiKey: '',
+      serperApiKey: '',
+      serpapiApiKey: '',
+      googleCx: '',
+      bingApiKey: '',
+      braveApiKey: '',
+      reportType: ReportType.AcademicReport
+    });
+    
+    expect(() => config.validateRequired()).not.toThrow();
+  });
 });
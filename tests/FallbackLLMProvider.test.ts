@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from 'vitest';
+import { LLMProvider } from '../src/providers/LLMProvider';
+import { FallbackLLMProvider, CircuitBreaker } from '../src/providers/FallbackLLMProvider';
+
+// Minimal provider whose completions are scripted per test
+class StubProvider extends LLMProvider {
+  public complete = vi.fn(async (_messages: any, _options?: any): Promise<string> => 'ok');
+
+  protected initializeModelCosts(): void {
+    this.modelCosts.set('stub-model', { input: 1, output: 1 });
+  }
+
+  async createChatCompletion(messages: any, options?: any): Promise<string> {
+    try {
+      return await this.complete(messages, options);
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  async *createChatCompletionStream(messages: any, options?: any): AsyncGenerator<string> {
+    yield await this.createChatCompletion(messages, options);
+  }
+
+  async createEmbedding(): Promise<number[]> {
+    return [1];
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    return ['stub-model'];
+  }
+}
+
+const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { status });
+const messages = [{ role: 'user' as const, content: 'hi' }];
+
+describe('FallbackLLMProvider', () => {
+  it('fails over on rate limits and server errors and emits failover', async () => {
+    const primary = new StubProvider({});
+    const backup = new StubProvider({});
+    primary.complete.mockRejectedValue(httpError(429));
+    backup.complete.mockResolvedValue('from backup');
+
+    const fallback = new FallbackLLMProvider({
+      providers: [
+        { name: 'primary', provider: primary },
+        { name: 'backup', provider: backup, model: 'backup-model' }
+      ]
+    });
+    const onFailover = vi.fn();
+    fallback.on('failover', onFailover);
+
+    await expect(fallback.createChatCompletion(messages, { model: 'primary-model' })).resolves.toBe('from backup');
+    expect(backup.complete).toHaveBeenCalledWith(messages, { model: 'backup-model' });
+    expect(onFailover).toHaveBeenCalledWith(expect.objectContaining({ from: 'primary', to: 'backup', statusCode: 429 }));
+  });
+
+  it('does not fail over on client errors', async () => {
+    const primary = new StubProvider({});
+    const backup = new StubProvider({});
+    primary.complete.mockRejectedValue(httpError(400));
+
+    const fallback = new FallbackLLMProvider({
+      providers: [{ name: 'primary', provider: primary }, { name: 'backup', provider: backup }]
+    });
+    fallback.on('error', () => undefined);
+
+    await expect(fallback.createChatCompletion(messages)).rejects.toMatchObject({ statusCode: 400 });
+    expect(backup.complete).not.toHaveBeenCalled();
+  });
+
+  it('opens the circuit after repeated failures and retries after the reset timeout', async () => {
+    vi.useFakeTimers();
+    try {
+      const primary = new StubProvider({});
+      const backup = new StubProvider({});
+      primary.complete.mockRejectedValue(httpError(503));
+
+      const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 1000 });
+      const fallback = new FallbackLLMProvider({
+        circuitBreaker: breaker,
+        providers: [{ name: 'primary', provider: primary }, { name: 'backup', provider: backup }]
+      });
+      const onCircuitOpen = vi.fn();
+      fallback.on('circuit_open', onCircuitOpen);
+
+      await fallback.createChatCompletion(messages);
+      await fallback.createChatCompletion(messages);
+      expect(onCircuitOpen).toHaveBeenCalledWith(expect.objectContaining({ provider: 'primary', failures: 2 }));
+      expect(fallback.getCircuitStates()).toEqual({ primary: 'open', backup: 'closed' });
+
+      // While open, the primary is skipped entirely
+      await fallback.createChatCompletion(messages);
+      expect(primary.complete).toHaveBeenCalledTimes(2);
+
+      // After the timeout a trial request goes through and closes the circuit on success
+      vi.advanceTimersByTime(1000);
+      primary.complete.mockResolvedValue('recovered');
+      await expect(fallback.createChatCompletion(messages)).resolves.toBe('recovered');
+      expect(breaker.getState('primary')).toBe('closed');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('rejects once every provider has failed', async () => {
+    const primary = new StubProvider({});
+    const backup = new StubProvider({});
+    primary.complete.mockRejectedValue(httpError(500));
+    backup.complete.mockRejectedValue(new Error('Request timed out.'));
+
+    const fallback = new FallbackLLMProvider({
+      providers: [{ name: 'primary', provider: primary }, { name: 'backup', provider: backup }]
+    });
+    fallback.on('error', () => undefined);
+
+    await expect(fallback.createChatCompletion(messages)).rejects.toThrow(/All LLM providers failed/);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import { Config } from '../src/core/Config';
+import { Memory } from '../src/core/Memory';
+import { ResearchConductor } from '../src/skills/ResearchConductor';
+import {
+  ArxivRetriever,
+  SemanticScholarRetriever,
+  PubMedRetriever,
+  CrossrefRetriever
+} from '../src/retrievers';
+import { formatCitation } from '../src/utils/citations';
+import { ReportType } from '../src/types';
+
+vi.mock('axios');
+
+const mockedAxios = vi.mocked(axios);
+
+const arxivFeed = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:arxiv="http://arxiv.org/schemas/atom">
+  <entry>
+    <id>http://arxiv.org/abs/1706.03762v7</id>
+    <published>2017-06-12T17:57:34Z</published>
+    <title>Attention Is All
+      You Need</title>
+    <summary>  The dominant sequence transduction models are based on
+      recurrent networks.</summary>
+    <author><name>Ashish Vaswani</name></author>
+    <author><name>Noam Shazeer</name></author>
+    <arxiv:doi>10.48550/arXiv.1706.03762</arxiv:doi>
+  </entry>
+</feed>`;
+
+const pubmedArticles = `<?xml version="1.0"?>
+<PubmedArticleSet>
+  <PubmedArticle>
+    <MedlineCitation>
+      <PMID>111</PMID>
+      <Article>
+        <Journal>
+          <JournalIssue><PubDate><Year>2021</Year></PubDate></JournalIssue>
+          <Title>The Lancet</Title>
+        </Journal>
+        <ArticleTitle>Vaccine efficacy in adults.</ArticleTitle>
+        <Abstract>
+          <AbstractText Label="BACKGROUND">Trials were run.</AbstractText>
+          <AbstractText Label="RESULTS">Efficacy was 95%.</AbstractText>
+        </Abstract>
+        <AuthorList>
+          <Author><LastName>Polack</LastName><ForeName>Fernando P</ForeName></Author>
+        </AuthorList>
+      </Article>
+    </MedlineCitation>
+    <PubmedData>
+      <ArticleIdList><ArticleId IdType="doi">10.1016/example</ArticleId></ArticleIdList>
+    </PubmedData>
+  </PubmedArticle>
+</PubmedArticleSet>`;
+
+describe('Academic retrievers', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('parses arXiv Atom entries into scholarly results', async () => {
+    mockedAxios.get.mockResolvedValueOnce({ data: arxivFeed });
+
+    const [paper] = await new ArxivRetriever('arxiv', {}).search('transformers');
+
+    expect(mockedAxios.get.mock.calls[0][1]?.params).toMatchObject({ search_query: 'all:transformers' });
+    expect(paper).toMatchObject({
+      url: 'https://arxiv.org/abs/1706.03762v7',
+      title: 'Attention Is All You Need',
+      authors: ['Ashish Vaswani', 'Noam Shazeer'],
+      abstract: 'The dominant sequence transduction models are based on recurrent networks.',
+      doi: '10.48550/arXiv.1706.03762',
+      venue: 'arXiv',
+      year: 2017
+    });
+  });
+
+  it('normalizes Semantic Scholar papers and sends the optional API key', async () => {
+    mockedAxios.get.mockResolvedValueOnce({
+      data: {
+        data: [{
+          paperId: 'abc',
+          url: 'https://www.semanticscholar.org/paper/abc',
+          title: 'BERT',
+          abstract: 'We introduce BERT.',
+          venue: 'NAACL',
+          year: 2019,
+          authors: [{ name: 'Jacob Devlin' }],
+          externalIds: { DOI: '10.18653/v1/N19-1423' },
+          citationCount: 90000
+        }]
+      }
+    });
+
+    const [paper] = await new SemanticScholarRetriever('semanticscholar', { apiKey: 'key' }).search('bert');
+
+    expect(mockedAxios.get.mock.calls[0][1]?.headers).toEqual({ 'x-api-key': 'key' });
+    expect(paper).toMatchObject({
+      title: 'BERT',
+      content: 'We introduce BERT.',
+      authors: ['Jacob Devlin'],
+      author: 'Jacob Devlin',
+      doi: '10.18653/v1/N19-1423',
+      venue: 'NAACL',
+      year: 2019,
+      citationCount: 90000
+    });
+  });
+
+  it('searches PubMed and fetches abstracts for the matching articles', async () => {
+    mockedAxios.get
+      .mockResolvedValueOnce({ data: { esearchresult: { idlist: ['111'] } } })
+      .mockResolvedValueOnce({ data: pubmedArticles });
+
+    const [article] = await new PubMedRetriever('pubmed', {}).search('vaccine efficacy');
+
+    expect(mockedAxios.get.mock.calls[1][1]?.params).toMatchObject({ db: 'pubmed', id: '111' });
+    expect(article).toMatchObject({
+      url: 'https://pubmed.ncbi.nlm.nih.gov/111/',
+      title: 'Vaccine efficacy in adults.',
+      authors: ['Fernando P Polack'],
+      abstract: 'BACKGROUND: Trials were run. RESULTS: Efficacy was 95%.',
+      doi: '10.1016/example',
+      venue: 'The Lancet',
+      year: 2021
+    });
+  });
+
+  it('normalizes Crossref works and strips JATS markup from abstracts', async () => {
+    mockedAxios.get.mockResolvedValueOnce({
+      data: {
+        message: {
+          items: [{
+            DOI: '10.1038/nature14539',
+            title: ['Deep learning'],
+            author: [{ given: 'Yann', family: 'LeCun' }, { given: 'Yoshua', family: 'Bengio' }],
+            'container-title': ['Nature'],
+            issued: { 'date-parts': [[2015, 5, 28]] },
+            abstract: '<jats:p>Deep learning allows models to learn.</jats:p>',
+            score: 42
+          }]
+        }
+      }
+    });
+
+    const [work] = await new CrossrefRetriever('crossref', { mailto: 'me@example.com' }).search('deep learning');
+
+    expect(mockedAxios.get.mock.calls[0][1]?.params).toMatchObject({ mailto: 'me@example.com' });
+    expect(work).toMatchObject({
+      url: 'https://doi.org/10.1038/nature14539',
+      abstract: 'Deep learning allows models to learn.',
+      venue: 'Nature',
+      year: 2015,
+      publishedDate: '2015-5-28'
+    });
+    expect(formatCitation(work)).toBe(
+      'LeCun, Y., & Bengio, Y. (2015). Deep learning. *Nature*. https://doi.org/10.1038/nature14539'
+    );
+  });
+
+  it('prefers scholarly retrievers for academic reports', async () => {
+    (Config as any).instance = undefined;
+    const config = Config.getInstance({
+      query: 'transformers',
+      reportType: ReportType.AcademicReport,
+      defaultRetriever: 'tavily',
+      tavilyApiKey: 'key'
+    });
+    mockedAxios.get.mockResolvedValueOnce({
+      data: { data: [{ title: 'Attention Is All You Need', year: 2017, authors: [], url: 'https://s2.org/p/1' }] }
+    });
+
+    const results = await new ResearchConductor(config, new Memory()).searchInformation(['transformers']);
+
+    expect(mockedAxios.get.mock.calls[0][0]).toBe('https://api.semanticscholar.org/graph/v1/paper/search');
+    expect(mockedAxios.post).not.toHaveBeenCalled();
+    expect(results.map(result => result.title)).toEqual(['Attention Is All You Need']);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import axios from 'axios';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Config } from '../src/core/Config';
+import { Memory } from '../src/core/Memory';
+import { ResearchConductor } from '../src/skills/ResearchConductor';
+import { MemoryCache, FileSystemCache, RedisRestCache, createCacheKey } from '../src/cache';
+
+vi.mock('axios');
+
+const mockedAxios = vi.mocked(axios);
+
+describe('Caching', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('builds the same key for options in any order', () => {
+    expect(createCacheKey('search', 'tavily', 'q', { maxResults: 5, days: 7 }))
+      .toBe(createCacheKey('search', 'tavily', 'q', { days: 7, maxResults: 5 }));
+    expect(createCacheKey('search', 'tavily', 'q', { maxResults: 5 }))
+      .not.toBe(createCacheKey('search', 'serper', 'q', { maxResults: 5 }));
+  });
+
+  it('expires memory entries after their TTL and evicts the least recently used', async () => {
+    vi.useFakeTimers();
+    const cache = new MemoryCache('memory', { ttl: 60, maxEntries: 2 });
+
+    await cache.set('a', 1);
+    await cache.set('b', 2);
+    await cache.get('a');
+    await cache.set('c', 3);
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.get('a')).toBe(1);
+
+    vi.advanceTimersByTime(61_000);
+    expect(await cache.get('a')).toBeUndefined();
+  });
+
+  it('persists entries to disk between instances', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'gpt-research-cache-'));
+    try {
+      await new FileSystemCache('filesystem', { directory }).set('key', [{ url: 'https://a.com' }]);
+
+      const reopened = new FileSystemCache('filesystem', { directory });
+      expect(await reopened.get('key')).toEqual([{ url: 'https://a.com' }]);
+
+      await reopened.clear();
+      expect(await reopened.get('key')).toBeUndefined();
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('sends Redis commands to the KV REST endpoint', async () => {
+    const cache = new RedisRestCache('redis', { url: 'https://kv.example.com', token: 'secret', ttl: 30 });
+    mockedAxios.post
+      .mockResolvedValueOnce({ data: { result: 'OK' } })
+      .mockResolvedValueOnce({ data: { result: JSON.stringify({ hello: 'world' }) } });
+
+    await cache.set('key', { hello: 'world' });
+    const value = await cache.get('key');
+
+    expect(mockedAxios.post.mock.calls[0][0]).toBe('https://kv.example.com');
+    expect(mockedAxios.post.mock.calls[0][1]).toEqual(['SET', 'gpt-research:key', '{"hello":"world"}', 'EX', 30]);
+    expect(mockedAxios.post.mock.calls[0][2]?.headers).toEqual({ Authorization: 'Bearer secret' });
+    expect(value).toEqual({ hello: 'world' });
+  });
+
+  it('serves repeated searches from the cache unless useCache is false', async () => {
+    (Config as any).instance = undefined;
+    const config = Config.getInstance({
+      query: 'cache',
+      defaultRetriever: 'tavily',
+      tavilyApiKey: 'key',
+      cacheBackend: 'memory'
+    });
+    mockedAxios.post.mockResolvedValue({
+      data: { results: [{ url: 'https://example.com/cache', title: 'Caching', content: 'Body' }] }
+    });
+
+    const first = await new ResearchConductor(config, new Memory()).searchInformation(['http caching']);
+    const second = await new ResearchConductor(config, new Memory()).searchInformation(['http caching']);
+    expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+    expect(second).toEqual(first);
+
+    await new ResearchConductor(config, new Memory()).searchInformation(['http caching'], { useCache: false });
+    expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+  });
+
+  it('searches uncached when the cache backend cannot be opened', async () => {
+    (Config as any).instance = undefined;
+    const config = Config.getInstance({
+      query: 'cache',
+      defaultRetriever: 'tavily',
+      tavilyApiKey: 'key',
+      cacheBackend: 'redis'
+    });
+    mockedAxios.post.mockResolvedValue({
+      data: { results: [{ url: 'https://example.com/cache', title: 'Caching', content: 'Body' }] }
+    });
+    const conductor = new ResearchConductor(config, new Memory());
+    const errors: any[] = [];
+    conductor.on('cache_error', data => errors.push(data));
+
+    await conductor.searchInformation(['http caching']);
+    await conductor.searchInformation(['http caching']);
+    expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].error.message).toBe('Redis REST cache requires a URL and token');
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Config } from '../src/core/Config';
+import { Memory } from '../src/core/Memory';
+import { ReportGenerator } from '../src/skills/ReportGenerator';
+import { CitationFormatterFactory, toBibTeX, toCSLJSON } from '../src/citations';
+import { CitationStyle, ResearchContext, ReportType, SearchResult, Tone } from '../src/types';
+
+const paper: SearchResult = {
+  url: 'https://arxiv.org/abs/1706.03762',
+  title: 'Attention Is All You Need',
+  content: '',
+  authors: ['Ashish Vaswani', 'Noam Shazeer', 'Niki Parmar'],
+  year: 2017,
+  venue: 'NeurIPS',
+  doi: '10.48550/arXiv.1706.03762'
+};
+
+const page: SearchResult = {
+  url: 'https://www.reuters.com/business/energy/solar',
+  title: 'Solar installations hit a record',
+  content: '',
+  author: 'Reuters Staff',
+  publishedDate: '2024-03-05'
+};
+
+describe('Citation styles', () => {
+  it('formats papers in each style', () => {
+    const format = (style: CitationStyle) => CitationFormatterFactory.create(style).format(paper);
+
+    expect(format(CitationStyle.APA)).toBe(
+      'Vaswani, A., Shazeer, N., & Parmar, N. (2017). Attention Is All You Need. *NeurIPS*. https://doi.org/10.48550/arXiv.1706.03762'
+    );
+    expect(format(CitationStyle.MLA)).toBe(
+      'Vaswani, Ashish, et al. "Attention Is All You Need." *NeurIPS*, 2017, https://doi.org/10.48550/arXiv.1706.03762.'
+    );
+    expect(format(CitationStyle.Chicago)).toBe(
+      'Vaswani, Ashish, Noam Shazeer, and Niki Parmar. "Attention Is All You Need." *NeurIPS* (2017). https://doi.org/10.48550/arXiv.1706.03762.'
+    );
+    expect(format(CitationStyle.IEEE)).toBe(
+      'A. Vaswani, N. Shazeer, and N. Parmar, "Attention Is All You Need," *NeurIPS*, 2017, doi: 10.48550/arXiv.1706.03762.'
+    );
+  });
+
+  it('formats web pages in each style', () => {
+    const format = (style: CitationStyle) => CitationFormatterFactory.create(style).format(page);
+
+    expect(format(CitationStyle.APA)).toBe(
+      'Reuters Staff. (2024, March 5). *Solar installations hit a record*. reuters.com. https://www.reuters.com/business/energy/solar'
+    );
+    expect(format(CitationStyle.MLA)).toBe(
+      'Reuters Staff. "Solar installations hit a record." *reuters.com*, 5 Mar. 2024, https://www.reuters.com/business/energy/solar.'
+    );
+    expect(format(CitationStyle.Chicago)).toBe(
+      'Reuters Staff. "Solar installations hit a record." reuters.com. March 5, 2024. https://www.reuters.com/business/energy/solar.'
+    );
+    expect(format(CitationStyle.IEEE)).toBe(
+      'Reuters Staff, "Solar installations hit a record," reuters.com, Mar. 5, 2024. [Online]. Available: https://www.reuters.com/business/energy/solar'
+    );
+  });
+
+  it('cites only the date parts a page gives', () => {
+    const format = (style: CitationStyle, publishedDate: string) =>
+      CitationFormatterFactory.create(style).format({ ...page, publishedDate });
+
+    expect(format(CitationStyle.APA, '2017')).toContain('(2017).');
+    expect(format(CitationStyle.APA, '2024-03')).toContain('(2024, March).');
+    expect(format(CitationStyle.MLA, '2024-03')).toContain('*reuters.com*, Mar. 2024,');
+    expect(format(CitationStyle.Chicago, '2024-03')).toContain('reuters.com. March 2024.');
+    expect(format(CitationStyle.IEEE, '2017')).toContain('reuters.com, 2017.');
+  });
+
+  it('lists up to 20 authors in APA and elides the rest but the last', () => {
+    const authors = Array.from({ length: 22 }, (_, index) => `Author ${String.fromCharCode(65 + index)}`);
+    const format = (count: number) =>
+      CitationFormatterFactory.create(CitationStyle.APA).format({ ...paper, authors: authors.slice(0, count) });
+
+    expect(format(20)).toContain('S, A., & T, A. (2017).');
+    expect(format(22)).toMatch(/^A, A\., B, A\., .* S, A\., \. \. \. V, A\. \(2017\)\./);
+    expect(format(22)).not.toContain('T, A.');
+  });
+
+  it('falls back to the title and n.d. for undated pages without an author', () => {
+    const formatter = CitationFormatterFactory.create(CitationStyle.APA);
+
+    expect(formatter.format({ url: '/docs/q3.md', title: 'Q3 Summary', content: '', sourceType: 'local' }))
+      .toBe('*Q3 Summary*. (n.d.). /docs/q3.md (internal document)');
+  });
+});
+
+describe('Bibliography export', () => {
+  it('writes BibTeX entries with unique keys', () => {
+    expect(toBibTeX([paper, page, { ...page, url: 'https://www.reuters.com/other' }])).toBe([
+      '@article{vaswani2017attention,',
+      '  author = {Vaswani, Ashish and Shazeer, Noam and Parmar, Niki},',
+      '  title = {{Attention Is All You Need}},',
+      '  journal = {NeurIPS},',
+      '  year = {2017},',
+      '  doi = {10.48550/arXiv.1706.03762},',
+      '  url = {https://arxiv.org/abs/1706.03762}',
+      '}',
+      '',
+      '@misc{reutersstaff2024solar,',
+      '  author = {{Reuters Staff}},',
+      '  title = {{Solar installations hit a record}},',
+      '  year = {2024},',
+      '  month = {3},',
+      '  url = {https://www.reuters.com/business/energy/solar}',
+      '}',
+      '',
+      '@misc{reutersstaff2024solara,',
+      '  author = {{Reuters Staff}},',
+      '  title = {{Solar installations hit a record}},',
+      '  year = {2024},',
+      '  month = {3},',
+      '  url = {https://www.reuters.com/other}',
+      '}'
+    ].join('\n'));
+  });
+
+  it('writes CSL-JSON items', () => {
+    expect(toCSLJSON([paper, page])).toEqual([
+      {
+        id: 'vaswani2017attention',
+        type: 'article-journal',
+        title: 'Attention Is All You Need',
+        author: [
+          { family: 'Vaswani', given: 'Ashish' },
+          { family: 'Shazeer', given: 'Noam' },
+          { family: 'Parmar', given: 'Niki' }
+        ],
+        issued: { 'date-parts': [[2017]] },
+        'container-title': 'NeurIPS',
+        DOI: '10.48550/arXiv.1706.03762',
+        URL: 'https://arxiv.org/abs/1706.03762'
+      },
+      {
+        id: 'reutersstaff2024solar',
+        type: 'webpage',
+        title: 'Solar installations hit a record',
+        author: [{ literal: 'Reuters Staff' }],
+        issued: { 'date-parts': [[2024, 3, 5]] },
+        URL: 'https://www.reuters.com/business/energy/solar'
+      }
+    ]);
+  });
+
+  it('keeps year-only and year-month dates without inventing the rest', () => {
+    // Scholarly retrievers date works by their year alone
+    const items = toCSLJSON([
+      { ...paper, publishedDate: '2017' },
+      { ...page, publishedDate: '2024-03' },
+      { ...paper, publishedDate: '2019-05-01' }
+    ]);
+    expect(items.map(item => item.issued)).toEqual([
+      { 'date-parts': [[2017]] },
+      { 'date-parts': [[2024, 3]] },
+      { 'date-parts': [[2017]] }
+    ]);
+
+    const bibtex = toBibTeX([{ ...paper, publishedDate: '2017' }, { ...page, publishedDate: '2024' }]);
+    expect(bibtex).not.toContain('month');
+  });
+});
+
+describe('Report references', () => {
+  const context: ResearchContext = {
+    query: 'transformers',
+    reportType: ReportType.ResearchReport,
+    findings: [],
+    sources: [paper, page]
+  };
+  const report = '# Transformers\n\nAttention replaced recurrence [1].';
+
+  beforeEach(() => {
+    (Config as any).instance = undefined;
+  });
+
+  it('formats the references in the configured style', () => {
+    const generator = new ReportGenerator(new Config({ query: 'transformers', citationStyle: CitationStyle.IEEE }), new Memory());
+    const document = generator.createDocument(report, context);
+
+    expect(document.references.map(reference => reference.citation)).toEqual([
+      'A. Vaswani, N. Shazeer, and N. Parmar, "Attention Is All You Need," *NeurIPS*, 2017, doi: 10.48550/arXiv.1706.03762.'
+    ]);
+    expect(generator.exportBibliography(document, context, 'bibtex')).toMatch(/^@article\{vaswani2017attention,/);
+  });
+
+  it('uses APA for academic reports without a configured style', () => {
+    const generator = new ReportGenerator(new Config({ query: 'transformers', tone: Tone.Academic }), new Memory());
+    const document = generator.createDocument('# Solar\n\nRecord installations [2].', context);
+
+    expect(document.references[0].citation).toMatch(/^Reuters Staff\. \(2024, March 5\)/);
+  });
+});
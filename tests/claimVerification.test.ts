@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LLMProvider } from '../src/providers/LLMProvider';
+import { Config } from '../src/core/Config';
+import { Memory } from '../src/core/Memory';
+import { ClaimVerifier } from '../src/skills/ClaimVerifier';
+import { ReportGenerator } from '../src/skills/ReportGenerator';
+import { ChatMessage, ResearchContext, ReportType, UnsupportedClaimAction } from '../src/types';
+
+// Provider that judges the three report sentences and rewrites failing ones
+class FactCheckingProvider extends LLMProvider {
+  public calls: ChatMessage[][] = [];
+  public rewrite = 'Deployments doubled over the year [2].';
+
+  constructor() {
+    super({});
+  }
+
+  protected initializeModelCosts(): void {}
+
+  async createChatCompletion(messages: ChatMessage[]): Promise<string> {
+    this.calls.push(messages);
+
+    if (/fact checker\./.test(messages[0].content)) {
+      return JSON.stringify({
+        claims: [
+          { sentence: 1, claim: 'Battery prices fell 20% in 2023', verdict: 'supported', explanation: 'E1 reports a 20% fall.', evidence: [1] },
+          { sentence: 2, claim: 'Deployments tripled', verdict: 'contradicted', explanation: 'E2 says deployments doubled.', evidence: [2] },
+          { sentence: 3, claim: 'Prices will keep falling through 2030', verdict: 'unsupported', explanation: 'No passage forecasts prices.', evidence: [] }
+        ]
+      });
+    }
+
+    return JSON.stringify({
+      sentences: [{ sentence: 1, text: this.rewrite }]
+    });
+  }
+
+  async *createChatCompletionStream(): AsyncGenerator<string> {}
+
+  async createEmbedding(): Promise<number[]> {
+    return [];
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    return [];
+  }
+}
+
+const context: ResearchContext = {
+  query: 'grid storage',
+  reportType: ReportType.ResearchReport,
+  findings: [
+    { content: 'Battery pack prices fell 20% in 2023.', source: 'https://a.example/prices', sourceType: 'web' },
+    { content: 'Grid storage deployments doubled during the year.', source: 'https://b.example/deploy', sourceType: 'web' }
+  ],
+  sources: [
+    { url: 'https://a.example/prices', title: 'Price survey', content: '' },
+    { url: 'https://b.example/deploy', title: 'Deployment tracker', content: '' }
+  ]
+};
+
+const report = `# Grid Storage
+
+Battery prices fell 20% in 2023 [1]. Deployments tripled over the year [2].
+
+- Prices will keep falling through 2030.
+- Short item.
+`;
+
+describe('Claim verification', () => {
+  let provider: FactCheckingProvider;
+
+  beforeEach(() => {
+    (Config as any).instance = undefined;
+    provider = new FactCheckingProvider();
+  });
+
+  const verify = async (unsupportedClaims: UnsupportedClaimAction) => {
+    const config = new Config({ query: 'grid storage', unsupportedClaims });
+    const memory = new Memory();
+    const document = new ReportGenerator(config, memory).createDocument(report, context);
+    const result = await new ClaimVerifier(config, memory).verifyReport(document, context, provider);
+    return { ...result, original: document, generator: new ReportGenerator(config, memory) };
+  };
+
+  it('labels each claim with a verdict and the evidence behind it', async () => {
+    const { claims, document, original } = await verify('keep');
+
+    expect(claims).toEqual([
+      {
+        claimId: 'grid-storage-1',
+        sentence: 'Battery prices fell 20% in 2023 [1].',
+        claim: 'Battery prices fell 20% in 2023',
+        verdict: 'supported',
+        explanation: 'E1 reports a 20% fall.',
+        evidence: ['https://a.example/prices']
+      },
+      expect.objectContaining({ claimId: 'grid-storage-2', verdict: 'contradicted', evidence: ['https://b.example/deploy'] }),
+      expect.objectContaining({ claimId: 'grid-storage-3', verdict: 'unsupported', evidence: [] })
+    ]);
+    expect(document).toBe(original);
+  });
+
+  it('gives each sentence the findings of the sources it cites', async () => {
+    await verify('keep');
+    const prompt = provider.calls[0][1].content;
+
+    expect(prompt).toContain('[S1] Battery prices fell 20% in 2023. (evidence: E1');
+    expect(prompt).toContain('[S2] Deployments tripled over the year. (evidence: E2');
+    expect(prompt).not.toContain('Short item');
+  });
+
+  it('flags sentences that fail verification', async () => {
+    const { document, generator } = await verify('flag');
+    const markdown = generator.renderMarkdown(document);
+
+    expect(markdown).toContain('Battery prices fell 20% in 2023 [1]. Deployments tripled over the year [2]. *(contradicted by sources)*');
+    expect(markdown).toContain('- Prices will keep falling through 2030. *(unverified)*');
+  });
+
+  it('rewrites failing sentences and flags those left unrewritten', async () => {
+    const { document, generator } = await verify('rewrite');
+    const markdown = generator.renderMarkdown(document);
+
+    expect(provider.calls[1][1].content).toContain('[S1] Deployments tripled over the year [2].\n  - contradicted: Deployments tripled');
+    expect(markdown).toContain('[1]. Deployments doubled over the year [2].');
+    expect(markdown).toContain('- Prices will keep falling through 2030. *(unverified)*');
+    expect(document.sections[0].blocks[0]).toMatchObject({
+      claims: [{}, { text: 'Deployments doubled over the year [2].', citations: ['ref-2'] }]
+    });
+  });
+
+  it('drops markers a rewrite invents and references it no longer cites', async () => {
+    provider.rewrite = 'Deployments doubled over the year [9].';
+    const { document, generator } = await verify('rewrite');
+    const markdown = generator.renderMarkdown(document);
+
+    expect(markdown).toContain('[1]. Deployments doubled over the year.');
+    expect(markdown).not.toContain('[9]');
+    expect(document.references.map(reference => reference.url)).toEqual(['https://a.example/prices']);
+    expect(document.sections[0].blocks[0]).toMatchObject({
+      claims: [{ citations: ['ref-1'] }, { text: 'Deployments doubled over the year.', citations: [] }]
+    });
+  });
+});
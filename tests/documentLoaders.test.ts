@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DocumentLoader, LoaderFactory } from '../src/loaders';
+import { ExporterFactory } from '../src/exporters';
+import { ReportFormat } from '../src/types';
+
+describe('Document loaders', () => {
+  let docsDir: string;
+
+  beforeAll(async () => {
+    docsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpt-research-docs-'));
+    fs.mkdirSync(path.join(docsDir, 'reports'));
+    fs.mkdirSync(path.join(docsDir, '.git'));
+
+    fs.writeFileSync(path.join(docsDir, 'notes.txt'), 'Quarterly   revenue grew.\r\n\r\n\r\nCosts fell.');
+    fs.writeFileSync(
+      path.join(docsDir, 'reports', 'summary.md'),
+      '---\nauthor: "Finance team"\n---\n# Q3 Summary\n\nRevenue grew by **12%**.'
+    );
+    fs.writeFileSync(
+      path.join(docsDir, 'reports', 'page.html'),
+      '<html><head><title>Board update</title><script>track()</script></head>' +
+      '<body><nav>Home</nav><h1>Update</h1><p>Hiring is on plan.</p><p>Churn is down.</p></body></html>'
+    );
+    fs.writeFileSync(
+      path.join(docsDir, 'sales.csv'),
+      '\uFEFFregion,revenue,note\nEMEA,120,"Up, after ""reset"""\nAPAC,95,\n'
+    );
+    // Real PDF and Word files, written by the report exporters
+    const pdf = await ExporterFactory.create(ReportFormat.PDF).export(
+      '# Annual Report\n\nRevenue grew.\n\nMargins held.'
+    );
+    fs.writeFileSync(path.join(docsDir, 'annual.pdf'), pdf.content);
+    const docx = await ExporterFactory.create(ReportFormat.Word).export(
+      '# Board Memo\n\nHiring is on plan.\n\n- Churn is down.'
+    );
+    fs.writeFileSync(path.join(docsDir, 'memo.docx'), docx.content);
+    fs.writeFileSync(path.join(docsDir, 'logo.png'), 'not a document');
+    fs.writeFileSync(path.join(docsDir, '.git', 'HEAD'), 'ref: refs/heads/main');
+  });
+
+  afterAll(() => {
+    fs.rmSync(docsDir, { recursive: true, force: true });
+  });
+
+  it('registers a loader for each supported format', () => {
+    expect(LoaderFactory.getSupportedExtensions()).toEqual(
+      expect.arrayContaining(['.pdf', '.docx', '.md', '.html', '.csv', '.txt'])
+    );
+    expect(LoaderFactory.createForSource('https://example.com/files/report.PDF').getName()).toBe('pdf');
+    expect(() => LoaderFactory.create('.png')).toThrow(/No document loader/);
+  });
+
+  it('loads supported files from a directory tree, skipping hidden and unsupported files', async () => {
+    const documents = await new DocumentLoader().load([docsDir]);
+
+    expect(documents.map(document => path.relative(docsDir, document.source))).toEqual([
+      'annual.pdf',
+      'memo.docx',
+      'notes.txt',
+      path.join('reports', 'page.html'),
+      path.join('reports', 'summary.md'),
+      'sales.csv'
+    ]);
+    expect(documents.map(document => document.type)).toEqual(['pdf', 'docx', 'text', 'html', 'markdown', 'csv']);
+  });
+
+  it('extracts titles and readable text from each format', async () => {
+    const loader = new DocumentLoader();
+    const [html, markdown, text, csv] = await loader.load([
+      path.join(docsDir, 'reports', 'page.html'),
+      path.join(docsDir, 'reports', 'summary.md'),
+      path.join(docsDir, 'notes.txt'),
+      path.join(docsDir, 'sales.csv')
+    ]);
+
+    expect(html.title).toBe('Board update');
+    expect(html.content).toBe('Update\nHiring is on plan.\nChurn is down.');
+
+    expect(markdown.title).toBe('Q3 Summary');
+    expect(markdown.metadata).toEqual(expect.objectContaining({ author: 'Finance team' }));
+    expect(markdown.content).toBe('# Q3 Summary\n\nRevenue grew by **12%**.');
+
+    expect(text.title).toBe('notes');
+    expect(text.content).toBe('Quarterly revenue grew.\n\nCosts fell.');
+
+    expect(csv.content).toBe(
+      'region: EMEA; revenue: 120; note: Up, after "reset"\nregion: APAC; revenue: 95; note: '
+    );
+    expect(csv.metadata).toEqual(expect.objectContaining({ columns: ['region', 'revenue', 'note'], rows: 2 }));
+  });
+
+  it('extracts the text and document info of PDFs', async () => {
+    const [pdf] = await new DocumentLoader().load([path.join(docsDir, 'annual.pdf')]);
+
+    expect(pdf.title).toBe('Annual Report');
+    expect(pdf.content).toContain('Revenue grew.');
+    expect(pdf.content).toContain('Margins held.');
+    expect(pdf.metadata).toEqual(expect.objectContaining({ pages: 1 }));
+  });
+
+  it('extracts the text of Word documents, titled by their first paragraph', async () => {
+    const [docx] = await new DocumentLoader().load([path.join(docsDir, 'memo.docx')]);
+
+    expect(docx.type).toBe('docx');
+    expect(docx.title).toBe('Board Memo');
+    expect(docx.content).toContain('Hiring is on plan.');
+    expect(docx.content).toContain('Churn is down.');
+  });
+
+  it('reports documents that cannot be loaded and carries on', async () => {
+    const loader = new DocumentLoader();
+    const onError = vi.fn();
+    loader.on('document_error', onError);
+
+    const documents = await loader.load([
+      path.join(docsDir, 'missing.pdf'),
+      path.join(docsDir, 'logo.png'),
+      path.join(docsDir, 'notes.txt')
+    ]);
+
+    expect(documents).toHaveLength(1);
+    expect(onError).toHaveBeenCalledTimes(2);
+    expect(onError.mock.calls[1][0].error.message).toMatch(/No document loader/);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import { Config } from '../src/core/Config';
+import { Memory } from '../src/core/Memory';
+import { ResearchConductor } from '../src/skills/ResearchConductor';
+import { TavilyRetriever, SerperRetriever, GoogleRetriever } from '../src/retrievers';
+import { isAllowedUrl, withSiteOperators } from '../src/utils/domains';
+
+vi.mock('axios');
+
+const mockedAxios = vi.mocked(axios);
+
+describe('Domain restrictions', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('matches domains and subdomains and rewrites queries with site: operators', () => {
+    expect(isAllowedUrl('https://docs.python.org/3/', ['python.org'])).toBe(true);
+    expect(isAllowedUrl('https://notpython.org/', ['python.org'])).toBe(false);
+    expect(isAllowedUrl('https://www.reddit.com/r/x', undefined, ['https://reddit.com'])).toBe(false);
+
+    expect(withSiteOperators('asyncio', ['python.org'])).toBe('asyncio site:python.org');
+    expect(withSiteOperators('asyncio', ['python.org', 'www.realpython.com'], ['reddit.com']))
+      .toBe('asyncio (site:python.org OR site:realpython.com) -site:reddit.com');
+  });
+
+  it('uses native filters for Tavily and Google and site: operators for Serper', async () => {
+    mockedAxios.post.mockResolvedValue({ data: { results: [], organic: [] } });
+    mockedAxios.get.mockResolvedValue({ data: {} });
+    const options = { includeDomains: ['python.org'], excludeDomains: ['reddit.com'] };
+
+    await new TavilyRetriever('tavily', { apiKey: 'key' }).search('asyncio', options);
+    expect(mockedAxios.post.mock.calls[0][1]).toMatchObject({
+      query: 'asyncio',
+      include_domains: ['python.org'],
+      exclude_domains: ['reddit.com']
+    });
+
+    await new SerperRetriever('serper', { apiKey: 'key' }).search('asyncio', options);
+    expect(mockedAxios.post.mock.calls[1][1]).toMatchObject({ q: 'asyncio site:python.org -site:reddit.com' });
+
+    const google = new GoogleRetriever('google', { apiKey: 'key' });
+    await google.search('asyncio', { includeDomains: ['python.org'] });
+    expect(mockedAxios.get.mock.calls[0][1]?.params).toMatchObject({
+      q: 'asyncio',
+      siteSearch: 'python.org',
+      siteSearchFilter: 'i'
+    });
+
+    await google.search('asyncio', options);
+    expect(mockedAxios.get.mock.calls[1][1]?.params.q).toBe('asyncio site:python.org -site:reddit.com');
+  });
+
+  it('applies queryDomains and drops results a backend returned from other domains', async () => {
+    (Config as any).instance = undefined;
+    const config = Config.getInstance({
+      query: 'asyncio',
+      defaultRetriever: 'tavily',
+      tavilyApiKey: 'key',
+      serperApiKey: '',
+      googleApiKey: '',
+      queryDomains: ['python.org']
+    });
+    mockedAxios.post.mockResolvedValue({
+      data: {
+        results: [
+          { url: 'https://docs.python.org/3/library/asyncio.html', title: 'asyncio', content: 'Docs' },
+          { url: 'https://example.com/asyncio', title: 'Blog', content: 'Post' }
+        ]
+      }
+    });
+
+    const results = await new ResearchConductor(config, new Memory()).searchInformation(['asyncio']);
+
+    expect(mockedAxios.post.mock.calls[0][1]).toMatchObject({ include_domains: ['python.org'] });
+    expect(results.map(result => result.url)).toEqual(['https://docs.python.org/3/library/asyncio.html']);
+  });
+});
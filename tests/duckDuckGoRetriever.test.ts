@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest';
+import { search } from 'duck-duck-scrape';
+import { Config } from '../src/core/Config';
+import { Memory } from '../src/core/Memory';
+import { ResearchConductor } from '../src/skills/ResearchConductor';
+import { DuckDuckGoRetriever } from '../src/retrievers';
+
+vi.mock('duck-duck-scrape', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('duck-duck-scrape')>()),
+  search: vi.fn()
+}));
+
+const mockedSearch = vi.mocked(search);
+
+describe('DuckDuckGoRetriever', () => {
+  it('searches without an API key and cleans up result markup', async () => {
+    mockedSearch.mockResolvedValueOnce({
+      noResults: false,
+      vqd: 'vqd',
+      results: [
+        {
+          url: 'https://nodejs.org/en/blog',
+          title: 'Node.js <b>Blog</b>',
+          description: 'Release notes for <b>Node.js</b> &amp; more',
+          hostname: 'nodejs.org',
+          rawDescription: '',
+          icon: ''
+        }
+      ]
+    });
+
+    const results = await new DuckDuckGoRetriever('duckduckgo', {}).search('node releases', {
+      includeDomains: ['nodejs.org'],
+      days: 7
+    });
+
+    expect(mockedSearch).toHaveBeenCalledWith(
+      'node releases site:nodejs.org',
+      expect.objectContaining({ time: 'w' })
+    );
+    expect(results).toEqual([expect.objectContaining({
+      url: 'https://nodejs.org/en/blog',
+      title: 'Node.js Blog',
+      content: 'Release notes for Node.js & more'
+    })]);
+  });
+
+  it('is used by the research conductor when no search API keys are configured', async () => {
+    (Config as any).instance = undefined;
+    const config = Config.getInstance({
+      query: 'node releases',
+      defaultRetriever: 'tavily',
+      tavilyApiKey: '',
+      serperApiKey: '',
+      googleApiKey: ''
+    });
+    mockedSearch.mockResolvedValueOnce({
+      noResults: false,
+      vqd: 'vqd',
+      results: [{
+        url: 'https://nodejs.org/en/blog',
+        title: 'Node.js Blog',
+        description: 'Release notes',
+        hostname: 'nodejs.org',
+        rawDescription: '',
+        icon: ''
+      }]
+    });
+
+    const results = await new ResearchConductor(config, new Memory()).searchInformation(['node releases']);
+
+    expect(results.map(result => result.url)).toEqual(['https://nodejs.org/en/blog']);
+  });
+});
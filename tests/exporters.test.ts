@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import mammoth from 'mammoth';
+import { Config } from '../src/core/Config';
+import { Memory } from '../src/core/Memory';
+import { ReportGenerator } from '../src/skills/ReportGenerator';
+import { ExporterFactory } from '../src/exporters';
+import { ReportFormat, ReportType } from '../src/types';
+
+const report = `# Solar Outlook
+
+Capacity **grew** 50%, according to [the IEA](https://www.iea.org/solar).
+
+## Data
+
+| Year | Source |
+|------|--------|
+| 2023 | [IEA](https://www.iea.org/2023) |
+
+- Utility scale
+  - China
+- Rooftop
+
+## References
+
+1. [IEA Solar report](https://www.iea.org/solar)
+`;
+
+describe('Report exporters', () => {
+  it('renders a standalone HTML page', async () => {
+    const exported = await ExporterFactory.create(ReportFormat.HTML).export(report);
+
+    expect(exported).toMatchObject({
+      format: ReportFormat.HTML,
+      mimeType: 'text/html; charset=utf-8',
+      filename: 'solar-outlook.html'
+    });
+    expect(exported.content).toContain('<title>Solar Outlook</title>');
+    expect(exported.content).toContain('<a href="https://www.iea.org/2023">IEA</a></td>');
+    expect(exported.content).toContain('<h2>References</h2>');
+  });
+
+  it('escapes raw HTML and drops unsafe links from HTML pages', async () => {
+    const exported = await ExporterFactory.create(ReportFormat.HTML).export([
+      '# Unsafe',
+      '',
+      '<script>alert(1)</script>',
+      '',
+      'Click [here](javascript:alert(1)) or [there](JaVaScRiPt:alert(2)), see <img src=x onerror=alert(3)>',
+      'and ![chart](data:image/svg+xml,<svg/onload=alert(4)>) but keep [safe](https://example.com).'
+    ].join('\n'));
+    const html = exported.content as string;
+
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).toContain('&lt;img src=x onerror=alert(3)&gt;');
+    expect(html).not.toMatch(/<script|<img|javascript:/i);
+    expect(html).toContain('Click here or there');
+    expect(html).toContain('<a href="https://example.com">safe</a>');
+  });
+
+  it('exports the document tree as JSON', async () => {
+    const exported = await ExporterFactory.create(ReportFormat.JSON).export(report, { query: 'solar' });
+    const document = JSON.parse(exported.content as string);
+
+    expect(document.title).toBe('Solar Outlook');
+    expect(document.query).toBe('solar');
+    expect(document.sections[0].title).toBe('Solar Outlook');
+    expect(document.sections[0].sections.map((section: any) => section.title)).toEqual(['Data']);
+    expect(document.references).toEqual([{
+      id: 'ref-1',
+      number: 1,
+      title: 'IEA Solar report',
+      url: 'https://www.iea.org/solar',
+      sourceType: 'web',
+      citation: '[IEA Solar report](https://www.iea.org/solar)'
+    }]);
+  });
+
+  it('renders Word headings, tables, lists and hyperlinks', async () => {
+    const exported = await ExporterFactory.create(ReportFormat.Word).export(report);
+    const { value: html } = await mammoth.convertToHtml({ buffer: exported.content as Buffer });
+
+    expect(exported.filename).toBe('solar-outlook.docx');
+    expect(html).toContain('<h1>Solar Outlook</h1>');
+    expect(html).toContain('<strong>grew</strong>');
+    expect(html).toContain('<td><p><a href="https://www.iea.org/2023">IEA</a></p></td>');
+    expect(html).toContain('<ul><li>Utility scale<ul><li>China</li></ul></li><li>Rooftop</li></ul>');
+    expect(html).toContain('<ol><li><a href="https://www.iea.org/solar">IEA Solar report</a></li></ol>');
+  });
+
+  it('renders a PDF with clickable links', async () => {
+    const exported = await ExporterFactory.create(ReportFormat.PDF).export(report);
+    const raw = (exported.content as Buffer).toString('latin1');
+
+    expect(exported.mimeType).toBe('application/pdf');
+    expect(raw.startsWith('%PDF-')).toBe(true);
+    expect(raw.match(/\/URI \(([^)]+)\)/g)).toEqual([
+      '/URI (https://www.iea.org/solar)',
+      '/URI (https://www.iea.org/2023)',
+      '/URI (https://www.iea.org/solar)'
+    ]);
+  });
+
+  it('exports in the configured report format', async () => {
+    const config = new Config({ query: 'solar', reportFormat: ReportFormat.PDF });
+    const generator = new ReportGenerator(config, new Memory());
+
+    const document = generator.createDocument(report, {
+      query: 'solar',
+      reportType: ReportType.ResearchReport,
+      findings: [],
+      sources: []
+    });
+    const exported = await generator.exportReport(document);
+
+    expect(exported.format).toBe(ReportFormat.PDF);
+    expect(Buffer.isBuffer(exported.content)).toBe(true);
+  });
+});
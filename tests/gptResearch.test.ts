@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GPTResearch } from '../src/core/Agent';
+import { Config } from '../src/core/Config';
+import { LLMProvider, LLMProviderFactory } from '../src/providers/LLMProvider';
+import { BaseRetriever, RetrieverFactory } from '../src/retrievers';
+import { BrowserManager } from '../src/skills/BrowserManager';
+import { ExporterFactory } from '../src/exporters';
+import { ChatMessage, CompletionOptions, ResearchConfig, SearchResult } from '../src/types';
+
+interface RecordedCall {
+  prompt: string;
+  model?: string;
+}
+
+// Provider that records which prompts and models reach it
+class RoleProvider extends LLMProvider {
+  public static calls: Record<string, RecordedCall[]> = {};
+
+  constructor() {
+    super({});
+  }
+
+  protected initializeModelCosts(): void {}
+
+  protected record(call: RecordedCall): void {
+    const name = (this.constructor as typeof RoleProvider).providerName;
+    (RoleProvider.calls[name] ||= []).push(call);
+  }
+
+  static get providerName(): string {
+    return 'none';
+  }
+
+  async createChatCompletion(messages: ChatMessage[], options?: CompletionOptions): Promise<string> {
+    const prompt = messages.map(message => message.content).join('\n');
+    this.record({ prompt, model: options?.model });
+
+    if (prompt.includes('research planning assistant')) {
+      return 'What changed in the sector?\nWho reported it?';
+    }
+    return '# Report\n\nThe sector grew by 4% last year [1].';
+  }
+
+  async *createChatCompletionStream(): AsyncGenerator<string> {}
+
+  async createEmbedding(input: string | string[], options?: { model?: string }): Promise<number[][]> {
+    const texts = Array.isArray(input) ? input : [input];
+    this.record({ prompt: `embed ${texts.length}`, model: options?.model });
+    return texts.map(text => [text.length, 1]);
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    return [];
+  }
+}
+
+// Keyless provider names stand in for a different provider per role
+class FastProvider extends RoleProvider {
+  static get providerName(): string {
+    return 'ollama';
+  }
+}
+
+class SmartProvider extends RoleProvider {
+  static get providerName(): string {
+    return 'vllm';
+  }
+}
+
+class StrategicProvider extends RoleProvider {
+  static get providerName(): string {
+    return 'lmstudio';
+  }
+}
+
+LLMProviderFactory.register('ollama', FastProvider);
+LLMProviderFactory.register('vllm', SmartProvider);
+LLMProviderFactory.register('lmstudio', StrategicProvider);
+
+// Retriever that records the queries it answers
+class FakeRetriever extends BaseRetriever {
+  public static queries: string[] = [];
+
+  async search(query: string): Promise<SearchResult[]> {
+    FakeRetriever.queries.push(query);
+    return [{
+      url: 'https://www.reuters.com/markets/sector-growth',
+      title: 'Sector growth',
+      content: 'The sector grew by 4% last year.'
+    }];
+  }
+
+  protected requiresApiKey(): boolean {
+    return false;
+  }
+}
+
+RetrieverFactory.register('fake', FakeRetriever);
+
+describe('GPTResearch', () => {
+  let scraped: string[];
+
+  beforeEach(() => {
+    (Config as any).instance = undefined;
+    RoleProvider.calls = {};
+    FakeRetriever.queries = [];
+    scraped = [];
+
+    vi.spyOn(BrowserManager.prototype, 'scrapeUrl').mockImplementation(async (url: string) => {
+      scraped.push(url);
+      return { url, title: `Page at ${url}`, content: `The sector grew by 4% last year according to ${url}.` };
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const createResearcher = (config: Partial<ResearchConfig> = {}) => new GPTResearch({
+    query: 'sector growth',
+    llmProvider: 'ollama',
+    fastLLMProvider: 'ollama',
+    smartLLMProvider: 'vllm',
+    strategicLLMProvider: 'lmstudio',
+    fastLLMModel: 'fast-model',
+    smartLLMModel: 'smart-model',
+    strategicLLMModel: 'strategic-model',
+    embeddingModel: 'embedding-model',
+    defaultRetriever: 'fake',
+    tavilyApiKey: 'test-key',
+    // Searches and scrapes must reach the fakes in every test
+    cacheBackend: 'none',
+    ...config
+  });
+
+  it('sends planning, report writing and embedding to the provider configured for each role', async () => {
+    const result = await createResearcher().conductResearch();
+
+    const planning = RoleProvider.calls.lmstudio;
+    expect(planning).toHaveLength(1);
+    expect(planning[0].prompt).toContain('research planning assistant');
+    expect(planning[0].model).toBe('strategic-model');
+    expect(result.subtopics).toEqual(['What changed in the sector?', 'Who reported it?']);
+
+    const writing = RoleProvider.calls.vllm;
+    expect(writing.length).toBeGreaterThan(0);
+    expect(writing.every(call => call.model === 'smart-model')).toBe(true);
+    expect(writing.some(call => call.prompt.includes('sector growth'))).toBe(true);
+
+    const fast = RoleProvider.calls.ollama;
+    expect(fast.some(call => call.prompt.startsWith('embed'))).toBe(true);
+    expect(fast.every(call => ['fast-model', 'embedding-model'].includes(call.model!))).toBe(true);
+    expect(fast.some(call => call.prompt.includes('research planning assistant'))).toBe(false);
+  });
+
+  it('scrapes exactly the source URLs without searching', async () => {
+    const sourceUrls = ['https://example.com/annual-report', 'https://example.com/press-release'];
+
+    // No search provider is needed to read a fixed list of pages
+    const result = await createResearcher({ sourceUrls, tavilyApiKey: '' }).conductResearch();
+
+    expect(FakeRetriever.queries).toEqual([]);
+    expect(scraped.sort()).toEqual(sourceUrls);
+    expect(result.sources.map(source => source.url)).toEqual(sourceUrls);
+  });
+
+  it('also searches when source URLs are complemented by search', async () => {
+    const sourceUrls = ['https://example.com/annual-report'];
+
+    const result = await createResearcher({ sourceUrls, complementSourceUrls: true }).conductResearch();
+
+    expect(FakeRetriever.queries).toEqual(['What changed in the sector?', 'Who reported it?']);
+    expect(scraped).toContain('https://example.com/annual-report');
+    expect(result.sources.map(source => source.url)).toEqual([
+      'https://example.com/annual-report',
+      'https://www.reuters.com/markets/sector-growth'
+    ]);
+  });
+
+  it('returns the report without an export when exporting fails', async () => {
+    vi.spyOn(ExporterFactory, 'create').mockReturnValue({
+      export: async () => {
+        throw new Error('disk full');
+      }
+    } as any);
+    const researcher = createResearcher();
+    const exportErrors: any[] = [];
+    researcher.on('report_export_error', data => exportErrors.push(data));
+
+    const result = await researcher.conductResearch();
+
+    expect(result.report).toContain('The sector grew by 4% last year');
+    expect(result.exported).toBeUndefined();
+    expect(exportErrors).toHaveLength(1);
+    expect(exportErrors[0].error.message).toBe('disk full');
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LLMProvider } from '../src/providers/LLMProvider';
+import { Config } from '../src/core/Config';
+import { Memory } from '../src/core/Memory';
+import { ContextManager } from '../src/skills/ContextManager';
+import { ReportGenerator } from '../src/skills/ReportGenerator';
+import { ChatMessage, ReportType } from '../src/types';
+
+// Provider that records the prompts it receives and answers with a fixed report
+class RecordingProvider extends LLMProvider {
+  public calls: ChatMessage[][] = [];
+
+  constructor() {
+    super({});
+  }
+
+  protected initializeModelCosts(): void {}
+
+  async createChatCompletion(messages: ChatMessage[]): Promise<string> {
+    this.calls.push(messages);
+    return '# Report\n\nRevenue grew according to internal documents [1]. Public reporting shows a flat sector [2].';
+  }
+
+  async *createChatCompletionStream(): AsyncGenerator<string> {}
+
+  async createEmbedding(): Promise<number[]> {
+    return [];
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    return [];
+  }
+}
+
+describe('Hybrid research', () => {
+  let config: Config;
+  let memory: Memory;
+
+  beforeEach(() => {
+    (Config as any).instance = undefined;
+    config = Config.getInstance({ query: 'quarterly revenue growth' });
+    memory = new Memory();
+  });
+
+  it('keeps the source type of each finding and interleaves local and web context', async () => {
+    const contextManager = new ContextManager(config, memory);
+
+    const findings = await contextManager.buildContext([
+      { url: 'https://example.com/a', content: 'Analysts expect revenue growth to slow.' },
+      { url: 'https://example.com/b', content: 'Quarterly revenue growth beat estimates across the sector.' },
+      {
+        url: '/docs/q3.md',
+        title: 'Q3 Summary',
+        content: 'Quarterly revenue grew by 12% on strong growth in EMEA.',
+        sourceType: 'local'
+      }
+    ], new RecordingProvider());
+
+    expect(findings.map(finding => finding.sourceType)).toEqual(['local', 'web', 'web']);
+    expect(findings[0]).toEqual({
+      content: 'Quarterly revenue grew by 12% on strong growth in EMEA.',
+      source: '/docs/q3.md',
+      sourceType: 'local',
+      title: 'Q3 Summary'
+    });
+    expect(memory.getFindings()).toEqual(findings);
+  });
+
+  it('labels findings by origin and asks the report to attribute claims', async () => {
+    const provider = new RecordingProvider();
+    const generator = new ReportGenerator(config, memory);
+
+    const report = await generator.generateReport({
+      query: 'quarterly revenue growth',
+      reportType: ReportType.ResearchReport,
+      findings: [
+        { content: 'Revenue grew by 12%.', source: '/docs/q3.md', sourceType: 'local', title: 'Q3 Summary' },
+        { content: 'Sector revenue was flat.', source: 'https://example.com/b', sourceType: 'web' }
+      ],
+      sources: [
+        { url: '/docs/q3.md', title: 'Q3 Summary', content: '', sourceType: 'local' },
+        { url: 'https://example.com/b', title: 'Sector update', content: '' }
+      ],
+      subtopics: []
+    }, provider);
+
+    const [system, user] = provider.calls[0];
+    expect(system.content).toMatch(/which claims come from internal documents/);
+    expect(user.content).toContain('[1] Internal document: Q3 Summary - /docs/q3.md\nRevenue grew by 12%.');
+    expect(user.content).toContain('[2] Web: https://example.com/b\nSector revenue was flat.');
+
+    const markdown = generator.renderMarkdown(generator.createDocument(report, {
+      query: 'quarterly revenue growth',
+      reportType: ReportType.ResearchReport,
+      findings: [],
+      sources: [
+        { url: '/docs/q3.md', title: 'Q3 Summary', content: '', sourceType: 'local' },
+        { url: 'https://example.com/b', title: 'Sector update', content: '' }
+      ]
+    }));
+    expect(markdown).toContain('1. [Q3 Summary](/docs/q3.md) (internal document)');
+    expect(markdown).toMatch(/^2\. \[Sector update\]\(https:\/\/example.com\/b\)$/m);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LLMProvider } from '../src/providers/LLMProvider';
+import { Config } from '../src/core/Config';
+import { Memory } from '../src/core/Memory';
+import { ReportGenerator } from '../src/skills/ReportGenerator';
+import { collectCitableSources } from '../src/utils/citations';
+import { ChatMessage, ResearchContext, ReportType } from '../src/types';
+
+// Provider that records its prompts and answers with a report citing sources 3, 1 and a dangling 9
+class CitingProvider extends LLMProvider {
+  public calls: ChatMessage[][] = [];
+
+  constructor() {
+    super({});
+  }
+
+  protected initializeModelCosts(): void {}
+
+  async createChatCompletion(messages: ChatMessage[]): Promise<string> {
+    this.calls.push(messages);
+    return [
+      '# Grid Storage',
+      '',
+      'Battery prices fell 20% in 2023 [3]. Deployments doubled [1, 9].',
+      '',
+      '| Market | Growth |',
+      '| --- | --- |',
+      '| US | 80% [3] |',
+      '',
+      'Forecasts vary widely [9].'
+    ].join('\n');
+  }
+
+  async *createChatCompletionStream(): AsyncGenerator<string> {}
+
+  async createEmbedding(): Promise<number[]> {
+    return [];
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    return [];
+  }
+}
+
+const context: ResearchContext = {
+  query: 'grid storage',
+  reportType: ReportType.ResearchReport,
+  findings: [
+    { content: 'Deployments doubled.', source: 'https://a.example/deploy', sourceType: 'web' },
+    { content: 'Prices fell 20%.', source: 'https://c.example/prices?utm_source=feed', sourceType: 'web', title: 'Price index' }
+  ],
+  sources: [
+    { url: 'https://a.example/deploy', title: 'Deployment tracker', content: '' },
+    { url: 'https://b.example/uncited', title: 'Uncited survey', content: '' }
+  ]
+};
+
+describe('Inline citations', () => {
+  let generator: ReportGenerator;
+  let provider: CitingProvider;
+
+  beforeEach(() => {
+    (Config as any).instance = undefined;
+    generator = new ReportGenerator(new Config({ query: 'grid storage' }), new Memory());
+    provider = new CitingProvider();
+  });
+
+  it('numbers the research sources followed by other finding sources', () => {
+    expect(collectCitableSources(context.sources, context.findings).map(source => source.url)).toEqual([
+      'https://a.example/deploy',
+      'https://b.example/uncited',
+      'https://c.example/prices?utm_source=feed'
+    ]);
+  });
+
+  it('labels findings with their source numbers and asks for [n] citations', async () => {
+    await generator.generateReport(context, provider);
+    const [system, user] = provider.calls[0];
+
+    expect(system.content).toMatch(/Cite the sources of your claims inline with these numbers/);
+    expect(user.content).toContain('[1] Web: https://a.example/deploy\nDeployments doubled.');
+    expect(user.content).toContain('[3] Web: Price index - https://c.example/prices?utm_source=feed\nPrices fell 20%.');
+  });
+
+  it('lists only cited sources, renumbered in citation order, and drops dangling markers', async () => {
+    const report = await generator.generateReport(context, provider);
+    const document = generator.createDocument(report, context);
+    const markdown = generator.renderMarkdown(document);
+
+    expect(document.references.map(reference => [reference.number, reference.title])).toEqual([
+      [1, 'Price index'],
+      [2, 'Deployment tracker']
+    ]);
+    expect(document.sections[0].blocks[1]).toMatchObject({
+      claims: [
+        { text: 'Battery prices fell 20% in 2023 [1].', citations: ['ref-1'] },
+        { text: 'Deployments doubled [2].', citations: ['ref-2'] }
+      ]
+    });
+    expect(markdown).toContain('| US | 80% [1] |');
+    expect(markdown).toContain('Forecasts vary widely.');
+    expect(markdown).not.toContain('Uncited survey');
+  });
+
+  it('lists no references when the report cites none', () => {
+    const document = generator.createDocument('# Grid Storage\n\nNo citations here.', context);
+
+    expect(document.references).toEqual([]);
+    expect(generator.renderMarkdown(document)).not.toContain('## References');
+  });
+
+  it('leaves brackets in code spans and link text as written', () => {
+    const document = generator.createDocument([
+      '# Grid Storage',
+      '',
+      'Read `items[5]` and `arr[1]` from the [tracker [1]](https://example.com/tracker). Prices fell **sharply [3]**.',
+      '',
+      '| Field | Source |',
+      '| --- | --- |',
+      '| `cells[2]` | [3] |'
+    ].join('\n'), context);
+
+    expect(document.sections[0].blocks[0]).toMatchObject({
+      claims: [
+        {
+          text: 'Read `items[5]` and `arr[1]` from the [tracker [1]](https://example.com/tracker).',
+          citations: []
+        },
+        { text: 'Prices fell **sharply [1]**.', citations: ['ref-1'] }
+      ]
+    });
+    expect(document.sections[0].blocks[1]).toMatchObject({
+      headers: ['Field', 'Source'],
+      rows: [['`cells[2]`', '[1]']]
+    });
+    expect(document.references.map(reference => reference.title)).toEqual(['Price index']);
+  });
+});
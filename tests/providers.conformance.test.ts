@@ -0,0 +1,474 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { LLMProvider, LLMProviderConfig } from '../src/providers/LLMProvider';
+import { OpenAIProvider } from '../src/providers/openai/OpenAIProvider';
+import { OpenAICompatibleProvider } from '../src/providers/openai/OpenAICompatibleProvider';
+import { AnthropicProvider } from '../src/providers/anthropic/AnthropicProvider';
+import { OllamaProvider } from '../src/providers/ollama/OllamaProvider';
+import { GoogleProvider } from '../src/providers/google/GoogleProvider';
+import { GroqProvider } from '../src/providers/groq/GroqProvider';
+import { CohereProvider } from '../src/providers/cohere/CohereProvider';
+
+/**
+ * Provider conformance suite.
+ *
+ * Every LLM provider is run against a mocked HTTP transport that speaks its
+ * vendor's wire format, and must satisfy the same contract: plain and streamed
+ * completions, usage events, system prompt delivery, error normalization and
+ * (where supported) embeddings. New providers should add a fixture here.
+ */
+
+const SYSTEM_PROMPT = 'You are a conformance test assistant.';
+const USER_PROMPT = 'Say hello.';
+const CHUNKS = ['Hello ', 'from ', 'the mock'];
+const TEXT = CHUNKS.join('');
+const USAGE = { input: 12, output: 5 };
+const VECTORS = [[0.5, 0.25, 0.125], [1, -0.5, 0.75]];
+
+type Scenario = 'chat' | 'stream' | 'embed' | 'error';
+
+interface MockRequest {
+  url: string;
+  body: any;
+}
+
+interface ProviderFixture {
+  name: string;
+  create: (config: LLMProviderConfig) => LLMProvider;
+  supportsEmbeddings: boolean;
+  respond: (scenario: Scenario, request: MockRequest) => Response;
+}
+
+const json = (body: any, status: number = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' }
+  });
+
+const sse = (events: Array<{ event?: string; data: any }>) =>
+  new Response(
+    events
+      .map(({ event, data }) =>
+        `${event ? `event: ${event}\n` : ''}data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`
+      )
+      .join(''),
+    { status: 200, headers: { 'content-type': 'text/event-stream' } }
+  );
+
+const ndjson = (lines: any[]) =>
+  new Response(lines.map(line => JSON.stringify(line)).join('\n') + '\n', {
+    status: 200,
+    headers: { 'content-type': 'application/x-ndjson' }
+  });
+
+const unauthorized = () => json({ error: { message: 'invalid api key' }, message: 'invalid api key' }, 401);
+
+// OpenAI-style wire format, shared by OpenAI, OpenAI-compatible vendors and Groq
+const openAIChunk = (content: string | null, extra: Record<string, any> = {}) => ({
+  id: 'chatcmpl-mock',
+  object: 'chat.completion.chunk',
+  created: 0,
+  model: 'mock-model',
+  choices: content === null ? [] : [{ index: 0, delta: { content }, finish_reason: null }],
+  ...extra
+});
+
+const openAIUsage = {
+  prompt_tokens: USAGE.input,
+  completion_tokens: USAGE.output,
+  total_tokens: USAGE.input + USAGE.output
+};
+
+const openAIChat = () =>
+  json({
+    id: 'chatcmpl-mock',
+    object: 'chat.completion',
+    created: 0,
+    model: 'mock-model',
+    choices: [{ index: 0, message: { role: 'assistant', content: TEXT }, finish_reason: 'stop' }],
+    usage: openAIUsage
+  });
+
+const openAIRespond = (scenario: Scenario, request: MockRequest): Response => {
+  switch (scenario) {
+    case 'chat':
+      return openAIChat();
+    case 'stream':
+      return sse([
+        ...CHUNKS.map(chunk => ({ data: openAIChunk(chunk) })),
+        { data: openAIChunk(null, { usage: openAIUsage }) },
+        { data: '[DONE]' }
+      ]);
+    case 'embed':
+      return json({
+        object: 'list',
+        data: VECTORS.map((embedding, index) => ({
+          object: 'embedding',
+          index,
+          // The SDK asks for base64-encoded float32 vectors by default
+          embedding: request.body.encoding_format === 'base64'
+            ? Buffer.from(new Float32Array(embedding).buffer).toString('base64')
+            : embedding
+        })),
+        model: 'text-embedding-3-small',
+        usage: { prompt_tokens: 4, total_tokens: 4 }
+      });
+    default:
+      return unauthorized();
+  }
+};
+
+const fixtures: ProviderFixture[] = [
+  {
+    name: 'openai',
+    create: config => new OpenAIProvider(config),
+    supportsEmbeddings: true,
+    respond: openAIRespond
+  },
+  {
+    name: 'together',
+    create: config => new (OpenAICompatibleProvider.withPreset('together'))(config),
+    supportsEmbeddings: true,
+    respond: openAIRespond
+  },
+  {
+    name: 'perplexity',
+    create: config => new (OpenAICompatibleProvider.withPreset('perplexity'))(config),
+    supportsEmbeddings: false,
+    respond: openAIRespond
+  },
+  {
+    name: 'anthropic',
+    create: config => new AnthropicProvider(config),
+    supportsEmbeddings: false,
+    respond: (scenario) => {
+      const message = {
+        id: 'msg_mock',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-3-5-sonnet-20240620',
+        stop_reason: 'end_turn',
+        stop_sequence: null
+      };
+      switch (scenario) {
+        case 'chat':
+          return json({
+            ...message,
+            content: [{ type: 'text', text: TEXT }],
+            usage: { input_tokens: USAGE.input, output_tokens: USAGE.output }
+          });
+        case 'stream':
+          return sse([
+            {
+              event: 'message_start',
+              data: {
+                type: 'message_start',
+                message: { ...message, content: [], usage: { input_tokens: USAGE.input, output_tokens: 1 } }
+              }
+            },
+            {
+              event: 'content_block_start',
+              data: { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } }
+            },
+            ...CHUNKS.map(text => ({
+              event: 'content_block_delta',
+              data: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text } }
+            })),
+            { event: 'content_block_stop', data: { type: 'content_block_stop', index: 0 } },
+            {
+              event: 'message_delta',
+              data: {
+                type: 'message_delta',
+                delta: { stop_reason: 'end_turn', stop_sequence: null },
+                usage: { output_tokens: USAGE.output }
+              }
+            },
+            { event: 'message_stop', data: { type: 'message_stop' } }
+          ]);
+        default:
+          return json({ type: 'error', error: { type: 'authentication_error', message: 'invalid api key' } }, 401);
+      }
+    }
+  },
+  {
+    name: 'ollama',
+    create: config => new OllamaProvider({ ...config, baseURL: 'http://ollama.test:11434' }),
+    supportsEmbeddings: true,
+    respond: (scenario) => {
+      const base = { model: 'llama3.1', created_at: new Date(0).toISOString() };
+      switch (scenario) {
+        case 'chat':
+          return json({
+            ...base,
+            message: { role: 'assistant', content: TEXT },
+            done: true,
+            prompt_eval_count: USAGE.input,
+            eval_count: USAGE.output
+          });
+        case 'stream':
+          return ndjson([
+            ...CHUNKS.map(content => ({ ...base, message: { role: 'assistant', content }, done: false })),
+            {
+              ...base,
+              message: { role: 'assistant', content: '' },
+              done: true,
+              prompt_eval_count: USAGE.input,
+              eval_count: USAGE.output
+            }
+          ]);
+        case 'embed':
+          return json({ model: 'nomic-embed-text', embeddings: VECTORS, prompt_eval_count: 4 });
+        default:
+          return json({ error: 'unauthorized' }, 401);
+      }
+    }
+  },
+  {
+    name: 'google',
+    create: config => new GoogleProvider(config),
+    supportsEmbeddings: true,
+    respond: (scenario) => {
+      const candidate = (text: string) => ({
+        content: { role: 'model', parts: [{ text }] },
+        finishReason: 'STOP',
+        index: 0
+      });
+      const usageMetadata = {
+        promptTokenCount: USAGE.input,
+        candidatesTokenCount: USAGE.output,
+        totalTokenCount: USAGE.input + USAGE.output
+      };
+      switch (scenario) {
+        case 'chat':
+          return json({ candidates: [candidate(TEXT)], usageMetadata });
+        case 'stream':
+          return sse(
+            CHUNKS.map((chunk, index) => ({
+              data: {
+                candidates: [candidate(chunk)],
+                ...(index === CHUNKS.length - 1 ? { usageMetadata } : {})
+              }
+            }))
+          );
+        case 'embed':
+          return json({ embeddings: VECTORS.map(values => ({ values })) });
+        default:
+          return json({ error: { code: 401, message: 'invalid api key', status: 'UNAUTHENTICATED' } }, 401);
+      }
+    }
+  },
+  {
+    name: 'groq',
+    create: config => new GroqProvider(config),
+    supportsEmbeddings: false,
+    respond: (scenario) => {
+      switch (scenario) {
+        case 'chat':
+          return openAIChat();
+        case 'stream':
+          return sse([
+            ...CHUNKS.map(chunk => ({ data: openAIChunk(chunk) })),
+            { data: openAIChunk('', { x_groq: { id: 'req_mock', usage: openAIUsage } }) },
+            { data: '[DONE]' }
+          ]);
+        default:
+          return unauthorized();
+      }
+    }
+  },
+  {
+    name: 'cohere',
+    create: config => new CohereProvider(config),
+    supportsEmbeddings: true,
+    respond: (scenario) => {
+      const meta = { billed_units: { input_tokens: USAGE.input, output_tokens: USAGE.output } };
+      switch (scenario) {
+        case 'chat':
+          return json({ text: TEXT, generation_id: 'gen-mock', finish_reason: 'COMPLETE', meta });
+        case 'stream':
+          return ndjson([
+            { is_finished: false, event_type: 'stream-start', generation_id: 'gen-mock' },
+            ...CHUNKS.map(text => ({ is_finished: false, event_type: 'text-generation', text })),
+            {
+              is_finished: true,
+              event_type: 'stream-end',
+              finish_reason: 'COMPLETE',
+              response: { text: TEXT, generation_id: 'gen-mock', meta }
+            }
+          ]);
+        case 'embed':
+          return json({
+            id: 'embed-mock',
+            response_type: 'embeddings_floats',
+            embeddings: VECTORS,
+            texts: ['first', 'second'],
+            meta: { billed_units: { input_tokens: 4 } }
+          });
+        default:
+          return json({ message: 'invalid api key' }, 401);
+      }
+    }
+  }
+];
+
+describe.each(fixtures)('LLM provider conformance: $name', (fixture) => {
+  let scenario: Scenario;
+  let requests: MockRequest[];
+  let provider: LLMProvider;
+
+  // Mocked HTTP transport shared by every SDK under test
+  const transport = vi.fn(async (input: any, init?: any) => {
+    const url = typeof input === 'string' ? input : input.url ?? String(input);
+    const rawBody = init?.body ?? (typeof input === 'object' && 'text' in input ? await input.text() : undefined);
+    const request = { url, body: rawBody ? JSON.parse(rawBody) : undefined };
+    requests.push(request);
+    return fixture.respond(scenario, request);
+  });
+
+  const messages = [
+    { role: 'system' as const, content: SYSTEM_PROMPT },
+    { role: 'user' as const, content: USER_PROMPT }
+  ];
+
+  beforeEach(() => {
+    requests = [];
+    transport.mockClear();
+    vi.stubGlobal('fetch', transport);
+    provider = fixture.create({ apiKey: 'test-key', maxRetries: 0, fetch: transport as any });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns the completion text and emits usage', async () => {
+    scenario = 'chat';
+    const usage = vi.fn();
+    provider.on('usage', usage);
+
+    const result = await provider.createChatCompletion(messages, { model: 'mock-model' });
+
+    expect(result).toBe(TEXT);
+    expect(usage).toHaveBeenCalledWith({
+      inputTokens: USAGE.input,
+      outputTokens: USAGE.output,
+      totalTokens: USAGE.input + USAGE.output,
+      model: 'mock-model'
+    });
+  });
+
+  it('sends both the system prompt and the user prompt', async () => {
+    scenario = 'chat';
+    await provider.createChatCompletion(messages, { model: 'mock-model' });
+
+    expect(requests).toHaveLength(1);
+    const payload = JSON.stringify(requests[0].body);
+    expect(payload).toContain(SYSTEM_PROMPT);
+    expect(payload).toContain(USER_PROMPT);
+  });
+
+  it('streams completion chunks and emits usage', async () => {
+    scenario = 'stream';
+    const usage = vi.fn();
+    provider.on('usage', usage);
+
+    const chunks: string[] = [];
+    for await (const chunk of provider.createChatCompletionStream(messages, { model: 'mock-model' })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.join('')).toBe(TEXT);
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(usage).toHaveBeenCalledWith(expect.objectContaining({
+      inputTokens: USAGE.input,
+      outputTokens: USAGE.output,
+      model: 'mock-model'
+    }));
+  });
+
+  it('normalizes HTTP errors and emits them', async () => {
+    scenario = 'error';
+    const onError = vi.fn();
+    provider.on('error', onError);
+
+    await expect(provider.createChatCompletion(messages, { model: 'mock-model' }))
+      .rejects.toMatchObject({ statusCode: 401, provider: provider.constructor.name });
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  if (fixture.supportsEmbeddings) {
+    it('creates embeddings for single and batched input', async () => {
+      scenario = 'embed';
+
+      const batch = await provider.createEmbedding(['first', 'second']);
+      expect(batch).toEqual(VECTORS);
+
+      const single = await provider.createEmbedding('first');
+      expect(single).toEqual(VECTORS[0]);
+      expect(provider.supportsEmbeddings()).toBe(true);
+    });
+  } else {
+    it('rejects embedding requests it cannot serve', async () => {
+      expect(provider.supportsEmbeddings()).toBe(false);
+      provider.on('error', () => undefined);
+      await expect(provider.createEmbedding('first')).rejects.toThrow();
+    });
+  }
+});
+
+describe('OpenAI-compatible presets', () => {
+  const transport = vi.fn(async (_input: any, _init?: any) => openAIChat());
+  const urlOf = (call: any[]) => typeof call[0] === 'string' ? call[0] : call[0].url ?? String(call[0]);
+
+  beforeEach(() => {
+    transport.mockClear();
+  });
+
+  it('targets the preset endpoint unless a baseURL is given', async () => {
+    const together = new (OpenAICompatibleProvider.withPreset('together'))({ apiKey: 'test-key', fetch: transport as any });
+    await together.createChatCompletion([{ role: 'user', content: USER_PROMPT }]);
+    expect(urlOf(transport.mock.calls[0])).toBe('https://api.together.xyz/v1/chat/completions');
+
+    const custom = new (OpenAICompatibleProvider.withPreset('together'))({
+      apiKey: 'test-key',
+      baseURL: 'http://proxy.test/v1',
+      fetch: transport as any
+    });
+    await custom.createChatCompletion([{ role: 'user', content: USER_PROMPT }]);
+    expect(urlOf(transport.mock.calls[1])).toBe('http://proxy.test/v1/chat/completions');
+  });
+
+  it('runs self-hosted presets without an API key but requires a model', async () => {
+    const vllm = new (OpenAICompatibleProvider.withPreset('vllm'))({ maxRetries: 0, fetch: transport as any });
+    vllm.on('error', () => undefined);
+
+    await expect(vllm.createChatCompletion([{ role: 'user', content: USER_PROMPT }])).rejects.toThrow(/default model/);
+    await expect(vllm.createChatCompletion([{ role: 'user', content: USER_PROMPT }], { model: 'mock-model' }))
+      .resolves.toBe(TEXT);
+    expect(urlOf(transport.mock.calls[0])).toBe('http://127.0.0.1:8000/v1/chat/completions');
+  });
+
+  it('rejects unknown presets', () => {
+    expect(() => OpenAICompatibleProvider.withPreset('nope')).toThrow(/Unknown OpenAI-compatible preset/);
+  });
+});
+
+describe('OpenAI reasoning models', () => {
+  const transport = vi.fn(async (_input: any, _init?: any) => openAIChat());
+
+  it('moves the system prompt into the first user turn for o1 models', async () => {
+    const provider = new OpenAIProvider({ apiKey: 'test-key', fetch: transport as any });
+
+    await provider.createChatCompletion(
+      [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: USER_PROMPT }
+      ],
+      { model: 'o1-preview', temperature: 0.2, maxTokens: 100 }
+    );
+
+    const body = JSON.parse(transport.mock.calls[0][1].body);
+    expect(body.messages).toEqual([{ role: 'user', content: `${SYSTEM_PROMPT}\n\n${USER_PROMPT}` }]);
+    expect(body).not.toHaveProperty('temperature');
+    expect(body).not.toHaveProperty('max_tokens');
+  });
+});
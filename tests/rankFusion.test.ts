@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import { Config } from '../src/core/Config';
+import { Memory } from '../src/core/Memory';
+import { ResearchConductor } from '../src/skills/ResearchConductor';
+import { reciprocalRankFusion } from '../src/utils/rankFusion';
+import { normalizeUrl } from '../src/utils/domains';
+import { SearchResult } from '../src/types';
+
+vi.mock('axios');
+
+const mockedAxios = vi.mocked(axios);
+
+const result = (url: string, title = url): SearchResult => ({ url, title, content: '' });
+
+describe('Reciprocal rank fusion', () => {
+  it('normalizes URL variants to the same key', () => {
+    expect(normalizeUrl('http://www.Example.com/docs/?utm_source=x&page=2#intro'))
+      .toBe(normalizeUrl('https://example.com/docs?page=2'));
+    expect(normalizeUrl('https://example.com/a')).not.toBe(normalizeUrl('https://example.com/b'));
+  });
+
+  it('ranks results found by several retrievers first and records their retrievers', () => {
+    const fused = reciprocalRankFusion([
+      { retriever: 'tavily', results: [result('https://a.com'), result('https://b.com/', 'B from Tavily')] },
+      { retriever: 'serper', results: [result('https://www.b.com', 'B from Serper'), result('https://c.com')] }
+    ]);
+
+    expect(fused.map(item => item.url)).toEqual(['https://www.b.com', 'https://a.com', 'https://c.com']);
+    expect(fused[0]).toMatchObject({ title: 'B from Serper', retrievers: ['tavily', 'serper'] });
+    expect(fused[0].score).toBeCloseTo(1 / 62 + 1 / 61);
+    expect(fused[1]).toMatchObject({ retrievers: ['tavily'], score: 1 / 61 });
+  });
+});
+
+describe('ResearchConductor fanout', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('queries every configured retriever and keeps going when one fails', async () => {
+    (Config as any).instance = undefined;
+    const config = Config.getInstance({
+      query: 'rank fusion',
+      searchStrategy: 'fanout',
+      defaultRetriever: 'tavily',
+      tavilyApiKey: 'key',
+      serperApiKey: 'key',
+      googleApiKey: '',
+      bingApiKey: 'key',
+      serpapiApiKey: '',
+      braveApiKey: ''
+    });
+    mockedAxios.post.mockImplementation(async (url: string) => url.includes('tavily')
+      ? { data: { results: [{ url: 'https://a.com', title: 'A', content: 'A' }] } }
+      : { data: { organic: [
+        { link: 'https://b.com', title: 'B', position: 1 },
+        { link: 'https://a.com/', title: 'A', position: 2 }
+      ] } }
+    );
+    mockedAxios.get.mockRejectedValue(new Error('Bing is down'));
+    const conductor = new ResearchConductor(config, new Memory());
+    const onRetrieverError = vi.fn();
+    const onSuccess = vi.fn();
+    conductor.on('retriever_error', onRetrieverError);
+    conductor.on('search_success', onSuccess);
+
+    const results = await conductor.searchInformation(['rank fusion']);
+
+    expect(results.map(item => item.url)).toEqual(['https://a.com', 'https://b.com']);
+    expect(results[0].retrievers).toEqual(['tavily', 'serper']);
+    expect(onRetrieverError).toHaveBeenCalledTimes(1);
+    expect(onRetrieverError).toHaveBeenCalledWith(expect.objectContaining({ retriever: 'bing' }));
+    // Keyless DuckDuckGo is left out while keyed retrievers are configured
+    expect(onSuccess).toHaveBeenCalledWith(expect.objectContaining({ retriever: 'tavily,serper' }));
+  });
+});
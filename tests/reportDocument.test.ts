@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { buildReportDocument, renderMarkdown } from '../src/exporters';
+import { ReportType, SearchResult } from '../src/types';
+
+const sources: SearchResult[] = [
+  { url: 'https://www.iea.org/solar', title: 'IEA Solar report', content: '' },
+  { url: 'https://example.com/wind', title: 'Wind survey', content: '' },
+  { url: 'https://example.com/hydro', title: 'Hydro review', content: '' }
+];
+
+const report = `Prepared for the energy team.
+
+# Energy Outlook
+
+Solar capacity grew 50% in 2023. ([IEA](https://www.iea.org/solar/)) Wind grew more slowly [2].
+
+## Data
+
+| Year | Capacity |
+| --- | --- |
+| 2023 | 1.6 TW |
+
+![Installed capacity](https://example.com/chart.png "Capacity by year")
+
+### Regions
+
+1. China led growth.
+2. Europe followed [1, 2].
+   - Mostly rooftop
+
+## Data
+
+Repeated headings get unique ids.
+
+## References
+
+1. [Old entry](https://old.example.com)
+`;
+
+describe('Report document', () => {
+  const document = buildReportDocument(report, {
+    query: 'energy',
+    reportType: ReportType.DetailedReport,
+    sources
+  });
+
+  it('nests sections by heading level', () => {
+    expect(document.title).toBe('Energy Outlook');
+    expect(document.reportType).toBe(ReportType.DetailedReport);
+    expect(document.blocks).toEqual([{
+      type: 'paragraph',
+      claims: [{ id: 'intro-1', text: 'Prepared for the energy team.', citations: [] }]
+    }]);
+
+    const [outlook] = document.sections;
+    expect(outlook.sections.map(section => section.id)).toEqual(['data', 'data-2']);
+    expect(outlook.sections[0].sections.map(section => [section.title, section.level])).toEqual([['Regions', 3]]);
+  });
+
+  it('splits paragraphs into claims citing references', () => {
+    const [paragraph] = document.sections[0].blocks;
+
+    expect(paragraph).toEqual({
+      type: 'paragraph',
+      claims: [
+        {
+          id: 'energy-outlook-1',
+          text: 'Solar capacity grew 50% in 2023. ([IEA](https://www.iea.org/solar/))',
+          citations: ['ref-1']
+        },
+        { id: 'energy-outlook-2', text: 'Wind grew more slowly [2].', citations: ['ref-2'] }
+      ]
+    });
+  });
+
+  it('keeps tables, figures and nested lists', () => {
+    const data = document.sections[0].sections[0];
+
+    expect(data.blocks).toEqual([
+      { type: 'table', headers: ['Year', 'Capacity'], rows: [['2023', '1.6 TW']] },
+      {
+        type: 'figure',
+        url: 'https://example.com/chart.png',
+        alt: 'Installed capacity',
+        caption: 'Capacity by year'
+      }
+    ]);
+
+    const [list] = data.sections[0].blocks;
+    expect(list).toMatchObject({ type: 'list', ordered: true });
+    expect(list.type === 'list' && list.items[1]).toEqual({
+      claims: [{ id: 'regions-2', text: 'Europe followed [1, 2].', citations: ['ref-1', 'ref-2'] }],
+      list: {
+        type: 'list',
+        ordered: false,
+        items: [{ claims: [{ id: 'regions-3', text: 'Mostly rooftop', citations: [] }] }]
+      }
+    });
+  });
+
+  it('lists cited sources as references in place of the report\'s own list', () => {
+    expect(document.references.map(reference => [reference.id, reference.citation])).toEqual([
+      ['ref-1', '[IEA Solar report](https://www.iea.org/solar)'],
+      ['ref-2', '[Wind survey](https://example.com/wind)']
+    ]);
+  });
+
+  it('renders markdown that parses back to the same tree', () => {
+    const markdown = renderMarkdown(document);
+
+    expect(markdown).toContain('## References\n\n1. [IEA Solar report](https://www.iea.org/solar)\n2. [Wind survey](https://example.com/wind)');
+    expect(markdown).not.toContain('Old entry');
+
+    const reparsed = buildReportDocument(markdown, { query: 'energy', reportType: ReportType.DetailedReport, sources });
+    expect({ ...reparsed, generatedAt: '' }).toEqual({ ...document, generatedAt: '' });
+  });
+
+  it('keeps rules, HTML and code in list items through a round trip', () => {
+    const setup = buildReportDocument(`# Setup
+
+Install the tools.
+
+---
+
+<div class="note">Requires Node 20.</div>
+
+1. Run the installer:
+
+   \`\`\`sh
+   npm install
+   \`\`\`
+
+2. Start the server.
+`);
+
+    expect(setup.sections[0].blocks.slice(1, 3)).toEqual([
+      { type: 'raw', markdown: '---' },
+      { type: 'raw', markdown: '<div class="note">Requires Node 20.</div>' }
+    ]);
+    const list = setup.sections[0].blocks[3];
+    expect(list.type === 'list' && list.items[0]).toEqual({
+      claims: [{ id: 'setup-2', text: 'Run the installer:', citations: [] }],
+      blocks: [{ type: 'code', language: 'sh', code: 'npm install' }]
+    });
+
+    const markdown = renderMarkdown(setup);
+    expect(markdown).toContain('1. Run the installer:\n\n   ```sh\n   npm install\n   ```');
+
+    const reparsed = buildReportDocument(markdown);
+    expect({ ...reparsed, generatedAt: '' }).toEqual({ ...setup, generatedAt: '' });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import { Config } from '../src/core/Config';
+import { Memory } from '../src/core/Memory';
+import { ResearchConductor } from '../src/skills/ResearchConductor';
+import { BingRetriever, SerpAPIRetriever, BraveRetriever, RetrieverFactory } from '../src/retrievers';
+
+vi.mock('axios');
+
+const mockedAxios = vi.mocked(axios);
+
+describe('Search API retrievers', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('normalizes Bing web results', async () => {
+    mockedAxios.get.mockResolvedValueOnce({
+      data: {
+        webPages: {
+          value: [{
+            name: 'Node.js 22',
+            url: 'https://nodejs.org/en/blog/release/v22.0.0',
+            snippet: 'Node.js 22 is released.',
+            datePublished: '2024-04-24'
+          }]
+        }
+      }
+    });
+
+    const results = await new BingRetriever('bing', { apiKey: 'key' }).search('node 22', {
+      country: 'us',
+      language: 'en',
+      days: 7
+    });
+
+    expect(mockedAxios.get.mock.calls[0][1]).toMatchObject({
+      params: { q: 'node 22', mkt: 'en-US', freshness: 'Week' },
+      headers: { 'Ocp-Apim-Subscription-Key': 'key' }
+    });
+    expect(results).toEqual([expect.objectContaining({
+      url: 'https://nodejs.org/en/blog/release/v22.0.0',
+      title: 'Node.js 22',
+      content: 'Node.js 22 is released.',
+      publishedDate: '2024-04-24'
+    })]);
+  });
+
+  it('normalizes SerpAPI organic results in position order', async () => {
+    mockedAxios.get.mockResolvedValueOnce({
+      data: {
+        organic_results: [
+          { position: 2, title: 'Second', link: 'https://example.com/2', snippet: 'Two' },
+          { position: 1, title: 'First', link: 'https://example.com/1', snippet: 'One' }
+        ]
+      }
+    });
+
+    const results = await new SerpAPIRetriever('serpapi', { apiKey: 'key' }).search('query');
+
+    expect(mockedAxios.get.mock.calls[0][1]?.params).toMatchObject({ engine: 'google', api_key: 'key' });
+    expect(results.map(result => result.title)).toEqual(['First', 'Second']);
+    expect(results[0]).toMatchObject({ content: 'One', snippet: 'One', score: 1 });
+  });
+
+  it('normalizes Brave results and strips highlight markup', async () => {
+    mockedAxios.get.mockResolvedValueOnce({
+      data: {
+        web: {
+          results: [{
+            title: 'The <strong>Brave</strong> API',
+            url: 'https://brave.com/search/api/',
+            description: 'Search with <strong>Brave</strong>.',
+            page_age: '2024-01-01T00:00:00'
+          }]
+        }
+      }
+    });
+
+    const results = await new BraveRetriever('brave', { apiKey: 'key' }).search('brave', {
+      includeDomains: ['brave.com']
+    });
+
+    expect(mockedAxios.get.mock.calls[0][1]).toMatchObject({
+      params: { q: 'brave site:brave.com' },
+      headers: { 'X-Subscription-Token': 'key' }
+    });
+    expect(results[0]).toMatchObject({
+      title: 'The Brave API',
+      content: 'Search with Brave.',
+      publishedDate: '2024-01-01T00:00:00'
+    });
+  });
+
+  it('falls back through registered retrievers that have keys', async () => {
+    expect(RetrieverFactory.getAvailableRetrievers()).toEqual(
+      expect.arrayContaining(['bing', 'serpapi', 'brave'])
+    );
+
+    (Config as any).instance = undefined;
+    const config = Config.getInstance({
+      query: 'node 22',
+      defaultRetriever: 'tavily',
+      tavilyApiKey: '',
+      serperApiKey: '',
+      googleApiKey: '',
+      bingApiKey: '',
+      serpapiApiKey: '',
+      braveApiKey: 'key'
+    });
+    mockedAxios.get.mockResolvedValueOnce({
+      data: { web: { results: [{ title: 'Node.js', url: 'https://nodejs.org/', description: 'Run JavaScript' }] } }
+    });
+
+    const results = await new ResearchConductor(config, new Memory()).searchInformation(['node 22']);
+
+    expect(mockedAxios.get.mock.calls[0][0]).toBe('https://api.search.brave.com/res/v1/web/search');
+    expect(results.map(result => result.url)).toEqual(['https://nodejs.org/']);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LLMProvider } from '../src/providers/LLMProvider';
+import { Config } from '../src/core/Config';
+import { Memory } from '../src/core/Memory';
+import { ContextManager } from '../src/skills/ContextManager';
+import { cosineSimilarity } from '../src/utils/vectors';
+
+// Embeds text on three made-up topics so that paraphrases share a vector
+const TOPICS = [/car|automobile|vehicle/i, /price|cost|expensive/i, /weather|rain/i];
+
+class TopicEmbeddingProvider extends LLMProvider {
+  public embeddedBatches: string[][] = [];
+
+  constructor(private canEmbed = true) {
+    super({});
+  }
+
+  public supportsEmbeddings(): boolean {
+    return this.canEmbed;
+  }
+
+  protected initializeModelCosts(): void {}
+
+  async createChatCompletion(): Promise<string> {
+    return '';
+  }
+
+  async *createChatCompletionStream(): AsyncGenerator<string> {}
+
+  async createEmbedding(text: string | string[]): Promise<number[][]> {
+    const texts = Array.isArray(text) ? text : [text];
+    this.embeddedBatches.push(texts);
+    return texts.map(item => TOPICS.map(topic => (topic.test(item) ? 1 : 0)));
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    return [];
+  }
+}
+
+describe('Semantic context ranking', () => {
+  let memory: Memory;
+
+  beforeEach(() => {
+    (Config as any).instance = undefined;
+    memory = new Memory();
+  });
+
+  it('computes cosine similarity', () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBe(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+    expect(() => cosineSimilarity([1, 0], [1, 0, 0])).toThrow(/different lengths/);
+  });
+
+  it('ranks paraphrased passages above keyword matches and keeps their sources', async () => {
+    const config = Config.getInstance({ query: 'car prices' });
+    const provider = new TopicEmbeddingProvider();
+
+    const findings = await new ContextManager(config, memory).buildContext([
+      { url: 'https://example.com/forecast', content: 'Car prices are unrelated to the rain forecast today.' },
+      { url: 'https://example.com/market', content: 'Automobile costs climbed sharply this year' }
+    ], provider, ['How expensive are vehicles?']);
+
+    expect(provider.embeddedBatches[0]).toEqual(['car prices', 'How expensive are vehicles?']);
+    expect(findings.map(finding => finding.source)).toEqual([
+      'https://example.com/market',
+      'https://example.com/forecast'
+    ]);
+    expect(findings[0].content).toBe('Automobile costs climbed sharply this year');
+  });
+
+  it('ranks by keyword relevance without trying to embed when the provider cannot embed', async () => {
+    const config = Config.getInstance({ query: 'car prices' });
+    const provider = new TopicEmbeddingProvider(false);
+    const contextManager = new ContextManager(config, memory);
+    const errors: unknown[] = [];
+    contextManager.on('embedding_error', error => errors.push(error));
+    provider.on('error', error => errors.push(error));
+
+    const findings = await contextManager.buildContext([
+      { url: 'https://example.com/market', content: 'Automobile costs climbed sharply this year.' },
+      { url: 'https://example.com/prices', content: 'Car prices rose. Car prices fell.' }
+    ], provider);
+
+    expect(provider.embeddedBatches).toEqual([]);
+    expect(errors).toEqual([]);
+    expect(findings[0].source).toBe('https://example.com/prices');
+  });
+
+  it('falls back to keyword relevance when the query and passages are embedded differently', async () => {
+    const config = Config.getInstance({ query: 'car prices' });
+    const provider = new TopicEmbeddingProvider();
+    const embed = provider.createEmbedding.bind(provider);
+    // The query batch gets an extra dimension, as a different embedding model would
+    provider.createEmbedding = async (text: string | string[]) => {
+      const vectors = await embed(text);
+      return Array.isArray(text) && text.includes('car prices') ? vectors.map(vector => [...vector, 0]) : vectors;
+    };
+    const contextManager = new ContextManager(config, memory);
+    const ranked: any[] = [];
+    contextManager.on('chunks_ranked', data => ranked.push(data));
+
+    const findings = await contextManager.buildContext([
+      { url: 'https://example.com/market', content: 'Automobile costs climbed sharply this year.' },
+      { url: 'https://example.com/prices', content: 'Car prices rose. Car prices fell.' }
+    ], provider);
+
+    expect(ranked).toEqual([{ chunks: 2, method: 'keyword' }]);
+    expect(findings[0].source).toBe('https://example.com/prices');
+  });
+});
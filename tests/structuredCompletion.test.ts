@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { LLMProvider } from '../src/providers/LLMProvider';
+import { ChatMessage, ChatOptions } from '../src/types';
+
+// Provider that replays scripted responses and records what it was asked
+class ScriptedProvider extends LLMProvider {
+  public calls: Array<{ messages: ChatMessage[]; options?: ChatOptions }> = [];
+
+  constructor(private responses: string[]) {
+    super({});
+  }
+
+  protected initializeModelCosts(): void {}
+
+  async createChatCompletion(messages: ChatMessage[], options?: ChatOptions): Promise<string> {
+    this.calls.push({ messages: [...messages], options });
+    return this.responses.shift() ?? '';
+  }
+
+  async *createChatCompletionStream(): AsyncGenerator<string> {}
+
+  async createEmbedding(): Promise<number[]> {
+    return [];
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    return [];
+  }
+}
+
+const schema = z.object({
+  credible: z.boolean(),
+  concerns: z.array(z.string())
+});
+const messages: ChatMessage[] = [{ role: 'user', content: 'Evaluate this source as JSON.' }];
+
+describe('LLMProvider.createStructuredCompletion', () => {
+  it('requests JSON mode and returns validated data', async () => {
+    const provider = new ScriptedProvider(['{"credible": true, "concerns": []}']);
+
+    await expect(provider.createStructuredCompletion(messages, schema, { temperature: 0.3 }))
+      .resolves.toEqual({ credible: true, concerns: [] });
+    expect(provider.calls[0].options).toMatchObject({ responseFormat: 'json', temperature: 0.3 });
+  });
+
+  it('repairs fenced output with surrounding prose and trailing commas', async () => {
+    const provider = new ScriptedProvider([
+      'Here you go:\n```json\n{"credible": false, "concerns": ["no author",],}\n```'
+    ]);
+
+    await expect(provider.createStructuredCompletion(messages, schema))
+      .resolves.toEqual({ credible: false, concerns: ['no author'] });
+    expect(provider.calls).toHaveLength(1);
+  });
+
+  it('re-prompts with the validation problems', async () => {
+    const provider = new ScriptedProvider([
+      '{"credible": "yes"}',
+      '{"credible": true, "concerns": []}'
+    ]);
+
+    await expect(provider.createStructuredCompletion(messages, schema))
+      .resolves.toEqual({ credible: true, concerns: [] });
+
+    const retry = provider.calls[1].messages;
+    expect(retry[retry.length - 2]).toEqual({ role: 'assistant', content: '{"credible": "yes"}' });
+    expect(retry[retry.length - 1].content).toMatch(/credible: Expected boolean/);
+  });
+
+  it('gives up after the repair attempts are used', async () => {
+    const provider = new ScriptedProvider(['nope', 'still nope']);
+    const onError = vi.fn();
+    provider.on('error', onError);
+
+    await expect(provider.createStructuredCompletion(messages, schema, { maxRepairAttempts: 1 }))
+      .rejects.toMatchObject({ statusCode: 422 });
+    expect(provider.calls).toHaveLength(2);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks for JSON when the prompt does not mention it', async () => {
+    const provider = new ScriptedProvider(['{"credible": true, "concerns": []}']);
+
+    await provider.createStructuredCompletion([{ role: 'user', content: 'Is it credible?' }], schema);
+    expect(provider.calls[0].messages[0]).toEqual({ role: 'system', content: 'Respond with valid JSON only.' });
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { countTokens, truncateToTokens, getTokenizer } from '../src/utils/tokenizer';
+import { getContextWindow, getPromptBudget, DEFAULT_CONTEXT_WINDOW } from '../src/utils/models';
+
+describe('tokenizer', () => {
+  it('counts tokens with the model encoding', () => {
+    expect(getTokenizer('gpt-4o-mini').name).toBe('o200k_base');
+    expect(getTokenizer('gpt-4-turbo').name).toBe('cl100k_base');
+    expect(getTokenizer('claude-3-haiku-20240307').name).toBe('cl100k_base');
+
+    expect(countTokens('hello world', 'gpt-4-turbo')).toBe(2);
+    expect(countTokens('<|endoftext|>', 'gpt-4-turbo')).toBeGreaterThan(1);
+  });
+
+  it('truncates text to a token limit', () => {
+    const text = 'one two three four five six seven eight';
+    const truncated = truncateToTokens(text, 3, 'gpt-4-turbo');
+
+    expect(countTokens(truncated, 'gpt-4-turbo')).toBe(3);
+    expect(text.startsWith(truncated)).toBe(true);
+    expect(truncateToTokens('short', 10)).toBe('short');
+  });
+});
+
+describe('model registry', () => {
+  it('matches context windows by longest model-name prefix', () => {
+    expect(getContextWindow('gpt-4')).toBe(8192);
+    expect(getContextWindow('gpt-4-turbo-2024-04-09')).toBe(128000);
+    expect(getContextWindow('gpt-4o-2024-08-06')).toBe(128000);
+    expect(getContextWindow('claude-3-5-sonnet-20240620')).toBe(200000);
+    expect(getContextWindow('some-local-model')).toBe(DEFAULT_CONTEXT_WINDOW);
+  });
+
+  it('reserves room for the response in the prompt budget', () => {
+    expect(getPromptBudget('gpt-4', 4000)).toBeLessThan(8192 - 4000);
+    expect(getPromptBudget('gpt-4-turbo', 4000)).toBeGreaterThan(100000);
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, it, expect, vi } from 'vitest';
+import { LLMProvider } from '../src/providers/LLMProvider';
+import { OpenAIProvider } from '../src/providers/openai/OpenAIProvider';
+import { AnthropicProvider } from '../src/providers/anthropic/AnthropicProvider';
+import { Config } from '../src/core/Config';
+import { Memory } from '../src/core/Memory';
+import { ToolAgent } from '../src/skills/ToolAgent';
+import { ChatMessage, ChatOptions, ToolCompletion, ToolDefinition } from '../src/types';
+
+const searchTool: ToolDefinition = {
+  name: 'web_search',
+  description: 'Search the web',
+  parameters: {
+    type: 'object',
+    properties: { query: { type: 'string' } },
+    required: ['query']
+  }
+};
+
+const json = (body: any) =>
+  new Response(JSON.stringify(body), { status: 200, headers: { 'content-type': 'application/json' } });
+
+// Replays a response per request and records the parsed request bodies
+const mockTransport = (responses: any[]) => {
+  const bodies: any[] = [];
+  const transport = vi.fn(async (_input: any, init?: any) => {
+    bodies.push(JSON.parse(init.body));
+    return json(responses.shift());
+  });
+  return { transport, bodies };
+};
+
+// A follow-up turn answering a tool call, as an agent loop would send it
+const followUp: ChatMessage[] = [
+  { role: 'user', content: 'Latest TypeScript release?' },
+  {
+    role: 'assistant',
+    content: '',
+    toolCalls: [{ id: 'call_1', name: 'web_search', arguments: { query: 'typescript release' } }]
+  },
+  { role: 'tool', name: 'web_search', toolCallId: 'call_1', content: 'TypeScript 5.6 was released.' }
+];
+
+describe('OpenAIProvider tool calling', () => {
+  it('sends tool definitions and normalizes tool calls', async () => {
+    const { transport, bodies } = mockTransport([{
+      id: 'chatcmpl-mock',
+      object: 'chat.completion',
+      created: 0,
+      model: 'mock-model',
+      choices: [{
+        index: 0,
+        finish_reason: 'tool_calls',
+        message: {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'web_search', arguments: '{"query":"typescript release"}' }
+          }]
+        }
+      }],
+      usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+    }]);
+    const provider = new OpenAIProvider({ apiKey: 'test-key', maxRetries: 0, fetch: transport as any });
+
+    const completion = await provider.createToolCompletion(
+      [{ role: 'user', content: 'Latest TypeScript release?' }],
+      { model: 'mock-model', tools: [searchTool] }
+    );
+
+    expect(completion).toEqual({
+      content: '',
+      toolCalls: [{ id: 'call_1', name: 'web_search', arguments: { query: 'typescript release' } }]
+    });
+    expect(bodies[0].tools).toEqual([{ type: 'function', function: searchTool }]);
+    expect(bodies[0].tool_choice).toBe('auto');
+  });
+
+  it('sends tool calls and results back in the OpenAI format', async () => {
+    const { transport, bodies } = mockTransport([{
+      id: 'chatcmpl-mock',
+      object: 'chat.completion',
+      created: 0,
+      model: 'mock-model',
+      choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: 'TypeScript 5.6' } }]
+    }]);
+    const provider = new OpenAIProvider({ apiKey: 'test-key', maxRetries: 0, fetch: transport as any });
+
+    await expect(provider.createToolCompletion(followUp, { model: 'mock-model', tools: [searchTool] }))
+      .resolves.toEqual({ content: 'TypeScript 5.6', toolCalls: [] });
+    expect(bodies[0].messages.slice(1)).toEqual([
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [{
+          id: 'call_1',
+          type: 'function',
+          function: { name: 'web_search', arguments: '{"query":"typescript release"}' }
+        }]
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: 'TypeScript 5.6 was released.' }
+    ]);
+  });
+});
+
+describe('AnthropicProvider tool calling', () => {
+  it('normalizes tool_use blocks and sends results as tool_result blocks', async () => {
+    const { transport, bodies } = mockTransport([{
+      id: 'msg_mock',
+      type: 'message',
+      role: 'assistant',
+      model: 'mock-model',
+      stop_reason: 'tool_use',
+      stop_sequence: null,
+      content: [
+        { type: 'text', text: 'Searching again.' },
+        { type: 'tool_use', id: 'toolu_2', name: 'web_search', input: { query: 'typescript 5.6 notes' } }
+      ],
+      usage: { input_tokens: 10, output_tokens: 5 }
+    }]);
+    const provider = new AnthropicProvider({ apiKey: 'test-key', maxRetries: 0, fetch: transport as any });
+
+    const completion = await provider.createToolCompletion(followUp, {
+      model: 'mock-model',
+      tools: [searchTool],
+      toolChoice: 'required'
+    });
+
+    expect(completion).toEqual({
+      content: 'Searching again.',
+      toolCalls: [{ id: 'toolu_2', name: 'web_search', arguments: { query: 'typescript 5.6 notes' } }]
+    });
+    expect(bodies[0].tools).toEqual([{
+      name: 'web_search',
+      description: 'Search the web',
+      input_schema: searchTool.parameters
+    }]);
+    expect(bodies[0].tool_choice).toEqual({ type: 'any' });
+    expect(bodies[0].messages.slice(1)).toEqual([
+      {
+        role: 'assistant',
+        content: [{ type: 'tool_use', id: 'call_1', name: 'web_search', input: { query: 'typescript release' } }]
+      },
+      {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: 'call_1', content: 'TypeScript 5.6 was released.' }]
+      }
+    ]);
+  });
+});
+
+// Provider that replays scripted tool completions and records the conversation it saw
+class ScriptedToolProvider extends LLMProvider {
+  public calls: ChatMessage[][] = [];
+  public options: Array<ChatOptions | undefined> = [];
+
+  constructor(private completions: ToolCompletion[]) {
+    super({});
+  }
+
+  protected initializeModelCosts(): void {}
+
+  public supportsToolCalling(): boolean {
+    return true;
+  }
+
+  async createToolCompletion(messages: ChatMessage[], options?: ChatOptions): Promise<ToolCompletion> {
+    this.calls.push([...messages]);
+    this.options.push(options);
+    return this.completions.shift() ?? { content: 'Out of script', toolCalls: [] };
+  }
+
+  async createChatCompletion(): Promise<string> {
+    return '';
+  }
+
+  async *createChatCompletionStream(): AsyncGenerator<string> {}
+
+  async createEmbedding(): Promise<number[]> {
+    return [];
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    return [];
+  }
+}
+
+describe('ToolAgent', () => {
+  const createAgent = () => {
+    (Config as any).instance = undefined;
+    return new ToolAgent(Config.getInstance({ query: 'test' }), new Memory());
+  };
+
+  it('executes requested tools and returns the final answer', async () => {
+    const agent = createAgent();
+    const execute = vi.fn(async ({ query }) => `Results for ${query}`);
+    agent.registerTool({ ...searchTool, execute });
+
+    const provider = new ScriptedToolProvider([
+      { content: '', toolCalls: [{ id: 'call_1', name: 'web_search', arguments: { query: 'typescript' } }] },
+      { content: 'TypeScript 5.6 is the latest release.', toolCalls: [] }
+    ]);
+
+    const result = await agent.run('Latest TypeScript release?', provider);
+
+    expect(execute).toHaveBeenCalledWith({ query: 'typescript' });
+    expect(result.answer).toBe('TypeScript 5.6 is the latest release.');
+    expect(result.steps).toEqual([
+      { tool: 'web_search', arguments: { query: 'typescript' }, result: 'Results for typescript' }
+    ]);
+    expect(provider.calls[1].slice(-1)[0]).toMatchObject({
+      role: 'tool',
+      toolCallId: 'call_1',
+      content: 'Results for typescript'
+    });
+  });
+
+  it('reports tool failures to the model and stops after maxSteps', async () => {
+    const agent = createAgent();
+    agent.registerTool({
+      ...searchTool,
+      execute: async () => {
+        throw new Error('retriever unavailable');
+      }
+    });
+
+    const call = { id: 'call_1', name: 'web_search', arguments: { query: 'typescript' } };
+    const provider = new ScriptedToolProvider([
+      { content: '', toolCalls: [call] },
+      { content: '', toolCalls: [call] },
+      { content: 'No sources could be reached.', toolCalls: [call] }
+    ]);
+
+    const result = await agent.run('Latest TypeScript release?', provider, { maxSteps: 2 });
+
+    expect(result.steps).toHaveLength(2);
+    expect(result.steps[0].error).toBe('retriever unavailable');
+    expect(provider.calls[1].slice(-1)[0].content).toBe('Error: retriever unavailable');
+    expect(result.answer).toBe('No sources could be reached.');
+    expect(provider.options.map(options => options?.toolChoice)).toEqual(['auto', 'auto', 'none']);
+  });
+});
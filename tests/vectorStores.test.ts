@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LLMProvider } from '../src/providers/LLMProvider';
+import { Config } from '../src/core/Config';
+import { Memory } from '../src/core/Memory';
+import { ContextManager } from '../src/skills/ContextManager';
+import { MemoryVectorStore, SQLiteVectorStore, VectorRecord } from '../src/vectorstores';
+
+const records: VectorRecord[] = [
+  { id: 'a', vector: [1, 0], content: 'Solar output', metadata: { source: 'https://a.com', sourceType: 'web' } },
+  { id: 'b', vector: [0.8, 0.6], content: 'Wind output', metadata: { source: '/docs/wind.md', sourceType: 'local' } },
+  { id: 'c', vector: [0, 1], content: 'Coal prices', metadata: { source: 'https://a.com', sourceType: 'web' } },
+  { id: 'd', vector: [1, 0, 0], content: 'Other model', metadata: { source: 'https://d.com' } }
+];
+
+// Embeds text by whether it is about energy or about prices
+class KeywordEmbeddingProvider extends LLMProvider {
+  constructor() {
+    super({});
+  }
+
+  protected initializeModelCosts(): void {}
+
+  async createChatCompletion(): Promise<string> {
+    return '';
+  }
+
+  async *createChatCompletionStream(): AsyncGenerator<string> {}
+
+  async createEmbedding(text: string | string[]): Promise<number[][]> {
+    return (Array.isArray(text) ? text : [text]).map(item => [
+      /solar|wind|energy/i.test(item) ? 1 : 0,
+      /price|cost/i.test(item) ? 1 : 0
+    ]);
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    return [];
+  }
+}
+
+describe('Vector stores', () => {
+  beforeEach(() => {
+    (Config as any).instance = undefined;
+  });
+
+  it('ranks, filters and deletes records in memory', async () => {
+    const store = new MemoryVectorStore('memory');
+    await store.upsert(records);
+
+    const matches = await store.query([1, 0], { topK: 2 });
+    expect(matches.map(match => match.id)).toEqual(['a', 'b']);
+    expect(matches[1].score).toBeCloseTo(0.8);
+
+    const local = await store.query([1, 0], { filter: { sourceType: 'local' } });
+    expect(local.map(match => match.id)).toEqual(['b']);
+
+    expect(await store.deleteBySource('https://a.com')).toBe(2);
+    expect(await store.count()).toBe(2);
+  });
+
+  it('persists records in SQLite across connections', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'gpt-research-vectors-'));
+    const file = path.join(directory, 'vectors.db');
+    try {
+      const store = new SQLiteVectorStore('sqlite', { path: file });
+      await store.upsert(records);
+      store.close();
+
+      const reopened = new SQLiteVectorStore('sqlite', { path: file });
+      const matches = await reopened.query([1, 0], { filter: { sourceType: 'web' } });
+      expect(matches.map(match => [match.id, match.content])).toEqual([['a', 'Solar output'], ['c', 'Coal prices']]);
+      expect(matches[0].metadata).toEqual({ source: 'https://a.com', sourceType: 'web' });
+
+      expect(await reopened.deleteBySource('https://a.com')).toBe(2);
+      expect(await reopened.count()).toBe(2);
+      reopened.close();
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('draws on passages stored by earlier research runs', async () => {
+    const store = new MemoryVectorStore('memory');
+    const provider = new KeywordEmbeddingProvider();
+
+    const first = Config.getInstance({ query: 'wind energy' });
+    await new ContextManager(first, new Memory(), store).buildContext([
+      { url: 'https://example.com/wind', content: 'Wind energy capacity doubled.' }
+    ], provider);
+
+    const second = new Config({ query: 'solar energy' });
+    const findings = await new ContextManager(second, new Memory(), store).buildContext([
+      { url: 'https://example.com/solar', content: 'Solar energy is growing fast.' },
+      { url: 'https://example.com/markets', content: 'Coal prices fell.' }
+    ], provider);
+
+    expect(await store.count()).toBe(3);
+    expect(findings.map(finding => finding.source)).toContain('https://example.com/wind');
+    expect(findings[findings.length - 1].source).toBe('https://example.com/markets');
+  });
+
+  it('leaves out stored passages less relevant than any passage of the current run', async () => {
+    const store = new MemoryVectorStore('memory');
+    const provider = new KeywordEmbeddingProvider();
+
+    await new ContextManager(Config.getInstance({ query: 'steel prices' }), new Memory(), store).buildContext([
+      { url: 'https://example.com/steel', content: 'Steel prices rose.' }
+    ], provider);
+
+    const findings = await new ContextManager(new Config({ query: 'solar energy' }), new Memory(), store).buildContext([
+      { url: 'https://example.com/solar', content: 'Solar energy is growing fast.' },
+      { url: 'https://example.com/wind', content: 'Wind energy capacity doubled.' }
+    ], provider);
+
+    expect(await store.count()).toBe(3);
+    expect(findings.map(finding => finding.source).sort()).toEqual([
+      'https://example.com/solar',
+      'https://example.com/wind'
+    ]);
+  });
+
+  it('only draws on passages embedded with the same model', async () => {
+    const store = new MemoryVectorStore('memory');
+    const provider = new KeywordEmbeddingProvider();
+
+    const first = Config.getInstance({ query: 'wind energy', embeddingModel: 'text-embedding-ada-002' });
+    await new ContextManager(first, new Memory(), store).buildContext([
+      { url: 'https://example.com/wind', content: 'Wind energy capacity doubled.' }
+    ], provider);
+
+    const second = new Config({ query: 'solar energy', embeddingModel: 'text-embedding-3-small' });
+    const findings = await new ContextManager(second, new Memory(), store).buildContext([
+      { url: 'https://example.com/solar', content: 'Solar energy is growing fast.' }
+    ], provider);
+
+    expect(await store.count()).toBe(2);
+    expect(findings.map(finding => finding.source)).toEqual(['https://example.com/solar']);
+  });
+});